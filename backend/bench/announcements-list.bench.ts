@@ -0,0 +1,118 @@
+/**
+ * Times GET /announcements at the service level on a large in-memory board:
+ * 10k announcements carrying 1M reactions between them.
+ *
+ *   npm run bench
+ *
+ * BENCH_ANNOUNCEMENTS and BENCH_REACTIONS override the board size.
+ */
+import { performance } from 'perf_hooks';
+import { AnnouncementsService } from '../src/announcements/announcements.service';
+import { AnnouncementEventsService } from '../src/announcements/events/announcement-events.service';
+import { InMemoryAnnouncementsRepository } from '../src/announcements/repositories/in-memory-announcements.repository';
+import { CommentModerationService } from '../src/announcements/moderation/comment-moderation.service';
+import { BoardSettingsService } from '../src/board/board-settings.service';
+import { InMemoryBoardSettingsRepository } from '../src/board/repositories/in-memory-board-settings.repository';
+import { UsersService } from '../src/users/users.service';
+import { InMemoryUsersRepository } from '../src/users/repositories/in-memory-users.repository';
+
+const ANNOUNCEMENTS =
+  parseInt(process.env.BENCH_ANNOUNCEMENTS ?? '', 10) || 10_000;
+const REACTIONS = parseInt(process.env.BENCH_REACTIONS ?? '', 10) || 1_000_000;
+const REACTION_TYPES = ['up', 'down', 'heart'];
+const WARM_RUNS = 20;
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function report(label: string, ms: number): void {
+  console.log(`${label.padEnd(40)} ${ms.toFixed(1).padStart(9)} ms`);
+}
+
+function seed(repository: InMemoryAnnouncementsRepository): void {
+  const start = Date.now() - ANNOUNCEMENTS * 60_000;
+  for (let i = 0; i < ANNOUNCEMENTS; i++) {
+    repository.saveAnnouncement({
+      id: `announcement-${i}`,
+      title: `Announcement ${i}`,
+      status: 'active',
+      version: 1,
+      createdAt: new Date(start + i * 60_000),
+    });
+  }
+
+  // Spread evenly, one reaction per user per announcement
+  const perAnnouncement = Math.ceil(REACTIONS / ANNOUNCEMENTS);
+  for (let n = 0; n < REACTIONS; n++) {
+    const announcement = n % ANNOUNCEMENTS;
+    const user = Math.floor(n / ANNOUNCEMENTS);
+    repository.saveReaction({
+      id: `reaction-${n}`,
+      announcementId: `announcement-${announcement}`,
+      userId: `user-${user}`,
+      type: REACTION_TYPES[(announcement + user) % REACTION_TYPES.length],
+      createdAt: new Date(
+        start + announcement * 60_000 + (user % perAnnouncement) * 1000,
+      ),
+    });
+  }
+}
+
+function main(): void {
+  const repository = new InMemoryAnnouncementsRepository();
+  const boardSettings = new BoardSettingsService(
+    new InMemoryBoardSettingsRepository(),
+  );
+  const service = new AnnouncementsService(
+    repository,
+    new AnnouncementEventsService(),
+    boardSettings,
+    new CommentModerationService([]),
+    new UsersService(new InMemoryUsersRepository()),
+  );
+
+  console.log(
+    `Seeding ${ANNOUNCEMENTS} announcements and ${REACTIONS} reactions...`,
+  );
+  report(
+    'Seed',
+    time(() => seed(repository)),
+  );
+
+  // The first list builds every announcement's aggregates
+  report(
+    'First page, cold',
+    time(() => service.findAllWithSummary()),
+  );
+
+  let warm = 0;
+  for (let i = 0; i < WARM_RUNS; i++) {
+    warm += time(() => service.findAllWithSummary());
+  }
+  report(`First page, warm (mean of ${WARM_RUNS})`, warm / WARM_RUNS);
+  report(
+    'Most reactions, warm',
+    time(() => service.findAllWithSummary({ sort: 'most_reactions' })),
+  );
+
+  // What a client with a current ETag pays before getting its 304
+  const etag = service.getListEtag();
+  report(
+    'ETag check',
+    time(() => service.getListEtag() === etag),
+  );
+
+  const afterWrite = time(() => {
+    service.addReaction('announcement-0', 'bench-user', { type: 'heart' });
+    service.findAllWithSummary();
+  });
+  report('Reaction, then first page', afterWrite);
+  console.log(
+    `ETag changed after the write: ${service.getListEtag() !== etag}`,
+  );
+}
+
+main();
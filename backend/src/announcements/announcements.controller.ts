@@ -1,49 +1,206 @@
-import { Controller, Get, Post, Patch, Delete, Body, Param, Query, Headers, HttpCode, Res, BadRequestException } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  Res,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
 import { Response } from 'express';
 import { Throttle } from '@nestjs/throttler';
+import { Observable, interval, map, merge } from 'rxjs';
 import { AnnouncementsService } from './announcements.service';
+import { AnnouncementEventsService } from './events/announcement-events.service';
 import { CreateAnnouncementDto } from './dto/create-announcement.dto';
 import { UpdateAnnouncementDto } from './dto/update-announcement.dto';
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ReportCommentDto } from './dto/report-comment.dto';
+import { ModerateCommentDto } from './dto/moderate-comment.dto';
 import { CreateReactionDto } from './dto/create-reaction.dto';
+import { ListAnnouncementsQueryDto } from './dto/list-announcements-query.dto';
+import { ListReactionsQueryDto } from './dto/list-reactions-query.dto';
+import { FeedQueryDto } from './dto/feed-query.dto';
+import {
+  FEED_CONTENT_TYPES,
+  FeedFormat,
+  formatFeed,
+} from './feeds/announcement-feeds';
+import { getFeedConfig } from './feeds/feed.config';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
 import { Announcement } from './interfaces/announcement.interface';
+import { AnnouncementRevisionWithChanges } from './interfaces/announcement-revision.interface';
 import { AnnouncementSummary } from './interfaces/announcement-summary.interface';
-import { Comment } from './interfaces/comment.interface';
-import { Reaction } from './interfaces/reaction.interface';
+import { AnnouncementDetail } from './interfaces/announcement-detail.interface';
+import {
+  Comment,
+  CommentThread,
+  CommentVersion,
+} from './interfaces/comment.interface';
+import { Reaction, ReactionWithUser } from './interfaces/reaction.interface';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
 
 @Controller('announcements')
 export class AnnouncementsController {
-  constructor(private readonly announcementsService: AnnouncementsService) {}
+  constructor(
+    private readonly announcementsService: AnnouncementsService,
+    private readonly announcementEvents: AnnouncementEventsService,
+  ) {}
 
   @Post()
-  create(@Body() createAnnouncementDto: CreateAnnouncementDto): Announcement {
-    return this.announcementsService.create(createAnnouncementDto);
+  create(
+    @Body() createAnnouncementDto: CreateAnnouncementDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Announcement {
+    return this.announcementsService.create(createAnnouncementDto, user.id);
   }
 
+  @Public()
   @Get()
   findAll(
+    @Query() query: ListAnnouncementsQueryDto,
     @Headers('if-none-match') ifNoneMatch: string,
     @Res() res: Response,
-  ): Response<AnnouncementSummary[]> | void {
-    const { announcements, etag } = this.announcementsService.findAllWithSummary();
-
-    // Check if client has cached version
-    if (ifNoneMatch && ifNoneMatch === etag) {
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Response<{
+    announcements: AnnouncementSummary[];
+    nextCursor?: string;
+    prevCursor?: string;
+  }> | void {
+    // Check if client has cached version before building the page
+    if (
+      ifNoneMatch &&
+      ifNoneMatch === this.announcementsService.getListEtag(query, user)
+    ) {
       return res.status(304).end(); // Not Modified
     }
 
+    const { etag, ...page } = this.announcementsService.findAllWithSummary(
+      query,
+      user,
+    );
+
     // Set ETag header and return data
     res.setHeader('ETag', etag);
-    res.setHeader('Cache-Control', 'public, max-age=60'); // Cache for 60 seconds
-    return res.json(announcements);
+    // Signed-in responses can include the caller's drafts, so shared caches must not keep them
+    res.setHeader(
+      'Cache-Control',
+      user ? 'private, max-age=60' : 'public, max-age=60',
+    ); // Cache for 60 seconds
+    res.setHeader('Vary', 'Authorization');
+    return res.json(page);
+  }
+
+  // Live updates: one SSE message per board event, named after its type
+  @Public()
+  @Sse('events')
+  events(): Observable<MessageEvent> {
+    return merge(
+      this.announcementEvents
+        .stream()
+        .pipe(map((event) => ({ type: event.type, data: event }))),
+      // Keep idle connections open through proxies
+      interval(25000).pipe(map(() => ({ type: 'heartbeat', data: {} }))),
+    );
+  }
+
+  // Feeds for readers and calendars; always built for an anonymous viewer so shared caches can keep them
+  @Public()
+  @Get('feed.rss')
+  rssFeed(
+    @Query() query: FeedQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Res() res: Response,
+  ): Response<string> | void {
+    return this.sendFeed('rss', query, ifNoneMatch, res);
+  }
+
+  @Public()
+  @Get('feed.atom')
+  atomFeed(
+    @Query() query: FeedQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Res() res: Response,
+  ): Response<string> | void {
+    return this.sendFeed('atom', query, ifNoneMatch, res);
+  }
+
+  // Announcements with an expiry, as calendar events
+  @Public()
+  @Get('feed.ics')
+  calendarFeed(
+    @Query() query: FeedQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Res() res: Response,
+  ): Response<string> | void {
+    return this.sendFeed('ics', query, ifNoneMatch, res);
+  }
+
+  // Declared after the fixed GET routes so they aren't taken for an ID
+  @Public()
+  @Get(':id')
+  findOne(
+    @Param('id') id: string,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Res() res: Response,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Response<AnnouncementDetail> | void {
+    if (
+      ifNoneMatch &&
+      ifNoneMatch === this.announcementsService.getDetailEtag(id, user)
+    ) {
+      return res.status(304).end(); // Not Modified
+    }
+
+    const { announcement, etag } = this.announcementsService.findOneWithDetail(
+      id,
+      user,
+    );
+
+    res.setHeader('ETag', etag);
+    res.setHeader(
+      'Cache-Control',
+      user ? 'private, max-age=60' : 'public, max-age=60',
+    );
+    res.setHeader('Vary', 'Authorization');
+    return res.json(announcement);
   }
 
   @Patch(':id')
   update(
     @Param('id') id: string,
     @Body() updateAnnouncementDto: UpdateAnnouncementDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Headers('if-match') ifMatch: string,
+    @Res({ passthrough: true }) res: Response,
   ): Announcement {
-    return this.announcementsService.update(id, updateAnnouncementDto);
+    const announcement = this.announcementsService.update(
+      id,
+      updateAnnouncementDto,
+      user,
+      ifMatch,
+    );
+    res.setHeader('ETag', this.announcementsService.getDetailEtag(id, user));
+    return announcement;
+  }
+
+  @Public()
+  @Get(':id/revisions')
+  getRevisions(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): { revisions: AnnouncementRevisionWithChanges[] } {
+    return { revisions: this.announcementsService.getRevisions(id, user) };
   }
 
   // Comments endpoints
@@ -52,30 +209,121 @@ export class AnnouncementsController {
   addComment(
     @Param('id') id: string,
     @Body() createCommentDto: CreateCommentDto,
-    @Headers('x-user-id') userId?: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): Comment {
-    return this.announcementsService.addComment(id, createCommentDto, userId);
+    return this.announcementsService.addComment(id, createCommentDto, user.id);
   }
 
+  @Public()
   @Get(':id/comments')
   getComments(
     @Param('id') id: string,
-    @Query('cursor') cursor?: string,
-    @Query('limit') limit: string = '10',
-  ): { comments: Comment[], nextCursor?: string } {
-    const limitNum = parseInt(limit, 10);
-    return this.announcementsService.getComments(id, cursor, limitNum);
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): { comments: CommentThread[]; nextCursor?: string; prevCursor?: string } {
+    return this.announcementsService.getComments(
+      id,
+      query.cursor,
+      query.limit,
+      user,
+    );
+  }
+
+  @Patch(':id/comments/:commentId')
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Same budget as posting comments
+  updateComment(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Comment {
+    return this.announcementsService.updateComment(
+      id,
+      commentId,
+      updateCommentDto,
+      user,
+    );
+  }
+
+  @Post(':id/comments/:commentId/report')
+  @HttpCode(204)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  reportComment(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() reportCommentDto: ReportCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): void {
+    return this.announcementsService.reportComment(
+      id,
+      commentId,
+      reportCommentDto,
+      user,
+    );
+  }
+
+  // Approve, hide or delete a held or reported comment; see GET /moderation/comments for the queue
+  @Patch(':id/comments/:commentId/moderation')
+  @Roles('committee', 'admin')
+  moderateComment(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() moderateCommentDto: ModerateCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): { comment?: Comment } {
+    return {
+      comment: this.announcementsService.moderateComment(
+        id,
+        commentId,
+        moderateCommentDto.action,
+        user,
+      ),
+    };
+  }
+
+  @Public()
+  @Get(':id/comments/:commentId/history')
+  getCommentHistory(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): { versions: CommentVersion[] } {
+    return {
+      versions: this.announcementsService.getCommentHistory(
+        id,
+        commentId,
+        user,
+      ),
+    };
+  }
+
+  @Public()
+  @Get(':id/comments/:commentId/replies')
+  getReplies(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): { replies: Comment[]; nextCursor?: string; prevCursor?: string } {
+    return this.announcementsService.getReplies(
+      id,
+      commentId,
+      query.cursor,
+      query.limit,
+      user,
+    );
   }
 
+  @Public()
   @Get(':id/user-reaction')
   getUserReaction(
     @Param('id') id: string,
-    @Headers('x-user-id') userId: string,
+    @CurrentUser() user?: AuthenticatedUser,
   ): { reaction?: string } {
-    if (!userId) {
+    if (!user) {
       return { reaction: undefined };
     }
-    return this.announcementsService.getUserReaction(id, userId);
+    return this.announcementsService.getUserReaction(id, user.id);
   }
 
   @Delete(':id/comments/:commentId')
@@ -83,36 +331,76 @@ export class AnnouncementsController {
   deleteComment(
     @Param('id') id: string,
     @Param('commentId') commentId: string,
-    @Headers('x-user-id') userId: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): void {
-    if (!userId) {
-      throw new BadRequestException('x-user-id header is required');
-    }
-    return this.announcementsService.deleteComment(id, commentId, userId);
+    return this.announcementsService.deleteComment(id, commentId, user);
   }
 
   // Reactions endpoints
+  @Public()
+  @Get(':id/reactions')
+  getReactions(
+    @Param('id') id: string,
+    @Query() query: ListReactionsQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): {
+    reactions: ReactionWithUser[];
+    nextCursor?: string;
+    prevCursor?: string;
+  } {
+    return this.announcementsService.getReactions(
+      id,
+      query.type,
+      query.cursor,
+      query.limit,
+      user,
+    );
+  }
+
   @Post(':id/reactions')
   addReaction(
     @Param('id') id: string,
-    @Headers('x-user-id') userId: string,
+    @CurrentUser() user: AuthenticatedUser,
     @Body() createReactionDto: CreateReactionDto,
   ): Reaction {
-    if (!userId) {
-      throw new BadRequestException('x-user-id header is required');
-    }
-    return this.announcementsService.addReaction(id, userId, createReactionDto);
+    return this.announcementsService.addReaction(
+      id,
+      user.id,
+      createReactionDto,
+    );
   }
 
   @Delete(':id/reactions')
   @HttpCode(204)
   removeReaction(
     @Param('id') id: string,
-    @Headers('x-user-id') userId: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): void {
-    if (!userId) {
-      throw new BadRequestException('x-user-id header is required');
+    return this.announcementsService.removeReaction(id, user.id);
+  }
+
+  private sendFeed(
+    format: FeedFormat,
+    query: FeedQueryDto,
+    ifNoneMatch: string | undefined,
+    res: Response,
+  ): Response<string> | void {
+    // Feed readers poll; the ETag lets most polls end here
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    if (
+      ifNoneMatch &&
+      ifNoneMatch === this.announcementsService.getFeedEtag(format, query)
+    ) {
+      return res.status(304).end(); // Not Modified
     }
-    return this.announcementsService.removeReaction(id, userId);
+
+    const { announcements, etag } = this.announcementsService.getFeed(
+      format,
+      query,
+    );
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Content-Type', FEED_CONTENT_TYPES[format]);
+    return res.send(formatFeed(format, announcements, getFeedConfig()));
   }
 }
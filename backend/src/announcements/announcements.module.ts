@@ -1,9 +1,34 @@
 import { Module } from '@nestjs/common';
 import { AnnouncementsService } from './announcements.service';
 import { AnnouncementsController } from './announcements.controller';
+import { ModerationController } from './moderation.controller';
+import { BackupController } from './backup.controller';
+import { AnnouncementEventsService } from './events/announcement-events.service';
+import { AnnouncementLifecycleScheduler } from './scheduling/announcement-lifecycle.scheduler';
+import { BoardBackupService } from './backup/board-backup.service';
+import { announcementsRepositoryProvider } from './repositories/announcements-repository.provider';
+import { CommentModerationService } from './moderation/comment-moderation.service';
+import { commentModeratorsProvider } from './moderation/comment-moderators.provider';
+import { BoardModule } from '../board/board.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
-  controllers: [AnnouncementsController],
-  providers: [AnnouncementsService],
+  imports: [BoardModule, UsersModule],
+  controllers: [
+    AnnouncementsController,
+    ModerationController,
+    BackupController,
+  ],
+  providers: [
+    AnnouncementsService,
+    AnnouncementEventsService,
+    AnnouncementLifecycleScheduler,
+    BoardBackupService,
+    announcementsRepositoryProvider,
+    CommentModerationService,
+    commentModeratorsProvider,
+  ],
+  // Lets other modules listen to board activity and look announcements up
+  exports: [AnnouncementsService, AnnouncementEventsService],
 })
 export class AnnouncementsModule {}
@@ -0,0 +1,1216 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AnnouncementsService } from './announcements.service';
+import { AnnouncementEventsService } from './events/announcement-events.service';
+import { BoardEvent } from './interfaces/board-event.interface';
+import { Comment } from './interfaces/comment.interface';
+import { ListAnnouncementsQueryDto } from './dto/list-announcements-query.dto';
+import { formatFeed } from './feeds/announcement-feeds';
+import { AnnouncementsRepository } from './repositories/announcements.repository';
+import { FileAnnouncementsRepository } from './repositories/file-announcements.repository';
+import { InMemoryAnnouncementsRepository } from './repositories/in-memory-announcements.repository';
+import { JsonFileStore } from '../common/storage/json-file.store';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { BoardSettingsService } from '../board/board-settings.service';
+import { InMemoryBoardSettingsRepository } from '../board/repositories/in-memory-board-settings.repository';
+import { UsersService } from '../users/users.service';
+import { InMemoryUsersRepository } from '../users/repositories/in-memory-users.repository';
+import { CommentModerationService } from './moderation/comment-moderation.service';
+import { BannedWordsModerator } from './moderation/banned-words.moderator';
+import { LinkLimitModerator } from './moderation/link-limit.moderator';
+
+const resident: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'resident@example.com',
+  displayName: 'Resident',
+  role: 'resident',
+};
+const neighbour: AuthenticatedUser = {
+  id: 'user-2',
+  email: 'neighbour@example.com',
+  displayName: 'Neighbour',
+  role: 'resident',
+};
+const committee: AuthenticatedUser = {
+  id: 'user-3',
+  email: 'committee@example.com',
+  displayName: 'Committee',
+  role: 'committee',
+};
+
+// The same checks the module registers
+const moderationFor = (boardSettings: BoardSettingsService) =>
+  new CommentModerationService([
+    new BannedWordsModerator(boardSettings),
+    new LinkLimitModerator(boardSettings),
+  ]);
+
+describe('AnnouncementsService', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'announcements-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const backends: [string, () => AnnouncementsRepository][] = [
+    ['memory', () => new InMemoryAnnouncementsRepository()],
+    [
+      'file',
+      () =>
+        new FileAnnouncementsRepository(join(dataDir, 'announcements.json')),
+    ],
+  ];
+
+  describe.each(backends)('with %s storage', (_driver, createRepository) => {
+    let service: AnnouncementsService;
+    let events: AnnouncementEventsService;
+    let boardSettings: BoardSettingsService;
+    let users: UsersService;
+
+    beforeEach(() => {
+      events = new AnnouncementEventsService();
+      boardSettings = new BoardSettingsService(
+        new InMemoryBoardSettingsRepository(),
+      );
+      users = new UsersService(new InMemoryUsersRepository());
+      service = new AnnouncementsService(
+        createRepository(),
+        events,
+        boardSettings,
+        moderationFor(boardSettings),
+        users,
+      );
+    });
+
+    it('summarises announcements with comment and reaction counts', () => {
+      const announcement = service.create(
+        { title: 'Water shutdown' },
+        resident.id,
+      );
+      service.addComment(
+        announcement.id,
+        { authorName: 'Asha', text: 'Until when?' },
+        resident.id,
+      );
+      service.addReaction(announcement.id, 'user-1', { type: 'up' });
+      service.addReaction(announcement.id, 'user-2', { type: 'heart' });
+
+      const { announcements, etag } = service.findAllWithSummary();
+
+      expect(announcements).toHaveLength(1);
+      expect(announcements[0]).toMatchObject({
+        id: announcement.id,
+        status: 'active',
+        commentCount: 1,
+        reactions: { up: 1, down: 0, heart: 1 },
+      });
+      expect(etag).toMatch(/^".+"$/);
+    });
+
+    it('moves a reaction pointer instead of counting twice', () => {
+      const announcement = service.create(
+        { title: 'Lift maintenance' },
+        resident.id,
+      );
+      service.addReaction(announcement.id, 'user-1', { type: 'up' });
+      service.addReaction(announcement.id, 'user-1', { type: 'down' });
+
+      expect(service.getUserReaction(announcement.id, 'user-1')).toEqual({
+        reaction: 'down',
+      });
+      expect(service.findAllWithSummary().announcements[0].reactions).toEqual({
+        up: 0,
+        down: 1,
+        heart: 0,
+      });
+
+      service.removeReaction(announcement.id, 'user-1');
+      expect(() => service.removeReaction(announcement.id, 'user-1')).toThrow(
+        NotFoundException,
+      );
+    });
+
+    it("includes the viewer's own reaction in the list", () => {
+      const announcement = service.create({ title: 'Bake sale' }, resident.id);
+      service.addReaction(announcement.id, neighbour.id, { type: 'heart' });
+
+      expect(
+        service.findAllWithSummary({}, neighbour).announcements[0].myReaction,
+      ).toBe('heart');
+      expect(
+        service.findAllWithSummary({}, resident).announcements[0].myReaction,
+      ).toBeUndefined();
+      expect(service.findAllWithSummary().announcements[0]).not.toHaveProperty(
+        'myReaction',
+      );
+      expect(service.findAllWithSummary({}, neighbour).etag).not.toBe(
+        service.findAllWithSummary({}, resident).etag,
+      );
+    });
+
+    it('keeps list summaries and the ETag in step with writes', () => {
+      const announcement = service.create(
+        { title: 'Pool opening' },
+        resident.id,
+      );
+      const etag = service.getListEtag();
+      expect(service.getListEtag()).toBe(etag);
+      expect(service.findAllWithSummary().etag).toBe(etag);
+
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Asha', text: 'Finally!' },
+        resident.id,
+      );
+      expect(service.getListEtag()).not.toBe(etag);
+
+      // A later reaction moves the activity on, and removing it moves it back
+      jest.useFakeTimers({ now: Date.now() + 60_000 });
+      try {
+        service.addReaction(announcement.id, neighbour.id, { type: 'up' });
+        expect(
+          service.findAllWithSummary().announcements[0].lastActivityAt,
+        ).toEqual(new Date());
+      } finally {
+        jest.useRealTimers();
+      }
+      service.removeReaction(announcement.id, neighbour.id);
+      expect(service.findAllWithSummary().announcements[0]).toMatchObject({
+        commentCount: 1,
+        lastActivityAt: comment.createdAt,
+      });
+
+      service.moderateComment(announcement.id, comment.id, 'hide', committee);
+      expect(service.findAllWithSummary().announcements[0]).toMatchObject({
+        commentCount: 0,
+        lastActivityAt: announcement.createdAt,
+      });
+    });
+
+    it('returns one announcement with its first comments and the viewer reaction', () => {
+      const announcement = service.create(
+        { title: 'Roof repairs' },
+        resident.id,
+      );
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Asha', text: 'Which block?' },
+        neighbour.id,
+      );
+      service.addReaction(announcement.id, neighbour.id, { type: 'up' });
+
+      const { announcement: detail, etag } = service.findOneWithDetail(
+        announcement.id,
+        neighbour,
+      );
+
+      expect(detail).toMatchObject({
+        id: announcement.id,
+        commentCount: 1,
+        reactions: { up: 1 },
+        myReaction: 'up',
+        comments: [{ ...comment, replyCount: 0 }],
+      });
+      expect(detail.nextCommentsCursor).toBeUndefined();
+      expect(service.getDetailEtag(announcement.id, neighbour)).toBe(etag);
+      expect(service.getDetailEtag(announcement.id)).not.toBe(etag);
+
+      service.removeReaction(announcement.id, neighbour.id);
+      expect(service.getDetailEtag(announcement.id, neighbour)).not.toBe(etag);
+
+      const draft = service.create(
+        { title: 'Not yet', draft: true },
+        resident.id,
+      );
+      expect(() => service.getDetailEtag(draft.id, neighbour)).toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('accepts only the reaction types the board has enabled', () => {
+      const announcement = service.create(
+        { title: 'Garden party' },
+        resident.id,
+      );
+      service.addReaction(announcement.id, 'user-1', { type: 'heart' });
+
+      boardSettings.update(
+        {
+          reactionTypes: [
+            { key: 'up', emoji: '👍', label: 'Like', enabled: true },
+            { key: 'heart', emoji: '❤️', label: 'Love', enabled: false },
+            { key: 'party', emoji: '🎉', label: 'Celebrate', enabled: true },
+          ],
+        },
+        committee.id,
+      );
+
+      expect(() =>
+        service.addReaction(announcement.id, 'user-2', { type: 'heart' }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.addReaction(announcement.id, 'user-2', { type: 'down' }),
+      ).toThrow(BadRequestException);
+      service.addReaction(announcement.id, 'user-2', { type: 'party' });
+
+      // Disabled types keep their counts; removed ones drop out
+      expect(service.findAllWithSummary().announcements[0].reactions).toEqual({
+        up: 0,
+        heart: 1,
+        party: 1,
+      });
+
+      expect(() =>
+        boardSettings.update(
+          {
+            reactionTypes: [
+              { key: 'up', emoji: '👍', label: 'Like', enabled: true },
+              { key: 'up', emoji: '⬆️', label: 'Up', enabled: true },
+            ],
+          },
+          committee.id,
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('lists who reacted, newest first and filtered by type', () => {
+      const announcement = service.create({ title: 'Book swap' }, resident.id);
+      const asha = users.create('asha@example.com', 'Asha');
+      const kiran = users.create('kiran@example.com', 'Kiran');
+      service.addReaction(announcement.id, asha.id, { type: 'heart' });
+      service.addReaction(announcement.id, kiran.id, { type: 'up' });
+      service.addReaction(announcement.id, 'removed-user', { type: 'heart' });
+
+      const firstPage = service.getReactions(
+        announcement.id,
+        undefined,
+        undefined,
+        2,
+      );
+      const secondPage = service.getReactions(
+        announcement.id,
+        undefined,
+        firstPage.nextCursor,
+        2,
+      );
+      const hearts = service.getReactions(announcement.id, 'heart');
+
+      expect(firstPage.reactions).toHaveLength(2);
+      expect(secondPage.reactions).toHaveLength(1);
+      expect(secondPage.nextCursor).toBeUndefined();
+      expect(
+        hearts.reactions.map(({ userId, displayName }) => ({
+          userId,
+          displayName,
+        })),
+      ).toEqual(
+        expect.arrayContaining([
+          { userId: asha.id, displayName: 'Asha' },
+          { userId: 'removed-user', displayName: undefined },
+        ]),
+      );
+      expect(hearts.reactions).toHaveLength(2);
+    });
+
+    it('pages comments newest first', () => {
+      const announcement = service.create({ title: 'Parking' }, resident.id);
+      for (let i = 0; i < 3; i++) {
+        service.addComment(
+          announcement.id,
+          { authorName: `Resident ${i}`, text: `Comment ${i}` },
+          `user-${i}`,
+        );
+      }
+
+      const firstPage = service.getComments(announcement.id, undefined, 2);
+      const secondPage = service.getComments(
+        announcement.id,
+        firstPage.nextCursor,
+        2,
+      );
+
+      expect(firstPage.comments).toHaveLength(2);
+      expect(firstPage.prevCursor).toBeUndefined();
+      expect(secondPage.comments).toHaveLength(1);
+      expect(secondPage.nextCursor).toBeUndefined();
+
+      // Paging back returns the first page again
+      expect(
+        service.getComments(announcement.id, secondPage.prevCursor, 2).comments,
+      ).toEqual(firstPage.comments);
+    });
+
+    it('keeps its place when the cursor comment is deleted', () => {
+      const announcement = service.create({ title: 'Parking' }, resident.id);
+      for (let i = 0; i < 4; i++) {
+        service.addComment(
+          announcement.id,
+          { authorName: `Resident ${i}`, text: `Comment ${i}` },
+          `user-${i}`,
+        );
+      }
+
+      const firstPage = service.getComments(announcement.id, undefined, 2);
+      service.deleteComment(
+        announcement.id,
+        firstPage.comments[1].id,
+        committee,
+      );
+      const secondPage = service.getComments(
+        announcement.id,
+        firstPage.nextCursor,
+        2,
+      );
+
+      expect(secondPage.comments).toHaveLength(2);
+      expect(secondPage.comments).not.toContainEqual(firstPage.comments[0]);
+      expect(() =>
+        service.getComments(announcement.id, 'not-a-cursor'),
+      ).toThrow(BadRequestException);
+    });
+
+    it('pages the summary list with cursors in both directions', () => {
+      const created = Array.from({ length: 5 }, (_, i) =>
+        service.create({ title: `Notice ${i}` }, resident.id),
+      );
+      const all = service
+        .findAllWithSummary({ sort: 'newest' })
+        .announcements.map((a) => a.id);
+      expect(all.sort()).toEqual(created.map((a) => a.id).sort());
+
+      const ids = (query: ListAnnouncementsQueryDto) => {
+        const page = service.findAllWithSummary({ sort: 'newest', ...query });
+        return { ...page, ids: page.announcements.map((a) => a.id) };
+      };
+      const first = ids({ limit: 2 });
+      const second = ids({ limit: 2, cursor: first.nextCursor });
+      const third = ids({ limit: 2, cursor: second.nextCursor });
+
+      expect([...first.ids, ...second.ids, ...third.ids]).toHaveLength(5);
+      expect(new Set([...first.ids, ...second.ids, ...third.ids]).size).toBe(5);
+      expect(third.nextCursor).toBeUndefined();
+      expect(ids({ limit: 2, cursor: third.prevCursor }).ids).toEqual(
+        second.ids,
+      );
+      // A cursor only applies to the sort order it was issued for
+      expect(() =>
+        service.findAllWithSummary({
+          sort: 'activity',
+          cursor: first.nextCursor,
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('limits a user to four comments per announcement', () => {
+      const announcement = service.create(
+        { title: 'Diwali party' },
+        resident.id,
+      );
+      for (let i = 0; i < 4; i++) {
+        service.addComment(
+          announcement.id,
+          { authorName: 'Ravi', text: 'Count me in' },
+          'user-1',
+        );
+      }
+
+      // A new display name does not reset the quota
+      expect(() =>
+        service.addComment(
+          announcement.id,
+          { authorName: 'Not Ravi', text: 'Me too' },
+          'user-1',
+        ),
+      ).toThrow(ForbiddenException);
+      service.addComment(
+        announcement.id,
+        { authorName: 'Ravi', text: 'Count me in' },
+        'user-2',
+      );
+    });
+
+    it('honours a per-announcement comment limit', () => {
+      const announcement = service.create(
+        { title: 'One question each', maxCommentsPerUser: 1 },
+        resident.id,
+      );
+      const comment = { authorName: 'Ravi', text: 'When?' };
+      service.addComment(announcement.id, comment, 'user-1');
+
+      expect(() =>
+        service.addComment(announcement.id, comment, 'user-1'),
+      ).toThrow('Maximum 1 comments per user per announcement allowed');
+      expect(service.findAllWithSummary().announcements[0]).toMatchObject({
+        maxCommentsPerUser: 1,
+      });
+    });
+
+    it('deletes comments and rejects unknown announcements', () => {
+      const announcement = service.create({ title: 'Gym closed' }, resident.id);
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Meera', text: 'Thanks' },
+        resident.id,
+      );
+
+      service.deleteComment(announcement.id, comment.id, resident);
+
+      expect(service.getComments(announcement.id).comments).toEqual([]);
+      expect(() =>
+        service.update('missing', { status: 'closed' }, resident),
+      ).toThrow(NotFoundException);
+    });
+
+    it('threads replies and keeps placeholders for answered comments', () => {
+      const announcement = service.create({ title: 'Bike shed' }, resident.id);
+      const question = service.addComment(
+        announcement.id,
+        { authorName: 'Meera', text: 'Who has the key?' },
+        resident.id,
+      );
+      const answer = service.addComment(
+        announcement.id,
+        { authorName: 'Sam', text: 'The caretaker', parentId: question.id },
+        neighbour.id,
+      );
+      // Replying to a reply stays in the same thread; a minute later keeps the order stable
+      jest.useFakeTimers({ now: Date.now() + 60_000 });
+      let followUp: Comment;
+      try {
+        followUp = service.addComment(
+          announcement.id,
+          { authorName: 'Meera', text: 'Thanks', parentId: answer.id },
+          resident.id,
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(followUp.parentId).toBe(question.id);
+      expect(service.getComments(announcement.id).comments).toEqual([
+        { ...question, replyCount: 2 },
+      ]);
+      const firstReply = service.getReplies(
+        announcement.id,
+        question.id,
+        undefined,
+        1,
+      );
+      expect(firstReply.replies).toEqual([answer]);
+      expect(
+        service.getReplies(announcement.id, question.id, firstReply.nextCursor)
+          .replies,
+      ).toEqual([followUp]);
+      expect(() =>
+        service.addComment(
+          announcement.id,
+          { authorName: 'Sam', text: 'Hi', parentId: 'missing' },
+          neighbour.id,
+        ),
+      ).toThrow(NotFoundException);
+
+      // The author's own replies go; the neighbour's answer keeps a placeholder
+      service.deleteComment(announcement.id, question.id, resident);
+      const [placeholder] = service.getComments(announcement.id).comments;
+      expect(placeholder).toMatchObject({
+        id: question.id,
+        text: '',
+        replyCount: 1,
+      });
+      expect(placeholder.deletedAt).toBeInstanceOf(Date);
+      expect(service.findAllWithSummary().announcements[0].commentCount).toBe(
+        1,
+      );
+      // Not even a moderator can delete it again
+      expect(() =>
+        service.deleteComment(announcement.id, question.id, committee),
+      ).toThrow(new ConflictException('This comment has already been deleted'));
+      // Anyone else is refused before learning that it was deleted
+      expect(() =>
+        service.deleteComment(announcement.id, question.id, neighbour),
+      ).toThrow(ForbiddenException);
+
+      // Removing the last reply removes the placeholder too
+      service.deleteComment(announcement.id, answer.id, neighbour);
+      expect(service.getComments(announcement.id).comments).toEqual([]);
+
+      // Committee members remove a whole thread at once
+      const thread = service.addComment(
+        announcement.id,
+        { authorName: 'Meera', text: 'Bikes left outside' },
+        resident.id,
+      );
+      service.addComment(
+        announcement.id,
+        { authorName: 'Sam', text: 'Mine', parentId: thread.id },
+        neighbour.id,
+      );
+      service.deleteComment(announcement.id, thread.id, committee);
+      expect(service.getComments(announcement.id).comments).toEqual([]);
+      expect(service.findAllWithSummary().announcements[0].commentCount).toBe(
+        0,
+      );
+    });
+
+    it('lets authors edit comments within the edit window', () => {
+      const announcement = service.create(
+        { title: 'Lift repair' },
+        resident.id,
+      );
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Meera', text: 'Fixed on Tuesday' },
+        resident.id,
+      );
+
+      const edited = service.updateComment(
+        announcement.id,
+        comment.id,
+        { text: 'Fixed on Thursday' },
+        resident,
+      );
+
+      expect(edited.text).toBe('Fixed on Thursday');
+      expect(edited.editedAt).toBeInstanceOf(Date);
+      expect(
+        service.getCommentHistory(announcement.id, comment.id),
+      ).toMatchObject([
+        { text: 'Fixed on Tuesday', createdAt: comment.createdAt },
+      ]);
+      expect(() =>
+        service.updateComment(
+          announcement.id,
+          comment.id,
+          { text: 'Mine now' },
+          committee,
+        ),
+      ).toThrow(ForbiddenException);
+
+      // The default window is 15 minutes
+      jest.useFakeTimers({ now: Date.now() + 16 * 60 * 1000 });
+      try {
+        expect(() =>
+          service.updateComment(
+            announcement.id,
+            comment.id,
+            { text: 'Too late' },
+            resident,
+          ),
+        ).toThrow(ForbiddenException);
+        boardSettings.update({ commentEditWindowMinutes: 30 }, committee.id);
+        expect(
+          service.updateComment(
+            announcement.id,
+            comment.id,
+            { text: 'Fixed on Friday' },
+            resident,
+          ).text,
+        ).toBe('Fixed on Friday');
+      } finally {
+        jest.useRealTimers();
+      }
+      expect(
+        service
+          .getCommentHistory(announcement.id, comment.id)
+          .map((version) => version.text),
+      ).toEqual(['Fixed on Tuesday', 'Fixed on Thursday']);
+    });
+
+    it('holds, rejects and queues comments for moderation', () => {
+      const received: BoardEvent[] = [];
+      events.stream().subscribe((event) => received.push(event));
+      boardSettings.update(
+        { bannedWords: ['Scam'], maxLinksPerComment: 1 },
+        committee.id,
+      );
+      const announcement = service.create(
+        { title: 'Car boot sale' },
+        resident.id,
+      );
+
+      expect(() =>
+        service.addComment(
+          announcement.id,
+          { authorName: 'Sam', text: 'What a scam!' },
+          neighbour.id,
+        ),
+      ).toThrow(BadRequestException);
+
+      const held = service.addComment(
+        announcement.id,
+        {
+          authorName: 'Sam',
+          text: 'Deals at https://a.example and https://b.example',
+        },
+        neighbour.id,
+      );
+      expect(held.status).toBe('pending');
+      // Only the author and moderators see it until it is approved
+      expect(service.getComments(announcement.id).comments).toEqual([]);
+      expect(
+        service.getComments(announcement.id, undefined, 10, neighbour).comments,
+      ).toHaveLength(1);
+      expect(service.findAllWithSummary().announcements[0].commentCount).toBe(
+        0,
+      );
+
+      const rude = service.addComment(
+        announcement.id,
+        { authorName: 'Sam', text: 'Nobody wants your junk' },
+        neighbour.id,
+      );
+      service.reportComment(
+        announcement.id,
+        rude.id,
+        { reason: 'Rude' },
+        resident,
+      );
+      expect(() =>
+        service.reportComment(announcement.id, rude.id, {}, resident),
+      ).toThrow(ConflictException);
+      expect(() =>
+        service.reportComment(announcement.id, rude.id, {}, neighbour),
+      ).toThrow(BadRequestException);
+
+      const queue = service.getModerationQueue();
+      expect(queue.items.map((item) => item.id).sort()).toEqual(
+        [held.id, rude.id].sort(),
+      );
+      expect(
+        queue.items.find((item) => item.id === rude.id)?.reports,
+      ).toMatchObject([{ userId: resident.id, reason: 'Rude' }]);
+
+      service.moderateComment(announcement.id, held.id, 'approve', committee);
+      service.moderateComment(announcement.id, rude.id, 'hide', committee);
+
+      expect(service.getModerationQueue().items).toEqual([]);
+      expect(
+        service.getComments(announcement.id).comments.map((c) => c.id),
+      ).toEqual([held.id]);
+      expect(
+        received
+          .map((event) => event.type)
+          .filter((type) => type.startsWith('comment.')),
+      ).toEqual(['comment.added', 'comment.added', 'comment.hidden']);
+    });
+
+    it('searches, filters and sorts the summary list', () => {
+      const water = service.create(
+        { title: 'Water shutdown', description: 'Tank cleaning on Friday' },
+        resident.id,
+      );
+      const party = service.create({ title: 'Diwali party' }, resident.id);
+      const lift = service.create({ title: 'Lift repair' }, resident.id);
+      service.addComment(
+        party.id,
+        { authorName: 'Resident', text: 'Will there be water games?' },
+        resident.id,
+      );
+      service.addReaction(lift.id, resident.id, { type: 'up' });
+      service.addReaction(lift.id, neighbour.id, { type: 'heart' });
+      service.update(water.id, { status: 'closed' }, resident);
+
+      const ids = (query: ListAnnouncementsQueryDto) =>
+        service.findAllWithSummary(query).announcements.map((a) => a.id);
+
+      expect(ids({ q: 'WATER friday' })).toEqual([water.id]);
+      expect(ids({ q: 'water', includeComments: true }).sort()).toEqual(
+        [water.id, party.id].sort(),
+      );
+      expect(ids({ status: 'closed' })).toEqual([water.id]);
+      expect(ids({ sort: 'most_reactions' })[0]).toBe(lift.id);
+      expect(ids({ sort: 'most_comments' })[0]).toBe(party.id);
+      expect(ids({ createdFrom: new Date(Date.now() + 60000) })).toEqual([]);
+      expect(service.findAllWithSummary({ status: 'closed' }).etag).not.toBe(
+        service.findAllWithSummary({ status: 'active' }).etag,
+      );
+    });
+
+    it('lists pinned and urgent announcements first', () => {
+      const security = service.create(
+        {
+          title: 'Gate code changed',
+          priority: 'urgent',
+          category: 'security',
+        },
+        resident.id,
+      );
+      const agm = service.create(
+        {
+          title: 'AGM',
+          category: 'meetings',
+          tags: ['AGM', ' agm ', 'Budget'],
+        },
+        resident.id,
+      );
+      const cat = service.create({ title: 'Lost cat' }, resident.id);
+      service.addComment(
+        cat.id,
+        { authorName: 'Resident', text: 'Seen near block B' },
+        neighbour.id,
+      );
+
+      expect(agm.tags).toEqual(['agm', 'budget']);
+      expect(() => service.update(agm.id, { pinned: true }, resident)).toThrow(
+        ForbiddenException,
+      );
+      service.update(agm.id, { pinned: true }, committee);
+
+      const ids = (query: ListAnnouncementsQueryDto) =>
+        service.findAllWithSummary(query).announcements.map((a) => a.id);
+      expect(ids({})).toEqual([agm.id, security.id, cat.id]);
+      expect(ids({ sort: 'most_comments' })).toEqual([
+        agm.id,
+        security.id,
+        cat.id,
+      ]);
+      expect(ids({ category: 'security' })).toEqual([security.id]);
+      expect(ids({ tag: 'Budget' })).toEqual([agm.id]);
+      expect(ids({ priority: 'normal' })).toEqual([agm.id, cat.id]);
+
+      service.update(agm.id, { pinned: false }, committee);
+      service.update(security.id, { priority: 'normal' }, resident);
+      expect(ids({ sort: 'most_comments' })[0]).toBe(cat.id);
+    });
+
+    it('publishes an event for each write', () => {
+      const received: BoardEvent[] = [];
+      events.stream().subscribe((event) => received.push(event));
+
+      const announcement = service.create({ title: 'Fire drill' }, resident.id);
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Resident', text: 'What time?' },
+        resident.id,
+      );
+      service.addReaction(announcement.id, neighbour.id, { type: 'up' });
+      service.removeReaction(announcement.id, neighbour.id);
+      service.deleteComment(announcement.id, comment.id, resident);
+      service.update(announcement.id, { status: 'closed' }, resident);
+
+      expect(received.map((event) => event.type)).toEqual([
+        'announcement.created',
+        'comment.added',
+        'reaction.changed',
+        'reaction.changed',
+        'comment.deleted',
+        'announcement.status_changed',
+      ]);
+      expect(received[1]).toMatchObject({ commentCount: 1 });
+      expect(received[3]).toMatchObject({
+        reactions: { up: 0, down: 0, heart: 0 },
+      });
+    });
+
+    it('lets only authors and committee members close or moderate', () => {
+      const announcement = service.create(
+        { title: 'Pool timings' },
+        resident.id,
+      );
+      const comment = service.addComment(
+        announcement.id,
+        { authorName: 'Resident', text: 'Great' },
+        resident.id,
+      );
+
+      expect(() =>
+        service.update(announcement.id, { status: 'closed' }, neighbour),
+      ).toThrow(ForbiddenException);
+      expect(() =>
+        service.deleteComment(announcement.id, comment.id, neighbour),
+      ).toThrow(ForbiddenException);
+
+      expect(
+        service.update(announcement.id, { status: 'closed' }, committee).status,
+      ).toBe('closed');
+      service.deleteComment(announcement.id, comment.id, committee);
+      expect(service.getComments(announcement.id).comments).toEqual([]);
+    });
+
+    it('rejects an update made against a stale If-Match', () => {
+      const announcement = service.create(
+        { title: 'Lift repair' },
+        resident.id,
+      );
+      const etag = service.getDetailEtag(announcement.id, resident);
+      // Comments don't change the announcement itself, so the ETag still matches
+      service.addComment(
+        announcement.id,
+        { authorName: 'Ravi', text: 'Which lift?' },
+        'user-2',
+      );
+
+      // Someone who can't edit is refused before the current version is revealed
+      expect(() =>
+        service.update(
+          announcement.id,
+          { title: 'Lift fixed' },
+          { ...resident, id: 'user-2' },
+          '"99"',
+        ),
+      ).toThrow(ForbiddenException);
+
+      service.update(announcement.id, { status: 'closed' }, committee, etag);
+
+      // The author still holds the ETag from before the committee closed it
+      let conflict: PreconditionFailedException | undefined;
+      try {
+        service.update(
+          announcement.id,
+          { title: 'Lift repaired' },
+          resident,
+          etag,
+        );
+      } catch (error) {
+        conflict = error as PreconditionFailedException;
+      }
+      expect(conflict).toBeInstanceOf(PreconditionFailedException);
+      expect(conflict?.getResponse()).toMatchObject({
+        details: { current: { status: 'closed', title: 'Lift repair' } },
+      });
+
+      expect(
+        service.update(
+          announcement.id,
+          { title: 'Lift repaired' },
+          resident,
+          service.getDetailEtag(announcement.id, resident),
+        ).title,
+      ).toBe('Lift repaired');
+      // Weak validators name the revision just as well
+      expect(() =>
+        service.update(
+          announcement.id,
+          { title: 'Lift out' },
+          resident,
+          `W/${etag}`,
+        ),
+      ).toThrow(PreconditionFailedException);
+      const current = service.getDetailEtag(announcement.id, resident);
+      expect(
+        service.update(
+          announcement.id,
+          { title: 'Lift out' },
+          resident,
+          `W/${current}`,
+        ).title,
+      ).toBe('Lift out');
+      // Clients that don't send If-Match keep last-write-wins
+      expect(
+        service.update(announcement.id, { status: 'active' }, resident).status,
+      ).toBe('active');
+    });
+
+    it('keeps a revision for every edit with a diff', () => {
+      const announcement = service.create(
+        { title: 'Water shutdwon', description: 'Tank cleaning' },
+        resident.id,
+      );
+      const received: BoardEvent[] = [];
+      events.stream().subscribe((event) => received.push(event));
+
+      service.update(announcement.id, { title: 'Water shutdown' }, resident);
+      service.update(
+        announcement.id,
+        { description: 'Tank cleaning on Friday' },
+        committee,
+      );
+      // Status changes alone are not content revisions
+      const closed = service.update(
+        announcement.id,
+        { status: 'closed' },
+        resident,
+      );
+
+      expect(closed.version).toBe(3);
+      expect(closed.editedAt).toBeInstanceOf(Date);
+      expect(
+        received.filter((event) => event.type === 'announcement.edited'),
+      ).toHaveLength(2);
+
+      const revisions = service.getRevisions(announcement.id);
+      expect(revisions.map((r) => [r.version, r.editorId])).toEqual([
+        [1, resident.id],
+        [2, resident.id],
+        [3, committee.id],
+      ]);
+      expect(revisions[0].changes).toEqual([]);
+      expect(revisions[1].changes).toEqual([
+        {
+          field: 'title',
+          before: 'Water shutdwon',
+          after: 'Water shutdown',
+          diff: [
+            { op: 'equal', text: 'Water ' },
+            { op: 'delete', text: 'shutdwon' },
+            { op: 'insert', text: 'shutdown' },
+          ],
+        },
+      ]);
+      expect(revisions[2].changes[0].diff).toEqual([
+        { op: 'equal', text: 'Tank cleaning' },
+        { op: 'insert', text: ' on Friday' },
+      ]);
+
+      expect(() =>
+        service.update(announcement.id, { title: 'Hijacked' }, neighbour),
+      ).toThrow(ForbiddenException);
+      expect(() => service.update(announcement.id, {}, resident)).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('keeps drafts private until they are published', () => {
+      const day = 24 * 60 * 60 * 1000;
+      const received: BoardEvent[] = [];
+      events.stream().subscribe((event) => received.push(event));
+
+      const draft = service.create(
+        { title: 'AGM agenda', draft: true },
+        resident.id,
+      );
+      const scheduled = service.create(
+        { title: 'Water shutdown', publishAt: new Date(Date.now() + day) },
+        committee.id,
+      );
+      expect([draft.status, scheduled.status]).toEqual(['draft', 'draft']);
+
+      const ids = (viewer?: AuthenticatedUser) =>
+        service
+          .findAllWithSummary({}, viewer)
+          .announcements.map((a) => a.id)
+          .sort();
+      expect(ids()).toEqual([]);
+      expect(ids(neighbour)).toEqual([]);
+      expect(ids(resident)).toEqual([draft.id]);
+      expect(ids(committee)).toEqual([draft.id, scheduled.id].sort());
+      expect(() =>
+        service.getComments(draft.id, undefined, 10, neighbour),
+      ).toThrow(NotFoundException);
+      expect(() =>
+        service.addReaction(draft.id, resident.id, { type: 'up' }),
+      ).toThrow(BadRequestException);
+
+      // Publishing by hand or on schedule is what announces it
+      service.update(draft.id, { status: 'active' }, resident);
+      expect(
+        service
+          .publishScheduledAnnouncements(new Date(Date.now() + 2 * day))
+          .map((a) => a.id),
+      ).toEqual([scheduled.id]);
+      expect(ids(neighbour)).toEqual([draft.id, scheduled.id].sort());
+      expect(
+        received.map((event) =>
+          event.type === 'announcement.created' ? event.announcement.id : null,
+        ),
+      ).toEqual([draft.id, scheduled.id]);
+    });
+
+    it('builds public feeds and a calendar of expiry dates', () => {
+      const day = 24 * 60 * 60 * 1000;
+      service.create({ title: 'AGM agenda', draft: true }, committee.id);
+      const expiring = service.create(
+        {
+          title: 'Water shutdown, floors 1 & 2',
+          category: 'maintenance',
+          expiresAt: new Date(Date.now() + day),
+        },
+        committee.id,
+      );
+      // Posted later, so it leads the newest-first feeds
+      jest.useFakeTimers({ now: Date.now() + 60_000 });
+      try {
+        service.create({ title: 'Parcel room hours' }, committee.id);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const { announcements: feed, etag } = service.getFeed('rss');
+      expect(feed.map((a) => a.title)).toEqual([
+        'Parcel room hours',
+        'Water shutdown, floors 1 & 2',
+      ]);
+      expect(
+        service.getFeed('rss', { category: 'maintenance' }).announcements,
+      ).toHaveLength(1);
+
+      const config = {
+        title: 'Notice Board',
+        appUrl: 'https://board.example.com',
+        apiUrl: 'https://api.example.com',
+      };
+      expect(formatFeed('rss', feed, config)).toContain(
+        '<title>Water shutdown, floors 1 &amp; 2</title>',
+      );
+      const calendar = formatFeed(
+        'ics',
+        service.getFeed('ics').announcements,
+        config,
+      );
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+      expect(calendar).toContain(
+        `UID:announcement-${expiring.id}@board.example.com`,
+      );
+      expect(calendar).toContain('SUMMARY:Water shutdown\\, floors 1 & 2');
+
+      // Any change to the board gives the feeds a new ETag
+      expect(service.getFeedEtag('rss')).toBe(etag);
+      service.update(expiring.id, { status: 'closed' }, committee);
+      expect(service.getFeedEtag('rss')).not.toBe(etag);
+    });
+
+    it('closes expired and inactive announcements', () => {
+      const day = 24 * 60 * 60 * 1000;
+      const now = Date.now();
+      const shutdown = service.create(
+        { title: 'Water shutdown', expiresAt: new Date(now + day) },
+        resident.id,
+      );
+      const party = service.create({ title: 'Diwali party' }, resident.id);
+      const received: BoardEvent[] = [];
+      events.stream().subscribe((event) => received.push(event));
+
+      expect(service.closeStaleAnnouncements(new Date(now))).toEqual([]);
+      expect(
+        service
+          .closeStaleAnnouncements(new Date(now + 2 * day))
+          .map((a) => [a.id, a.closedReason]),
+      ).toEqual([[shutdown.id, 'expired']]);
+      expect(received).toEqual([
+        {
+          type: 'announcement.status_changed',
+          announcementId: shutdown.id,
+          status: 'closed',
+          reason: 'expired',
+          updateCount: 1,
+        },
+      ]);
+
+      // Inactivity auto-close only applies once the board turns it on
+      expect(service.closeStaleAnnouncements(new Date(now + 30 * day))).toEqual(
+        [],
+      );
+      boardSettings.update({ autoCloseInactiveDays: 14 }, committee.id);
+      expect(
+        service
+          .closeStaleAnnouncements(new Date(now + 30 * day))
+          .map((a) => [a.id, a.closedReason]),
+      ).toEqual([[party.id, 'inactive']]);
+
+      // Reopening an expired notice needs a new expiry date
+      jest.useFakeTimers({ now: now + 2 * day });
+      try {
+        expect(() =>
+          service.update(shutdown.id, { status: 'active' }, resident),
+        ).toThrow(BadRequestException);
+        expect(
+          service.update(
+            shutdown.id,
+            { status: 'active', expiresAt: new Date(now + 3 * day) },
+            resident,
+          ).closedReason,
+        ).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+      expect(() =>
+        service.create(
+          { title: 'Too late', expiresAt: new Date(now - day) },
+          resident.id,
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  it('restores file-backed data after a restart', () => {
+    const filePath = join(dataDir, 'announcements.json');
+    const boardSettings = new BoardSettingsService(
+      new InMemoryBoardSettingsRepository(),
+    );
+    const users = new UsersService(new InMemoryUsersRepository());
+    const before = new AnnouncementsService(
+      new FileAnnouncementsRepository(filePath),
+      new AnnouncementEventsService(),
+      boardSettings,
+      moderationFor(boardSettings),
+      users,
+    );
+    const announcement = before.create(
+      { title: 'AGM on Sunday', description: 'Clubhouse, 10am' },
+      resident.id,
+    );
+    before.update(announcement.id, { status: 'closed' }, resident);
+    before.addComment(
+      announcement.id,
+      { authorName: 'Kiran', text: 'Noted' },
+      resident.id,
+    );
+    before.addReaction(announcement.id, 'user-1', { type: 'heart' });
+
+    const after = new AnnouncementsService(
+      new FileAnnouncementsRepository(filePath),
+      new AnnouncementEventsService(),
+      boardSettings,
+      moderationFor(boardSettings),
+      users,
+    );
+
+    // ETags change with the process, so cached lists aren't reused across restarts
+    expect(after.findAllWithSummary().announcements).toEqual(
+      before.findAllWithSummary().announcements,
+    );
+    expect(after.findAllWithSummary().etag).not.toBe(
+      before.findAllWithSummary().etag,
+    );
+    expect(after.getUserReaction(announcement.id, 'user-1')).toEqual({
+      reaction: 'heart',
+    });
+    expect(after.getComments(announcement.id).comments[0].createdAt).toEqual(
+      expect.any(Date),
+    );
+  });
+
+  it('writes the file once per change, however many records it touches', () => {
+    const boardSettings = new BoardSettingsService(
+      new InMemoryBoardSettingsRepository(),
+    );
+    const service = new AnnouncementsService(
+      new FileAnnouncementsRepository(join(dataDir, 'announcements.json')),
+      new AnnouncementEventsService(),
+      boardSettings,
+      moderationFor(boardSettings),
+      new UsersService(new InMemoryUsersRepository()),
+    );
+    const announcement = service.create({ title: 'Lift repair' }, resident.id);
+    const question = service.addComment(
+      announcement.id,
+      { authorName: 'Asha', text: 'Which floors?' },
+      resident.id,
+    );
+    service.addComment(
+      announcement.id,
+      { authorName: 'Ravi', text: 'All of them', parentId: question.id },
+      'user-2',
+    );
+    const write = jest.spyOn(JsonFileStore.prototype, 'write');
+
+    // Becomes a placeholder and drops its versions and reports
+    service.deleteComment(announcement.id, question.id, resident);
+    service.update(announcement.id, { title: 'Lift repaired' }, resident);
+
+    expect(write).toHaveBeenCalledTimes(2);
+    write.mockRestore();
+  });
+});
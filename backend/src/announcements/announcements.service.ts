@@ -1,246 +1,1578 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
-import { Announcement } from './interfaces/announcement.interface';
-import { Comment } from './interfaces/comment.interface';
-import { Reaction } from './interfaces/reaction.interface';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import {
+  Announcement,
+  AnnouncementPriority,
+} from './interfaces/announcement.interface';
+import {
+  AnnouncementRevision,
+  AnnouncementRevisionWithChanges,
+  RevisionFieldChange,
+} from './interfaces/announcement-revision.interface';
+import {
+  Comment,
+  CommentThread,
+  CommentVersion,
+} from './interfaces/comment.interface';
+import {
+  CommentReport,
+  ModerationQueueItem,
+} from './interfaces/comment-report.interface';
+import { Reaction, ReactionWithUser } from './interfaces/reaction.interface';
 import { AnnouncementSummary, ReactionBreakdown } from './interfaces/announcement-summary.interface';
+import { AnnouncementDetail } from './interfaces/announcement-detail.interface';
 import { CreateAnnouncementDto } from './dto/create-announcement.dto';
 import { UpdateAnnouncementDto } from './dto/update-announcement.dto';
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ReportCommentDto } from './dto/report-comment.dto';
+import { ModerationDecision } from './dto/moderate-comment.dto';
 import { CreateReactionDto } from './dto/create-reaction.dto';
+import {
+  AnnouncementSort,
+  ListAnnouncementsQueryDto,
+} from './dto/list-announcements-query.dto';
+import { FeedQueryDto } from './dto/feed-query.dto';
+import { FeedFormat } from './feeds/announcement-feeds';
+import { AnnouncementsRepository } from './repositories/announcements.repository';
+import { AnnouncementEventsService } from './events/announcement-events.service';
+import { CommentModerationService } from './moderation/comment-moderation.service';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { isModerator } from '../auth/roles';
+import { BoardSettingsService } from '../board/board-settings.service';
+import { UsersService } from '../users/users.service';
 import { v4 as uuidv4 } from 'uuid';
 import { createHash } from 'crypto';
+import {
+  comparePositions,
+  Page,
+  paginate,
+} from '../common/pagination/cursor-pagination';
+import { diffWords } from '../common/diff/word-diff';
+
+// Higher ranks list first within pinned and unpinned announcements
+const PRIORITY_RANK: Record<AnnouncementPriority, number> = {
+  normal: 0,
+  important: 1,
+  urgent: 2,
+};
+
+// Published comments behind an announcement's summary
+interface CommentActivity {
+  count: number;
+  lastCommentAt: number; // Epoch ms, 0 when there are none
+}
 
 @Injectable()
 export class AnnouncementsService {
-  private announcements: Announcement[] = [];
-  private comments: Comment[] = [];
-  private reactions: Reaction[] = [];
-  private reactionCache: Map<string, Date> = new Map(); // For idempotency
-
   // New counter system: track unique users per reaction type per announcement
   private reactionCounters: Map<string, Map<string, Set<string>>> = new Map(); // announcementId -> reactionType -> Set of userIds
+  private latestReactionAt: Map<string, number> = new Map(); // announcementId -> epoch ms of its newest reaction
+  // Kept current on every comment write so summaries never rescan comments
+  private commentActivity: Map<string, CommentActivity> = new Map(); // announcementId -> published comment aggregates
+
+  // Versions restart with the process, so list ETags also carry this run's ID
+  private readonly instanceId = uuidv4().slice(0, 8);
+
+  // Comments each user may post per announcement unless the announcement sets its own limit
+  private readonly defaultMaxCommentsPerUser =
+    parseInt(process.env.COMMENTS_MAX_PER_USER ?? '', 10) || 4;
+
+  // Announcements per page when the client doesn't ask for a limit
+  private readonly defaultAnnouncementsPageSize = 20;
+
+  // Entries in RSS and Atom feeds when the reader doesn't ask for a limit
+  private readonly defaultFeedSize = 50;
+
+  constructor(
+    private readonly repository: AnnouncementsRepository,
+    private readonly events: AnnouncementEventsService,
+    private readonly boardSettings: BoardSettingsService,
+    private readonly moderation: CommentModerationService,
+    private readonly users: UsersService,
+  ) {}
+
+  create(
+    createAnnouncementDto: CreateAnnouncementDto,
+    authorId: string,
+  ): Announcement {
+    const { publishAt, expiresAt } = createAnnouncementDto;
+    const now = new Date();
+    if (publishAt && publishAt <= now) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+    if (expiresAt && expiresAt <= (publishAt ?? now)) {
+      throw new BadRequestException(
+        publishAt
+          ? 'expiresAt must be after publishAt'
+          : 'expiresAt must be in the future',
+      );
+    }
 
-  create(createAnnouncementDto: CreateAnnouncementDto): Announcement {
+    // Scheduling implies a draft until the scheduler publishes it
+    const isDraft = !!createAnnouncementDto.draft || !!publishAt;
     const announcement: Announcement = {
       id: uuidv4(),
       title: createAnnouncementDto.title,
       description: createAnnouncementDto.description,
-      status: 'active',
-      createdAt: new Date(),
+      status: isDraft ? 'draft' : 'active',
+      authorId,
+      maxCommentsPerUser: createAnnouncementDto.maxCommentsPerUser,
+      priority: createAnnouncementDto.priority,
+      category: createAnnouncementDto.category,
+      tags: this.normalizeTags(createAnnouncementDto.tags),
+      publishAt,
+      publishedAt: isDraft ? undefined : now,
+      expiresAt,
+      version: 1,
+      updateCount: 0,
+      createdAt: now,
     };
 
-    this.announcements.push(announcement);
+    this.repository.batch(() => {
+      this.repository.saveAnnouncement(announcement);
+      this.repository.saveRevision(
+        this.toRevision(announcement, announcement.createdAt),
+      );
+    });
+    // Drafts stay off the live stream until they are published
+    if (!isDraft) {
+      this.events.emit({
+        type: 'announcement.created',
+        announcement: this.toSummary(announcement),
+      });
+    }
     return announcement;
   }
 
   findAll(): Announcement[] {
     // Return announcements sorted by newest first
-    return this.announcements.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  }
-
-  findAllWithSummary(): { announcements: AnnouncementSummary[], etag: string } {
-    const announcementSummaries: AnnouncementSummary[] = this.announcements.map(announcement => {
-      const commentCount = this.comments.filter(c => c.announcementId === announcement.id).length;
-
-      // Use the new counter system for more accurate counts
-      const announcementCounters = this.reactionCounters.get(announcement.id);
-      const reactions: ReactionBreakdown = {
-        up: announcementCounters?.get('up')?.size || 0,
-        down: announcementCounters?.get('down')?.size || 0,
-        heart: announcementCounters?.get('heart')?.size || 0,
-      };
-
-      // Calculate lastActivityAt (latest among: createdAt, last comment, last reaction)
-      const latestCommentTime = this.comments
-        .filter(c => c.announcementId === announcement.id)
-        .reduce((latest, comment) => comment.createdAt > latest ? comment.createdAt : latest, new Date(0));
-
-      const announcementReactions = this.reactions.filter(r => r.announcementId === announcement.id);
-      const latestReactionTime = announcementReactions
-        .reduce((latest, reaction) => reaction.createdAt > latest ? reaction.createdAt : latest, new Date(0));
-
-      const lastActivityAt = new Date(Math.max(
-        announcement.createdAt.getTime(),
-        latestCommentTime.getTime(),
-        latestReactionTime.getTime()
-      ));
-
-      return {
-        id: announcement.id,
-        title: announcement.title,
-        description: announcement.description,
-        status: announcement.status,
-        createdAt: announcement.createdAt,
-        commentCount,
-        reactions,
-        lastActivityAt,
-      };
+    return this.repository
+      .findAllAnnouncements()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  findAllWithSummary(
+    query: ListAnnouncementsQueryDto = {},
+    viewer?: AuthenticatedUser,
+  ): {
+    announcements: AnnouncementSummary[];
+    nextCursor?: string;
+    prevCursor?: string;
+    etag: string;
+  } {
+    const announcementSummaries = this.findMatchingSummaries(query, viewer);
+
+    // Pinned first, then by priority, then by the requested key (newest activity by default), ties broken by ID
+    const sort = query.sort ?? 'activity';
+    const sortKey = (summary: AnnouncementSummary) =>
+      this.sortKey(summary, sort);
+    announcementSummaries.sort((a, b) =>
+      comparePositions(
+        { key: sortKey(a), id: a.id },
+        { key: sortKey(b), id: b.id },
+      ),
+    );
+
+    const page = paginate(announcementSummaries, sortKey, {
+      scope: `announcements:${sort}`,
+      limit: query.limit ?? this.defaultAnnouncementsPageSize,
+      cursor: query.cursor,
+    });
+
+    // The viewer's own reactions come with the page, so clients needn't ask per announcement
+    const items = viewer
+      ? page.items.map((summary) => ({
+          ...summary,
+          myReaction: this.repository.findReaction(summary.id, viewer.id)?.type,
+        }))
+      : page.items;
+
+    return {
+      announcements: items,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+      etag: this.getListEtag(query, viewer),
+    };
+  }
+
+  // Identifies a list response without building it
+  getListEtag(
+    query: ListAnnouncementsQueryDto = {},
+    viewer?: AuthenticatedUser,
+  ): string {
+    return this.versionedEtag({ query }, viewer);
+  }
+
+  // What anyone can see, newest first, for feed readers and calendars; calendars get every dated announcement, not just the latest
+  getFeed(
+    format: FeedFormat,
+    query: FeedQueryDto = {},
+  ): { announcements: AnnouncementSummary[]; etag: string } {
+    const listQuery: ListAnnouncementsQueryDto = {
+      priority: query.priority,
+      category: query.category,
+      tag: query.tag,
+      sort: 'newest',
+    };
+
+    if (format !== 'ics') {
+      const { announcements } = this.findAllWithSummary({
+        ...listQuery,
+        limit: query.limit ?? this.defaultFeedSize,
+      });
+      return { announcements, etag: this.getFeedEtag(format, query) };
+    }
+
+    // Only dated announcements become events, filtered and sorted in one pass rather than paged through
+    const sortKey = (summary: AnnouncementSummary) =>
+      this.sortKey(summary, 'newest');
+    const announcements = this.findMatchingSummaries(listQuery)
+      .filter((summary) => summary.expiresAt)
+      .sort((a, b) =>
+        comparePositions(
+          { key: sortKey(a), id: a.id },
+          { key: sortKey(b), id: b.id },
+        ),
+      );
+    return { announcements, etag: this.getFeedEtag(format, query) };
+  }
+
+  getFeedEtag(format: FeedFormat, query: FeedQueryDto = {}): string {
+    return this.versionedEtag({ feed: format, query });
+  }
+
+  // Drops cached comment and reaction counts so they are rebuilt from storage, after writes that bypass this service
+  forgetAggregates(announcementIds: string[]): void {
+    for (const announcementId of announcementIds) {
+      this.commentActivity.delete(announcementId);
+      this.reactionCounters.delete(announcementId);
+      this.latestReactionAt.delete(announcementId);
+    }
+  }
+
+  // One announcement for deep links: its summary, the viewer's reaction and the first page of comments
+  findOneWithDetail(
+    id: string,
+    viewer?: AuthenticatedUser,
+  ): { announcement: AnnouncementDetail; etag: string } {
+    const announcement = this.findVisibleAnnouncementOrFail(id, viewer);
+    const comments = this.getComments(id, undefined, undefined, viewer);
+
+    return {
+      announcement: {
+        ...this.toSummary(announcement),
+        ...(viewer
+          ? { myReaction: this.repository.findReaction(id, viewer.id)?.type }
+          : {}),
+        comments: comments.comments,
+        nextCommentsCursor: comments.nextCursor,
+      },
+      etag: this.detailEtag(announcement, viewer),
+    };
+  }
+
+  // Sent by GET /announcements/:id and PATCH alike, and accepted back in If-Match
+  getDetailEtag(id: string, viewer?: AuthenticatedUser): string {
+    return this.detailEtag(
+      this.findVisibleAnnouncementOrFail(id, viewer),
+      viewer,
+    );
+  }
+
+  update(
+    id: string,
+    updateAnnouncementDto: UpdateAnnouncementDto,
+    user: AuthenticatedUser,
+    ifMatch?: string,
+  ): Announcement {
+    const announcement = this.findVisibleAnnouncementOrFail(id, user);
+
+    // Only the author or a committee member may edit, close or reopen a notice
+    if (announcement.authorId !== user.id && !isModerator(user)) {
+      throw new ForbiddenException(
+        'Only the author or committee members can change this announcement',
+      );
+    }
+
+    // Without If-Match the last write wins, as before
+    if (ifMatch && !this.matchesRevision(ifMatch, announcement)) {
+      throw new PreconditionFailedException({
+        message: 'This announcement was changed by someone else',
+        details: { current: this.toSummary(announcement) },
+      });
+    }
+
+    const {
+      status,
+      title,
+      description,
+      pinned,
+      priority,
+      category,
+      tags,
+      publishAt,
+      expiresAt,
+    } = updateAnnouncementDto;
+    if (
+      [
+        status,
+        title,
+        description,
+        pinned,
+        priority,
+        category,
+        tags,
+        publishAt,
+        expiresAt,
+      ].every((value) => value === undefined)
+    ) {
+      throw new BadRequestException('Provide at least one field to update');
+    }
+    if (
+      pinned !== undefined &&
+      pinned !== !!announcement.pinned &&
+      !isModerator(user)
+    ) {
+      throw new ForbiddenException(
+        'Only committee members can pin announcements',
+      );
+    }
+
+    const isDraft = announcement.status === 'draft';
+    if (isDraft && status === 'closed') {
+      throw new BadRequestException('Publish a draft before closing it');
+    }
+    if (!isDraft && publishAt !== undefined) {
+      throw new BadRequestException('publishAt can only be changed on drafts');
+    }
+
+    const now = new Date();
+    const newExpiresAt =
+      expiresAt === undefined
+        ? announcement.expiresAt
+        : (expiresAt ?? undefined);
+    const newPublishAt =
+      publishAt === undefined
+        ? announcement.publishAt
+        : (publishAt ?? undefined);
+    const newStatus = status ?? announcement.status;
+    if (publishAt && publishAt <= now) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+    if (expiresAt && expiresAt <= now) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    if (newStatus === 'active' && newExpiresAt && newExpiresAt <= now) {
+      throw new BadRequestException(
+        'This announcement has expired; set a later expiresAt to reopen it',
+      );
+    }
+    const statusChanged = newStatus !== announcement.status;
+    const published = isDraft && newStatus === 'active';
+
+    const newTitle = title ?? announcement.title;
+    const newDescription =
+      description === undefined
+        ? announcement.description
+        : description || undefined;
+    const contentChanged =
+      newTitle !== announcement.title ||
+      newDescription !== announcement.description;
+
+    const newTags =
+      tags === undefined ? announcement.tags : this.normalizeTags(tags);
+    const newCategory =
+      category === undefined ? announcement.category : (category ?? undefined);
+    const detailsChanged =
+      (pinned !== undefined && pinned !== !!announcement.pinned) ||
+      (priority !== undefined &&
+        priority !== (announcement.priority ?? 'normal')) ||
+      newCategory !== announcement.category ||
+      (newTags ?? []).join(',') !== (announcement.tags ?? []).join(',');
+
+    const updated = this.repository.batch(() => {
+      // Announcements from before editing existed have no stored original yet
+      if (
+        contentChanged &&
+        this.repository.findRevisionsByAnnouncement(id).length === 0
+      ) {
+        this.repository.saveRevision(
+          this.toRevision(announcement, announcement.createdAt),
+        );
+      }
+
+      const saved = this.repository.saveAnnouncement({
+        ...announcement,
+        title: newTitle,
+        description: newDescription,
+        pinned: pinned ?? announcement.pinned,
+        priority: priority ?? announcement.priority,
+        category: newCategory,
+        tags: newTags,
+        status: newStatus,
+        publishAt: published ? undefined : newPublishAt,
+        publishedAt: published ? now : announcement.publishedAt,
+        expiresAt: newExpiresAt,
+        // A person changing the status overrides any automatic close
+        closedReason: statusChanged ? undefined : announcement.closedReason,
+        version: contentChanged
+          ? announcement.version + 1
+          : announcement.version,
+        updateCount: (announcement.updateCount ?? 0) + 1,
+        // Polishing a draft before it goes out doesn't mark it as edited
+        editedAt: contentChanged && !isDraft ? now : announcement.editedAt,
+        statusChangedAt: statusChanged ? now : announcement.statusChangedAt,
+      });
+
+      if (contentChanged) {
+        this.repository.saveRevision(this.toRevision(saved, now, user));
+      }
+      return saved;
     });
 
-    // Sort by lastActivityAt (newest first)
-    announcementSummaries.sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime());
-
-    // Generate ETag based on all data
-    const dataForHash = JSON.stringify({
-      announcements: announcementSummaries.map(a => ({
-        id: a.id,
-        lastActivityAt: a.lastActivityAt.getTime(),
-        commentCount: a.commentCount,
-        reactions: a.reactions
-      }))
+    // Residents first hear about a draft when it is published
+    if (published) {
+      this.events.emit({
+        type: 'announcement.created',
+        announcement: this.toSummary(updated),
+      });
+      return updated;
+    }
+    if ((contentChanged || detailsChanged) && !isDraft) {
+      const summary = this.toSummary(updated);
+      this.events.emit({
+        type: 'announcement.edited',
+        announcementId: id,
+        title: summary.title,
+        description: summary.description,
+        pinned: summary.pinned,
+        priority: summary.priority,
+        category: summary.category,
+        tags: summary.tags,
+        version: summary.version,
+        updateCount: summary.updateCount,
+        editedAt: summary.editedAt,
+      });
+    }
+    if (statusChanged) {
+      this.events.emit({
+        type: 'announcement.status_changed',
+        announcementId: id,
+        status: newStatus as 'active' | 'closed',
+        updateCount: updated.updateCount ?? 0,
+      });
+    }
+    return updated;
+  }
+
+  // Publishes drafts whose publishAt has passed. Run periodically by the scheduler.
+  publishScheduledAnnouncements(now: Date = new Date()): Announcement[] {
+    return this.repository.batch(() => {
+      const published: Announcement[] = [];
+      for (const announcement of this.repository.findAllAnnouncements()) {
+        if (
+          announcement.status !== 'draft' ||
+          !announcement.publishAt ||
+          announcement.publishAt > now
+        ) {
+          continue;
+        }
+
+        const updated = this.repository.saveAnnouncement({
+          ...announcement,
+          status: 'active',
+          publishAt: undefined,
+          publishedAt: now,
+          statusChangedAt: now,
+          updateCount: (announcement.updateCount ?? 0) + 1,
+        });
+        published.push(updated);
+        this.events.emit({
+          type: 'announcement.created',
+          announcement: this.toSummary(updated),
+        });
+      }
+      return published;
     });
-    const etag = `"${createHash('md5').update(dataForHash).digest('hex')}"`;
+  }
+
+  /**
+   * Closes active announcements whose expiresAt has passed, or that have seen no
+   * activity for the board's auto-close period. Run periodically by the scheduler.
+   */
+  closeStaleAnnouncements(now: Date = new Date()): Announcement[] {
+    const { autoCloseInactiveDays } = this.boardSettings.get();
+    const inactiveBefore = autoCloseInactiveDays
+      ? now.getTime() - autoCloseInactiveDays * 24 * 60 * 60 * 1000
+      : undefined;
+
+    return this.repository.batch(() => {
+      const closed: Announcement[] = [];
+      for (const announcement of this.repository.findAllAnnouncements()) {
+        if (announcement.status !== 'active') {
+          continue;
+        }
 
-    return { announcements: announcementSummaries, etag };
+        let reason: Announcement['closedReason'];
+        if (announcement.expiresAt && announcement.expiresAt <= now) {
+          reason = 'expired';
+        } else if (
+          inactiveBefore !== undefined &&
+          this.lastTouchedAt(announcement) <= inactiveBefore
+        ) {
+          reason = 'inactive';
+        }
+        if (!reason) {
+          continue;
+        }
+
+        const updated = this.repository.saveAnnouncement({
+          ...announcement,
+          status: 'closed',
+          closedReason: reason,
+          statusChangedAt: now,
+          updateCount: (announcement.updateCount ?? 0) + 1,
+        });
+        closed.push(updated);
+        this.events.emit({
+          type: 'announcement.status_changed',
+          announcementId: announcement.id,
+          status: 'closed',
+          reason,
+          updateCount: updated.updateCount ?? 0,
+        });
+      }
+      return closed;
+    });
   }
 
-  update(id: string, updateAnnouncementDto: UpdateAnnouncementDto): Announcement {
-    const announcementIndex = this.announcements.findIndex(announcement => announcement.id === id);
-    
-    if (announcementIndex === -1) {
-      throw new NotFoundException(`Announcement with ID ${id} not found`);
+  // Every version oldest first, each with a word diff against the one before it
+  getRevisions(
+    announcementId: string,
+    viewer?: AuthenticatedUser,
+  ): AnnouncementRevisionWithChanges[] {
+    const announcement = this.findVisibleAnnouncementOrFail(
+      announcementId,
+      viewer,
+    );
+
+    const revisions =
+      this.repository.findRevisionsByAnnouncement(announcementId);
+    if (revisions.length === 0) {
+      // Never edited and created before revisions were recorded
+      revisions.push(this.toRevision(announcement, announcement.createdAt));
     }
 
-    this.announcements[announcementIndex].status = updateAnnouncementDto.status;
-    return this.announcements[announcementIndex];
+    return revisions.map((revision, index) => ({
+      ...revision,
+      changes:
+        index === 0 ? [] : this.diffRevisions(revisions[index - 1], revision),
+    }));
   }
 
   // Comments methods
-  addComment(announcementId: string, createCommentDto: CreateCommentDto, userId?: string): Comment {
+  addComment(
+    announcementId: string,
+    createCommentDto: CreateCommentDto,
+    userId: string,
+  ): Comment {
     // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
+    const announcement = this.findPublishedAnnouncementOrFail(announcementId);
+
+    // Replies thread under the top-level comment, even when answering another reply
+    let parentId: string | undefined;
+    if (createCommentDto.parentId) {
+      const parent = this.repository.findCommentById(
+        announcementId,
+        createCommentDto.parentId,
+      );
+      if (!parent || !this.isPublished(parent)) {
+        throw new NotFoundException(
+          `Comment with ID ${createCommentDto.parentId} not found`,
+        );
+      }
+      parentId = parent.parentId ?? parent.id;
     }
 
-    // If userId is provided, check max comments limit (4 per user per announcement)
-    if (userId) {
-      const userComments = this.comments.filter(
-        c => c.announcementId === announcementId && c.authorName === createCommentDto.authorName
+    // Check max comments limit, counted by identity so changing authorName doesn't reset it; replies and held comments count too
+    const maxComments =
+      announcement.maxCommentsPerUser ?? this.defaultMaxCommentsPerUser;
+    const userComments = this.findLiveComments(announcementId).filter(
+      (c) => c.userId === userId,
+    );
+
+    if (userComments.length >= maxComments) {
+      throw new ForbiddenException(
+        `Maximum ${maxComments} comments per user per announcement allowed`,
       );
+    }
 
-      if (userComments.length >= 4) {
-        throw new ForbiddenException('Maximum 4 comments per user per announcement allowed');
-      }
+    const verdict = this.moderation.review({
+      announcementId,
+      userId,
+      authorName: createCommentDto.authorName,
+      text: createCommentDto.text,
+    });
+    if (verdict.action === 'reject') {
+      throw new BadRequestException(
+        verdict.reason ?? 'Comment was rejected by moderation',
+      );
     }
 
     const comment: Comment = {
       id: uuidv4(),
       announcementId,
+      parentId,
+      userId,
       authorName: createCommentDto.authorName,
       text: createCommentDto.text,
+      status: verdict.action === 'hold' ? 'pending' : 'published',
+      moderationReason: verdict.reason,
       createdAt: new Date(),
     };
 
-    this.comments.push(comment);
+    this.repository.saveComment(comment);
+    this.refreshCommentActivity(announcementId);
+    // Held comments stay between their author and the moderators until approved
+    if (this.isPublished(comment)) {
+      this.emitCommentAdded(comment);
+    }
     return comment;
   }
 
-  getComments(announcementId: string, cursor?: string, limit: number = 10): { comments: Comment[], nextCursor?: string } {
-    // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
+  // Authors may correct a comment while the board's edit window is open; the old text is kept
+  updateComment(
+    announcementId: string,
+    commentId: string,
+    updateCommentDto: UpdateCommentDto,
+    user: AuthenticatedUser,
+  ): Comment {
+    this.findPublishedAnnouncementOrFail(announcementId);
+
+    const comment = this.repository.findCommentById(announcementId, commentId);
+    if (!comment || comment.deletedAt) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+    if (comment.userId !== user.id) {
+      throw new ForbiddenException('You can only edit your own comments');
+    }
+    if (comment.status === 'hidden') {
+      throw new ForbiddenException('This comment was hidden by a moderator');
     }
 
-    let announcementComments = this.comments
-      .filter(comment => comment.announcementId === announcementId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const { commentEditWindowMinutes } = this.boardSettings.get();
+    if (commentEditWindowMinutes === 0) {
+      throw new ForbiddenException('Comment editing is turned off');
+    }
+    if (
+      Date.now() >
+      comment.createdAt.getTime() + commentEditWindowMinutes * 60 * 1000
+    ) {
+      throw new ForbiddenException(
+        `Comments can only be edited within ${commentEditWindowMinutes} minutes of posting`,
+      );
+    }
+
+    if (updateCommentDto.text === comment.text) {
+      return comment;
+    }
+
+    // Edits go through the same checks as new comments
+    const verdict = this.moderation.review({
+      announcementId,
+      userId: user.id,
+      authorName: comment.authorName,
+      text: updateCommentDto.text,
+    });
+    if (verdict.action === 'reject') {
+      throw new BadRequestException(
+        verdict.reason ?? 'Comment was rejected by moderation',
+      );
+    }
+    const held = verdict.action === 'hold' && this.isPublished(comment);
+
+    const now = new Date();
+    const updated = this.repository.batch(() => {
+      this.repository.saveCommentVersion({
+        id: uuidv4(),
+        commentId,
+        announcementId,
+        text: comment.text,
+        createdAt: comment.editedAt ?? comment.createdAt,
+        replacedAt: now,
+      });
+      return this.repository.saveComment({
+        ...comment,
+        text: updateCommentDto.text,
+        editedAt: now,
+        ...(held
+          ? { status: 'pending', moderationReason: verdict.reason }
+          : {}),
+      });
+    });
+    this.refreshCommentActivity(announcementId);
+
+    if (held) {
+      this.emitCommentHidden(updated);
+    } else if (this.isPublished(updated)) {
+      this.events.emit({
+        type: 'comment.edited',
+        announcementId,
+        comment: updated,
+      });
+    }
+
+    return updated;
+  }
+
+  // Earlier texts of an edited comment, oldest first
+  getCommentHistory(
+    announcementId: string,
+    commentId: string,
+    viewer?: AuthenticatedUser,
+  ): CommentVersion[] {
+    this.findVisibleAnnouncementOrFail(announcementId, viewer);
+
+    const comment = this.repository.findCommentById(announcementId, commentId);
+    if (
+      !comment ||
+      comment.deletedAt ||
+      !this.isCommentVisibleTo(comment, viewer)
+    ) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+
+    return this.repository.findCommentVersions(commentId);
+  }
+
+  // Top-level comments only, each with its reply count; replies are paged separately
+  getComments(
+    announcementId: string,
+    cursor?: string,
+    limit: number = 10,
+    viewer?: AuthenticatedUser,
+  ): { comments: CommentThread[]; nextCursor?: string; prevCursor?: string } {
+    // Check if announcement exists
+    this.findVisibleAnnouncementOrFail(announcementId, viewer);
 
-    // Apply cursor pagination
-    if (cursor) {
-      const cursorIndex = announcementComments.findIndex(comment => comment.id === cursor);
-      if (cursorIndex !== -1) {
-        announcementComments = announcementComments.slice(cursorIndex + 1);
+    // Held and hidden comments only show to their author and the moderators
+    const allComments = this.repository
+      .findCommentsByAnnouncement(announcementId)
+      .filter((comment) => this.isCommentVisibleTo(comment, viewer));
+    const replyCounts = new Map<string, number>();
+    for (const comment of allComments) {
+      if (comment.parentId) {
+        replyCounts.set(
+          comment.parentId,
+          (replyCounts.get(comment.parentId) ?? 0) + 1,
+        );
       }
     }
 
-    // Apply limit
-    const paginatedComments = announcementComments.slice(0, limit);
-    const nextCursor = paginatedComments.length === limit ? paginatedComments[limit - 1].id : undefined;
+    // Newest first; the cursor keeps its place even if the comment it points at is deleted
+    const sortKey = (comment: Comment) => [comment.createdAt.getTime()];
+    const topLevel = allComments
+      .filter((comment) => !comment.parentId)
+      .sort((a, b) =>
+        comparePositions(
+          { key: sortKey(a), id: a.id },
+          { key: sortKey(b), id: b.id },
+        ),
+      );
+
+    const page: Page<Comment> = paginate(topLevel, sortKey, {
+      scope: 'comments',
+      limit,
+      cursor,
+    });
 
     return {
-      comments: paginatedComments,
-      nextCursor
+      comments: page.items.map((comment) => ({
+        ...comment,
+        replyCount: replyCounts.get(comment.id) ?? 0,
+      })),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
     };
   }
 
-  deleteComment(announcementId: string, commentId: string, userId: string): void {
-    // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
+  // Replies to one top-level comment, oldest first so the conversation reads in order
+  getReplies(
+    announcementId: string,
+    commentId: string,
+    cursor?: string,
+    limit: number = 10,
+    viewer?: AuthenticatedUser,
+  ): { replies: Comment[]; nextCursor?: string; prevCursor?: string } {
+    this.findVisibleAnnouncementOrFail(announcementId, viewer);
+    const parent = this.repository.findCommentById(announcementId, commentId);
+    if (
+      !parent ||
+      parent.parentId ||
+      !this.isCommentVisibleTo(parent, viewer)
+    ) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
     }
 
+    // Negated timestamps turn the descending cursor order into oldest first
+    const sortKey = (comment: Comment) => [-comment.createdAt.getTime()];
+    const replies = this.repository
+      .findCommentsByAnnouncement(announcementId)
+      .filter(
+        (comment) =>
+          comment.parentId === commentId &&
+          this.isCommentVisibleTo(comment, viewer),
+      )
+      .sort((a, b) =>
+        comparePositions(
+          { key: sortKey(a), id: a.id },
+          { key: sortKey(b), id: b.id },
+        ),
+      );
+
+    const page = paginate(replies, sortKey, {
+      scope: `replies:${commentId}`,
+      limit,
+      cursor,
+    });
+
+    return {
+      replies: page.items,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
+  }
+
+  deleteComment(
+    announcementId: string,
+    commentId: string,
+    user: AuthenticatedUser,
+  ): void {
+    // Check if announcement exists
+    this.findAnnouncementOrFail(announcementId);
+
     // Find the comment
-    const comment = this.comments.find(c => c.id === commentId && c.announcementId === announcementId);
+    const comment = this.repository.findCommentById(announcementId, commentId);
     if (!comment) {
       throw new NotFoundException(`Comment with ID ${commentId} not found`);
     }
 
-    // For demo purposes, we'll let users delete any comment.
-    // In a real app, you'd typically check if the user owns the comment or is an admin
-    // if (comment.userId !== userId) {
-    //   throw new ForbiddenException('You can only delete your own comments');
-    // }
+    // Authors can delete their own comments, moderators can delete any
+    if (comment.userId !== user.id && !isModerator(user)) {
+      throw new ForbiddenException('You can only delete your own comments');
+    }
+    // A placeholder only goes away with its last reply
+    if (comment.deletedAt) {
+      throw new ConflictException('This comment has already been deleted');
+    }
+
+    // Cascade rules for threads:
+    // - moderators remove a comment together with its replies
+    // - authors remove their replies too, unless someone else has replied, in which
+    //   case the comment becomes a "[deleted]" placeholder so those replies keep their context
+    const replies = comment.parentId
+      ? []
+      : this.repository
+          .findCommentsByAnnouncement(announcementId)
+          .filter((reply) => reply.parentId === commentId);
+    const keepPlaceholder =
+      !isModerator(user) && replies.some((reply) => reply.userId !== user.id);
+
+    this.repository.batch(() => {
+      if (keepPlaceholder) {
+        for (const reply of replies.filter(
+          (reply) => reply.userId === user.id,
+        )) {
+          this.removeComment(reply);
+        }
+        this.repository.saveComment({
+          ...comment,
+          authorName: '',
+          text: '',
+          editedAt: undefined,
+          deletedAt: new Date(),
+        });
+        this.refreshCommentActivity(announcementId);
+        this.repository.deleteCommentVersions(comment.id);
+        this.repository.deleteReportsByComment(comment.id);
+        this.emitCommentDeleted(comment, true);
+        return;
+      }
+
+      for (const reply of replies) {
+        this.removeComment(reply);
+      }
+      this.removeComment(comment);
+
+      // A placeholder has nothing left to hold once its last reply goes
+      const parent = comment.parentId
+        ? this.repository.findCommentById(announcementId, comment.parentId)
+        : undefined;
+      if (
+        parent?.deletedAt &&
+        !this.repository
+          .findCommentsByAnnouncement(announcementId)
+          .some((c) => c.parentId === parent.id)
+      ) {
+        this.removeComment(parent);
+      }
+    });
+  }
+
+  // Flags a comment for the moderators; each resident can report a comment once
+  reportComment(
+    announcementId: string,
+    commentId: string,
+    reportCommentDto: ReportCommentDto,
+    user: AuthenticatedUser,
+  ): void {
+    this.findVisibleAnnouncementOrFail(announcementId, user);
+
+    const comment = this.repository.findCommentById(announcementId, commentId);
+    if (
+      !comment ||
+      comment.deletedAt ||
+      !this.isCommentVisibleTo(comment, user)
+    ) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+    if (comment.userId === user.id) {
+      throw new BadRequestException('You cannot report your own comment');
+    }
+    if (
+      this.repository
+        .findReportsByComment(commentId)
+        .some((report) => report.userId === user.id)
+    ) {
+      throw new ConflictException('You have already reported this comment');
+    }
+
+    this.repository.saveReport({
+      id: uuidv4(),
+      commentId,
+      announcementId,
+      userId: user.id,
+      reason: reportCommentDto.reason?.trim() || undefined,
+      createdAt: new Date(),
+    });
+  }
+
+  // Held and reported comments, most recently flagged first
+  getModerationQueue(
+    cursor?: string,
+    limit: number = 20,
+  ): {
+    items: ModerationQueueItem[];
+    nextCursor?: string;
+    prevCursor?: string;
+  } {
+    const reportsByComment = new Map<string, CommentReport[]>();
+    for (const report of this.repository.findAllReports()) {
+      reportsByComment.set(report.commentId, [
+        ...(reportsByComment.get(report.commentId) ?? []),
+        report,
+      ]);
+    }
+
+    const items: ModerationQueueItem[] = [];
+    for (const announcement of this.repository.findAllAnnouncements()) {
+      for (const comment of this.repository.findCommentsByAnnouncement(
+        announcement.id,
+      )) {
+        const reports = reportsByComment.get(comment.id) ?? [];
+        if (
+          !comment.deletedAt &&
+          (comment.status === 'pending' || reports.length > 0)
+        ) {
+          items.push({
+            id: comment.id,
+            comment,
+            announcementTitle: announcement.title,
+            reports,
+          });
+        }
+      }
+    }
+
+    const sortKey = (item: ModerationQueueItem) => [
+      Math.max(
+        item.comment.createdAt.getTime(),
+        ...item.reports.map((report) => report.createdAt.getTime()),
+      ),
+    ];
+    items.sort((a, b) =>
+      comparePositions(
+        { key: sortKey(a), id: a.comment.id },
+        { key: sortKey(b), id: b.comment.id },
+      ),
+    );
 
-    const initialLength = this.comments.length;
-    this.comments = this.comments.filter(c => c.id !== commentId);
+    const page = paginate(items, sortKey, {
+      scope: 'moderation',
+      limit,
+      cursor,
+    });
+
+    return {
+      items: page.items,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
+  }
 
-    if (this.comments.length === initialLength) {
+  // A moderator's decision on a held or reported comment; settles its reports either way
+  moderateComment(
+    announcementId: string,
+    commentId: string,
+    decision: ModerationDecision,
+    moderator: AuthenticatedUser,
+  ): Comment | undefined {
+    this.findAnnouncementOrFail(announcementId);
+
+    const comment = this.repository.findCommentById(announcementId, commentId);
+    if (!comment || comment.deletedAt) {
       throw new NotFoundException(`Comment with ID ${commentId} not found`);
     }
+
+    if (decision === 'delete') {
+      this.deleteComment(announcementId, commentId, moderator);
+      return undefined;
+    }
+
+    const wasPublished = this.isPublished(comment);
+    const updated = this.repository.batch(() => {
+      const saved = this.repository.saveComment({
+        ...comment,
+        status: decision === 'approve' ? 'published' : 'hidden',
+        moderationReason:
+          decision === 'approve' ? undefined : 'Hidden by a moderator',
+      });
+      this.repository.deleteReportsByComment(commentId);
+      return saved;
+    });
+    this.refreshCommentActivity(announcementId);
+
+    if (decision === 'approve' && !wasPublished) {
+      this.emitCommentAdded(updated);
+    } else if (decision === 'hide' && wasPublished) {
+      this.emitCommentHidden(updated);
+    }
+
+    return updated;
+  }
+
+  // Who reacted, newest first
+  getReactions(
+    announcementId: string,
+    type?: string,
+    cursor?: string,
+    limit: number = 20,
+    viewer?: AuthenticatedUser,
+  ): {
+    reactions: ReactionWithUser[];
+    nextCursor?: string;
+    prevCursor?: string;
+  } {
+    this.findVisibleAnnouncementOrFail(announcementId, viewer);
+
+    const sortKey = (reaction: Reaction) => [reaction.createdAt.getTime()];
+    const reactions = this.repository
+      .findReactionsByAnnouncement(announcementId)
+      .filter((reaction) => !type || reaction.type === type)
+      .sort((a, b) =>
+        comparePositions(
+          { key: sortKey(a), id: a.id },
+          { key: sortKey(b), id: b.id },
+        ),
+      );
+
+    const page = paginate(reactions, sortKey, {
+      scope: `reactions:${announcementId}:${type ?? ''}`,
+      limit,
+      cursor,
+    });
+
+    return {
+      reactions: page.items.map((reaction) => ({
+        ...reaction,
+        displayName: this.users.findById(reaction.userId)?.displayName,
+      })),
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
   }
 
   getUserReaction(announcementId: string, userId: string): { reaction?: string } {
     // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
+    this.findAnnouncementOrFail(announcementId);
+
+    const userReaction = this.repository.findReaction(announcementId, userId);
+
+    return { reaction: userReaction?.type };
+  }
+
+  private removeComment(comment: Comment): void {
+    if (!this.repository.deleteComment(comment.id)) {
+      throw new NotFoundException(`Comment with ID ${comment.id} not found`);
+    }
+    this.refreshCommentActivity(comment.announcementId);
+    this.emitCommentDeleted(comment, false);
+  }
+
+  private emitCommentDeleted(comment: Comment, placeholder: boolean): void {
+    this.events.emit({
+      type: 'comment.deleted',
+      announcementId: comment.announcementId,
+      commentId: comment.id,
+      parentId: comment.parentId,
+      placeholder,
+      commentCount: this.getCommentActivity(comment.announcementId).count,
+    });
+  }
+
+  private emitCommentAdded(comment: Comment): void {
+    this.events.emit({
+      type: 'comment.added',
+      announcementId: comment.announcementId,
+      comment,
+      commentCount: this.getCommentActivity(comment.announcementId).count,
+    });
+  }
+
+  private emitCommentHidden(comment: Comment): void {
+    this.events.emit({
+      type: 'comment.hidden',
+      announcementId: comment.announcementId,
+      commentId: comment.id,
+      parentId: comment.parentId,
+      commentCount: this.getCommentActivity(comment.announcementId).count,
+    });
+  }
+
+  private getCommentActivity(announcementId: string): CommentActivity {
+    let activity = this.commentActivity.get(announcementId);
+    if (!activity) {
+      activity = this.countCommentActivity(announcementId);
+      this.commentActivity.set(announcementId, activity);
     }
+    return activity;
+  }
 
-    const userReaction = this.reactions.find(
-      r => r.announcementId === announcementId && r.userId === userId
+  // Recounts one announcement's published comments after a comment is added, changed or removed
+  private refreshCommentActivity(announcementId: string): void {
+    this.commentActivity.set(
+      announcementId,
+      this.countCommentActivity(announcementId),
     );
+  }
 
-    return { reaction: userReaction?.type };
+  private countCommentActivity(announcementId: string): CommentActivity {
+    const published = this.findPublishedComments(announcementId);
+    return {
+      count: published.length,
+      lastCommentAt: published.reduce(
+        (latest, comment) => Math.max(latest, comment.createdAt.getTime()),
+        0,
+      ),
+    };
+  }
+
+  // Comments that still have content, i.e. not "[deleted]" placeholders
+  private findLiveComments(announcementId: string): Comment[] {
+    return this.repository
+      .findCommentsByAnnouncement(announcementId)
+      .filter((comment) => !comment.deletedAt);
+  }
+
+  // What everyone sees: live comments that aren't held or hidden
+  private findPublishedComments(announcementId: string): Comment[] {
+    return this.findLiveComments(announcementId).filter((comment) =>
+      this.isPublished(comment),
+    );
+  }
+
+  private isPublished(comment: Comment): boolean {
+    return (comment.status ?? 'published') === 'published';
+  }
+
+  private isCommentVisibleTo(
+    comment: Comment,
+    viewer?: AuthenticatedUser,
+  ): boolean {
+    return (
+      this.isPublished(comment) ||
+      (!!viewer && (comment.userId === viewer.id || isModerator(viewer)))
+    );
+  }
+
+  private toRevision(
+    announcement: Announcement,
+    createdAt: Date,
+    editor?: AuthenticatedUser,
+  ): AnnouncementRevision {
+    return {
+      id: uuidv4(),
+      announcementId: announcement.id,
+      version: announcement.version,
+      title: announcement.title,
+      description: announcement.description,
+      editorId: editor?.id ?? announcement.authorId,
+      editorName: editor?.displayName,
+      createdAt,
+    };
+  }
+
+  // Latest activity, edit or reopen, so reopening an idle notice gives it a fresh inactivity period
+  private lastTouchedAt(announcement: Announcement): number {
+    return Math.max(
+      this.toSummary(announcement).lastActivityAt.getTime(),
+      announcement.editedAt?.getTime() ?? 0,
+      announcement.statusChangedAt?.getTime() ?? 0,
+    );
+  }
+
+  private diffRevisions(
+    previous: AnnouncementRevision,
+    current: AnnouncementRevision,
+  ): RevisionFieldChange[] {
+    const changes: RevisionFieldChange[] = [];
+    for (const field of ['title', 'description'] as const) {
+      if (previous[field] !== current[field]) {
+        changes.push({
+          field,
+          before: previous[field],
+          after: current[field],
+          diff: diffWords(previous[field] ?? '', current[field] ?? ''),
+        });
+      }
+    }
+    return changes;
+  }
+
+  // Any write bumps the repository version, and the board settings and the caller (drafts,
+  // held comments, myReaction) are the only other inputs to a response
+  private versionedEtag(request: object, viewer?: AuthenticatedUser): string {
+    return `"${this.versionKey(request, viewer)}"`;
+  }
+
+  private versionKey(request: object, viewer?: AuthenticatedUser): string {
+    const settingsChangedAt =
+      this.boardSettings.get().updatedAt?.getTime() ?? 0;
+    const requestHash = createHash('md5')
+      .update(
+        JSON.stringify({
+          ...request,
+          viewer: viewer && [viewer.id, viewer.role],
+        }),
+      )
+      .digest('hex');
+    return `${this.instanceId}-${this.repository.getVersion()}-${settingsChangedAt}-${requestHash}`;
+  }
+
+  // Leads with the announcement's updateCount, the only part If-Match compares, so comments
+  // and reactions added since a client's GET don't make its edit stale
+  private detailEtag(
+    announcement: Announcement,
+    viewer?: AuthenticatedUser,
+  ): string {
+    return `"${announcement.updateCount ?? 0}.${this.versionKey({ id: announcement.id }, viewer)}"`;
+  }
+
+  // Accepts "*", a detail ETag, or just the revision ("3") for clients that only hold a summary.
+  // Weak validators (W/"3") count too, since only the revision is compared
+  private matchesRevision(
+    ifMatch: string,
+    announcement: Announcement,
+  ): boolean {
+    const revision = String(announcement.updateCount ?? 0);
+    return ifMatch.split(',').some((tag) => {
+      const trimmed = tag.trim().replace(/^W\//, '');
+      return trimmed === '*' || /^"(\d+)[".]/.exec(trimmed)?.[1] === revision;
+    });
+  }
+
+  // Built from the maintained aggregates, so it costs the same however busy the announcement is
+  private toSummary(announcement: Announcement): AnnouncementSummary {
+    const comments = this.getCommentActivity(announcement.id);
+
+    // Calculate lastActivityAt (latest among: createdAt, last comment, last reaction)
+    const lastActivityAt = new Date(
+      Math.max(
+        (announcement.publishedAt ?? announcement.createdAt).getTime(),
+        comments.lastCommentAt,
+        this.getLatestReactionAt(announcement.id),
+      ),
+    );
+
+    return {
+      id: announcement.id,
+      title: announcement.title,
+      description: announcement.description,
+      status: announcement.status,
+      authorId: announcement.authorId,
+      maxCommentsPerUser:
+        announcement.maxCommentsPerUser ?? this.defaultMaxCommentsPerUser,
+      pinned: !!announcement.pinned,
+      priority: announcement.priority ?? 'normal',
+      category: announcement.category,
+      tags: announcement.tags ?? [],
+      version: announcement.version,
+      updateCount: announcement.updateCount ?? 0,
+      publishAt: announcement.publishAt,
+      publishedAt: announcement.publishedAt,
+      expiresAt: announcement.expiresAt,
+      closedReason: announcement.closedReason,
+      createdAt: announcement.createdAt,
+      editedAt: announcement.editedAt,
+      commentCount: comments.count,
+      reactions: this.getReactionBreakdown(announcement.id),
+      lastActivityAt,
+    };
+  }
+
+  // Use the new counter system for more accurate counts
+  private getReactionBreakdown(announcementId: string): ReactionBreakdown {
+    const announcementCounters = this.getAnnouncementCounters(announcementId);
+    const breakdown: ReactionBreakdown = {};
+    for (const { key } of this.boardSettings.getReactionTypes()) {
+      breakdown[key] = announcementCounters.get(key)?.size || 0;
+    }
+    return breakdown;
+  }
+
+  // Descending sort key for each list order; later entries break ties
+  private sortKey(
+    summary: AnnouncementSummary,
+    sort: AnnouncementSort,
+  ): number[] {
+    return [
+      summary.pinned ? 1 : 0,
+      PRIORITY_RANK[summary.priority],
+      ...this.orderKey(summary, sort),
+    ];
+  }
+
+  private orderKey(
+    summary: AnnouncementSummary,
+    sort: AnnouncementSort,
+  ): number[] {
+    const activity = summary.lastActivityAt.getTime();
+    switch (sort) {
+      case 'newest':
+        // Scheduled announcements count as new from when they went live
+        return [(summary.publishedAt ?? summary.createdAt).getTime()];
+      case 'most_reactions':
+        return [
+          Object.values(summary.reactions).reduce(
+            (total, count) => total + count,
+            0,
+          ),
+          activity,
+        ];
+      case 'most_comments':
+        return [summary.commentCount, activity];
+      default:
+        return [activity];
+    }
+  }
+
+  private normalizeTags(tags?: string[]): string[] | undefined {
+    if (!tags) {
+      return undefined;
+    }
+    return [
+      ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+    ];
+  }
+
+  // Visible announcements that pass the list filters, unsorted
+  private findMatchingSummaries(
+    query: ListAnnouncementsQueryDto,
+    viewer?: AuthenticatedUser,
+  ): AnnouncementSummary[] {
+    const searchTerms = this.toSearchTerms(query.q);
+
+    return this.repository
+      .findAllAnnouncements()
+      .filter((announcement) => this.isVisibleTo(announcement, viewer))
+      .filter(
+        (announcement) => !query.status || announcement.status === query.status,
+      )
+      .filter(
+        (announcement) =>
+          !query.priority ||
+          (announcement.priority ?? 'normal') === query.priority,
+      )
+      .filter(
+        (announcement) =>
+          !query.category || announcement.category === query.category,
+      )
+      .filter(
+        (announcement) =>
+          !query.tag ||
+          (announcement.tags ?? []).includes(query.tag.trim().toLowerCase()),
+      )
+      .filter((announcement) =>
+        this.matchesSearch(announcement, searchTerms, query.includeComments),
+      )
+      .map((announcement) => this.toSummary(announcement))
+      .filter((summary) =>
+        this.isWithin(summary.createdAt, query.createdFrom, query.createdTo),
+      )
+      .filter((summary) =>
+        this.isWithin(
+          summary.lastActivityAt,
+          query.activityFrom,
+          query.activityTo,
+        ),
+      );
+  }
+
+  private toSearchTerms(q?: string): string[] {
+    return (q ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  }
+
+  private matchesSearch(
+    announcement: Announcement,
+    terms: string[],
+    includeComments?: boolean,
+  ): boolean {
+    if (terms.length === 0) {
+      return true;
+    }
+
+    const searchable = [announcement.title, announcement.description ?? ''];
+    if (includeComments) {
+      searchable.push(
+        ...this.findPublishedComments(announcement.id).map((c) => c.text),
+      );
+    }
+    const text = searchable.join('\n').toLowerCase();
+    return terms.every((term) => text.includes(term));
+  }
+
+  private isWithin(date: Date, from?: Date, to?: Date): boolean {
+    return (!from || date >= from) && (!to || date <= to);
+  }
+
+  private findAnnouncementOrFail(announcementId: string): Announcement {
+    const announcement = this.repository.findAnnouncementById(announcementId);
+    if (!announcement) {
+      throw new NotFoundException(
+        `Announcement with ID ${announcementId} not found`,
+      );
+    }
+    return announcement;
+  }
+
+  // Drafts look like missing announcements to anyone but their author and committee members
+  private findVisibleAnnouncementOrFail(
+    announcementId: string,
+    viewer?: AuthenticatedUser,
+  ): Announcement {
+    const announcement = this.findAnnouncementOrFail(announcementId);
+    if (!this.isVisibleTo(announcement, viewer)) {
+      throw new NotFoundException(
+        `Announcement with ID ${announcementId} not found`,
+      );
+    }
+    return announcement;
+  }
+
+  private findPublishedAnnouncementOrFail(
+    announcementId: string,
+  ): Announcement {
+    const announcement = this.findAnnouncementOrFail(announcementId);
+    if (announcement.status === 'draft') {
+      throw new BadRequestException(
+        'Comments and reactions open once the announcement is published',
+      );
+    }
+    return announcement;
+  }
+
+  private isVisibleTo(
+    announcement: Announcement,
+    viewer?: AuthenticatedUser,
+  ): boolean {
+    return (
+      announcement.status !== 'draft' ||
+      (!!viewer && (announcement.authorId === viewer.id || isModerator(viewer)))
+    );
   }
 
-  // Helper method to initialize counter for an announcement
-  private initializeAnnouncementCounters(announcementId: string) {
-    if (!this.reactionCounters.has(announcementId)) {
-      const counters = new Map<string, Set<string>>();
-      counters.set('up', new Set());
-      counters.set('down', new Set());
-      counters.set('heart', new Set());
+  // Helper method to initialize counter for an announcement from the stored reactions
+  private getAnnouncementCounters(
+    announcementId: string,
+  ): Map<string, Set<string>> {
+    let counters = this.reactionCounters.get(announcementId);
+    if (!counters) {
+      counters = new Map<string, Set<string>>();
+      let latest = 0;
+      for (const reaction of this.repository.findReactionsByAnnouncement(
+        announcementId,
+      )) {
+        this.getTypeCounter(counters, reaction.type).add(reaction.userId);
+        latest = Math.max(latest, reaction.createdAt.getTime());
+      }
       this.reactionCounters.set(announcementId, counters);
+      this.latestReactionAt.set(announcementId, latest);
+    }
+    return counters;
+  }
+
+  private getLatestReactionAt(announcementId: string): number {
+    this.getAnnouncementCounters(announcementId);
+    return this.latestReactionAt.get(announcementId) ?? 0;
+  }
+
+  // Types are configurable, so a type's counter is created on its first reaction
+  private getTypeCounter(
+    counters: Map<string, Set<string>>,
+    type: string,
+  ): Set<string> {
+    let counter = counters.get(type);
+    if (!counter) {
+      counter = new Set<string>();
+      counters.set(type, counter);
+    }
+    return counter;
+  }
+
+  private assertReactionTypeEnabled(type: string): void {
+    const enabled = this.boardSettings
+      .getReactionTypes()
+      .filter((reactionType) => reactionType.enabled)
+      .map((reactionType) => reactionType.key);
+    if (!enabled.includes(type)) {
+      throw new BadRequestException(
+        `Reaction type must be one of: ${enabled.join(', ')}`,
+      );
     }
   }
 
   // Simple pointer-based reaction system
   addReaction(announcementId: string, userId: string, createReactionDto: CreateReactionDto): Reaction {
     // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
-    }
+    this.findPublishedAnnouncementOrFail(announcementId);
+    this.assertReactionTypeEnabled(createReactionDto.type);
 
     // Initialize counters for this announcement if not exists
-    this.initializeAnnouncementCounters(announcementId);
-    const counters = this.reactionCounters.get(announcementId)!;
+    const counters = this.getAnnouncementCounters(announcementId);
 
     // Find user's current pointer (current reaction)
-    const currentPointer = this.reactions.find(
-      r => r.announcementId === announcementId && r.userId === userId
-    );
+    const currentPointer = this.repository.findReaction(announcementId, userId);
 
     // Step 1: If user has a current pointer, decrease that counter by 1
     if (currentPointer) {
-      counters.get(currentPointer.type)!.delete(userId);
-      // Remove old reaction from array
-      this.reactions = this.reactions.filter(
-        r => !(r.announcementId === announcementId && r.userId === userId)
-      );
+      counters.get(currentPointer.type)?.delete(userId);
     }
 
     // Step 2: Set pointer to new reaction type and increase counter by 1
@@ -254,40 +1586,61 @@ export class AnnouncementsService {
     };
 
     // Add to counter (increase count by 1)
-    counters.get(createReactionDto.type)!.add(userId);
-
-    // Add to reactions array (set pointer)
-    this.reactions.push(newReaction);
+    this.getTypeCounter(counters, createReactionDto.type).add(userId);
+    this.latestReactionAt.set(
+      announcementId,
+      Math.max(this.getLatestReactionAt(announcementId), now.getTime()),
+    );
 
+    // Replace the stored reaction (set pointer)
+    this.repository.saveReaction(newReaction);
+    this.events.emit({
+      type: 'reaction.changed',
+      announcementId,
+      reactions: this.getReactionBreakdown(announcementId),
+    });
     return newReaction;
   }
 
   removeReaction(announcementId: string, userId: string): void {
     // Check if announcement exists
-    const announcement = this.announcements.find(a => a.id === announcementId);
-    if (!announcement) {
-      throw new NotFoundException(`Announcement with ID ${announcementId} not found`);
-    }
+    this.findAnnouncementOrFail(announcementId);
 
     // Initialize counters if needed
-    this.initializeAnnouncementCounters(announcementId);
-    const counters = this.reactionCounters.get(announcementId)!;
+    const counters = this.getAnnouncementCounters(announcementId);
 
     // Find the user's current pointer (current reaction)
-    const currentPointer = this.reactions.find(r =>
-      r.announcementId === announcementId && r.userId === userId
-    );
+    const currentPointer = this.repository.findReaction(announcementId, userId);
 
     if (!currentPointer) {
       throw new NotFoundException(`No reaction found for user ${userId} on announcement ${announcementId}`);
     }
 
     // Remove pointer: decrease counter by 1 and set pointer to nothing
-    counters.get(currentPointer.type)!.delete(userId);
+    counters.get(currentPointer.type)?.delete(userId);
 
-    // Remove from reactions array (pointer now points to nothing)
-    this.reactions = this.reactions.filter(r =>
-      !(r.announcementId === announcementId && r.userId === userId)
-    );
+    // Remove from storage (pointer now points to nothing)
+    this.repository.deleteReaction(announcementId, userId);
+    // Only losing the newest reaction moves lastActivityAt back
+    if (
+      currentPointer.createdAt.getTime() >=
+      this.getLatestReactionAt(announcementId)
+    ) {
+      this.latestReactionAt.set(
+        announcementId,
+        this.repository
+          .findReactionsByAnnouncement(announcementId)
+          .reduce(
+            (latest, reaction) =>
+              Math.max(latest, reaction.createdAt.getTime()),
+            0,
+          ),
+      );
+    }
+    this.events.emit({
+      type: 'reaction.changed',
+      announcementId,
+      reactions: this.getReactionBreakdown(announcementId),
+    });
   }
 }
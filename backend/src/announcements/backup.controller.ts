@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Post,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { BoardBackupService } from './backup/board-backup.service';
+import { ImportBoardDto, ImportBoardQueryDto } from './dto/import-board.dto';
+import {
+  BoardExportCollection,
+  BoardImportReport,
+} from './interfaces/board-export.interface';
+
+@Controller('backup')
+@Roles('admin')
+export class BackupController {
+  constructor(private readonly boardBackupService: BoardBackupService) {}
+
+  // Everything needed to restore the board with POST /backup/import
+  @Get('export.json')
+  exportJson(): StreamableFile {
+    return this.download(
+      this.boardBackupService.exportJson(),
+      'json',
+      'application/json; charset=utf-8',
+    );
+  }
+
+  @Get('announcements.csv')
+  exportAnnouncements(): StreamableFile {
+    return this.csv('announcements');
+  }
+
+  @Get('comments.csv')
+  exportComments(): StreamableFile {
+    return this.csv('comments');
+  }
+
+  @Get('reactions.csv')
+  exportReactions(): StreamableFile {
+    return this.csv('reactions');
+  }
+
+  // Records keep their IDs; clashes with stored records are skipped and reported
+  @Post('import')
+  @HttpCode(200)
+  import(
+    @Body() importBoardDto: ImportBoardDto,
+    @Query() query: ImportBoardQueryDto,
+  ): BoardImportReport {
+    return this.boardBackupService.importBoard(importBoardDto, query.dryRun);
+  }
+
+  private csv(collection: BoardExportCollection): StreamableFile {
+    return this.download(
+      this.boardBackupService.exportCsv(collection),
+      'csv',
+      'text/csv; charset=utf-8',
+      collection,
+    );
+  }
+
+  private download(
+    chunks: Iterable<string>,
+    extension: string,
+    type: string,
+    name = 'board',
+  ): StreamableFile {
+    const date = new Date().toISOString().slice(0, 10);
+    return new StreamableFile(Readable.from(chunks), {
+      type,
+      disposition: `attachment; filename="${name}-${date}.${extension}"`,
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import { ValidationPipe } from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AnnouncementsService } from '../announcements.service';
+import { ImportBoardDto } from '../dto/import-board.dto';
+import { AnnouncementEventsService } from '../events/announcement-events.service';
+import { CommentModerationService } from '../moderation/comment-moderation.service';
+import { AnnouncementsRepository } from '../repositories/announcements.repository';
+import { FileAnnouncementsRepository } from '../repositories/file-announcements.repository';
+import { InMemoryAnnouncementsRepository } from '../repositories/in-memory-announcements.repository';
+import { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { BoardSettingsService } from '../../board/board-settings.service';
+import { InMemoryBoardSettingsRepository } from '../../board/repositories/in-memory-board-settings.repository';
+import { InMemoryUsersRepository } from '../../users/repositories/in-memory-users.repository';
+import { UsersService } from '../../users/users.service';
+import { BoardBackupService } from './board-backup.service';
+
+const resident: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'resident@example.com',
+  displayName: 'Resident',
+  role: 'resident',
+};
+
+// A board of its own, as on another server
+function createBoard(
+  repository: AnnouncementsRepository = new InMemoryAnnouncementsRepository(),
+): {
+  announcements: AnnouncementsService;
+  backup: BoardBackupService;
+} {
+  const boardSettings = new BoardSettingsService(
+    new InMemoryBoardSettingsRepository(),
+  );
+  const announcements = new AnnouncementsService(
+    repository,
+    new AnnouncementEventsService(),
+    boardSettings,
+    new CommentModerationService([]),
+    new UsersService(new InMemoryUsersRepository()),
+  );
+  return {
+    announcements,
+    backup: new BoardBackupService(repository, announcements, boardSettings),
+  };
+}
+
+// Validated and converted the way the controller receives it
+async function parseExport(json: string): Promise<ImportBoardDto> {
+  const pipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+  });
+  return (await pipe.transform(JSON.parse(json), {
+    type: 'body',
+    metatype: ImportBoardDto,
+  })) as ImportBoardDto;
+}
+
+describe('BoardBackupService', () => {
+  it('restores an export on another board with the same IDs', async () => {
+    const source = createBoard();
+    const announcement = source.announcements.create(
+      { title: 'Lift repair', tags: ['lift'] },
+      resident.id,
+    );
+    const question = source.announcements.addComment(
+      announcement.id,
+      { authorName: 'Asha', text: 'Which floors?' },
+      resident.id,
+    );
+    source.announcements.addComment(
+      announcement.id,
+      { authorName: 'Ravi', text: 'All of them', parentId: question.id },
+      'user-2',
+    );
+    // Deleted comments stay as placeholders so the reply keeps its thread
+    source.announcements.deleteComment(announcement.id, question.id, resident);
+    source.announcements.addReaction(announcement.id, 'user-2', {
+      type: 'up',
+    });
+
+    const json = [...source.backup.exportJson()].join('');
+    const target = createBoard();
+    const report = target.backup.importBoard(await parseExport(json));
+
+    expect(report).toEqual({
+      dryRun: false,
+      imported: { announcements: 1, comments: 2, reactions: 1 },
+      conflicts: [],
+    });
+    const [restored] = target.announcements.findAllWithSummary().announcements;
+    expect(restored).toMatchObject({
+      id: announcement.id,
+      title: 'Lift repair',
+      tags: ['lift'],
+      commentCount: 1,
+      reactions: { up: 1 },
+    });
+    expect(
+      target.announcements.getUserReaction(announcement.id, 'user-2'),
+    ).toEqual({ reaction: 'up' });
+
+    const csv = [...target.backup.exportCsv('comments')].join('');
+    expect(csv.split('\r\n')[0]).toBe(
+      'id,announcementId,parentId,userId,authorName,text,status,moderationReason,createdAt,editedAt,deletedAt',
+    );
+    expect(csv).toContain(`,${question.id},user-2,Ravi,All of them,`);
+  });
+
+  it('reports conflicts in a dry run without writing anything', async () => {
+    const board = createBoard();
+    const announcement = board.announcements.create(
+      { title: 'Parcel room hours' },
+      resident.id,
+    );
+    const exported = JSON.parse([...board.backup.exportJson()].join('')) as {
+      reactions: unknown[];
+    };
+    exported.reactions.push({
+      id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+      announcementId: announcement.id,
+      userId: 'user-2',
+      type: 'confetti',
+      createdAt: new Date().toISOString(),
+    });
+
+    const versionBefore = board.announcements.getListEtag();
+    const report = board.backup.importBoard(
+      await parseExport(JSON.stringify(exported)),
+      true,
+    );
+
+    expect(report).toEqual({
+      dryRun: true,
+      imported: { announcements: 0, comments: 0, reactions: 0 },
+      conflicts: [
+        {
+          collection: 'announcements',
+          id: announcement.id,
+          reason: 'An announcement with this ID already exists',
+        },
+        {
+          collection: 'reactions',
+          id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+          reason: '"confetti" is not one of the board\'s reaction types',
+        },
+      ],
+    });
+    expect(board.announcements.getListEtag()).toBe(versionBefore);
+  });
+
+  it('writes a file-backed board once per import and restores it after a restart', async () => {
+    const source = createBoard();
+    for (const title of ['Lift repair', 'Parcel room hours', 'AGM agenda']) {
+      const announcement = source.announcements.create({ title }, resident.id);
+      source.announcements.addComment(
+        announcement.id,
+        { authorName: 'Asha', text: 'Thanks' },
+        resident.id,
+      );
+      source.announcements.addReaction(announcement.id, 'user-2', {
+        type: 'heart',
+      });
+    }
+    const importBoardDto = await parseExport(
+      [...source.backup.exportJson()].join(''),
+    );
+
+    const dataDir = mkdtempSync(join(tmpdir(), 'board-backup-'));
+    try {
+      const filePath = join(dataDir, 'announcements.json');
+      const target = createBoard(new FileAnnouncementsRepository(filePath));
+      const write = jest.spyOn(JsonFileStore.prototype, 'write');
+      const report = target.backup.importBoard(importBoardDto);
+      expect(write).toHaveBeenCalledTimes(1);
+      write.mockRestore();
+
+      expect(report.imported).toEqual({
+        announcements: 3,
+        comments: 3,
+        reactions: 3,
+      });
+
+      const restarted = createBoard(new FileAnnouncementsRepository(filePath));
+      const { announcements } = restarted.announcements.findAllWithSummary();
+      expect(announcements).toHaveLength(3);
+      expect(
+        announcements.find(
+          (announcement) => announcement.title === 'AGM agenda',
+        ),
+      ).toMatchObject({ commentCount: 1, reactions: { heart: 1 } });
+      expect([...restarted.backup.exportCsv('reactions')]).toHaveLength(4);
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
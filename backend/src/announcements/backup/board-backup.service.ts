@@ -0,0 +1,327 @@
+import { Injectable } from '@nestjs/common';
+import { AnnouncementsService } from '../announcements.service';
+import {
+  ImportBoardDto,
+  ImportedAnnouncementDto,
+  ImportedCommentDto,
+  ImportedReactionDto,
+} from '../dto/import-board.dto';
+import { Announcement } from '../interfaces/announcement.interface';
+import {
+  BOARD_EXPORT_VERSION,
+  BoardExportCollection,
+  BoardImportConflict,
+  BoardImportReport,
+} from '../interfaces/board-export.interface';
+import { Comment } from '../interfaces/comment.interface';
+import { Reaction } from '../interfaces/reaction.interface';
+import { AnnouncementsRepository } from '../repositories/announcements.repository';
+import { BoardSettingsService } from '../../board/board-settings.service';
+import { CsvValue, formatCsvRow } from './csv';
+
+// Columns of each CSV export, in order
+const CSV_COLUMNS = {
+  announcements: [
+    'id',
+    'title',
+    'description',
+    'status',
+    'authorId',
+    'pinned',
+    'priority',
+    'category',
+    'tags',
+    'maxCommentsPerUser',
+    'version',
+    'updateCount',
+    'publishAt',
+    'publishedAt',
+    'expiresAt',
+    'closedReason',
+    'createdAt',
+    'editedAt',
+    'statusChangedAt',
+  ],
+  comments: [
+    'id',
+    'announcementId',
+    'parentId',
+    'userId',
+    'authorName',
+    'text',
+    'status',
+    'moderationReason',
+    'createdAt',
+    'editedAt',
+    'deletedAt',
+  ],
+  reactions: ['id', 'announcementId', 'userId', 'type', 'createdAt'],
+} satisfies Record<BoardExportCollection, string[]>;
+
+/**
+ * Moves the board's announcements, comments and reactions in and out of the
+ * service. Exports are generated record by record so they can be streamed;
+ * imports keep every record's ID and skip, rather than overwrite, anything
+ * that clashes with what is already stored.
+ */
+@Injectable()
+export class BoardBackupService {
+  constructor(
+    private readonly repository: AnnouncementsRepository,
+    private readonly announcementsService: AnnouncementsService,
+    private readonly boardSettings: BoardSettingsService,
+  ) {}
+
+  // The whole board as one JSON document, in the shape ImportBoardDto accepts
+  *exportJson(): Generator<string> {
+    yield `{"version":${BOARD_EXPORT_VERSION},"exportedAt":${JSON.stringify(new Date())}`;
+    for (const collection of [
+      'announcements',
+      'comments',
+      'reactions',
+    ] as const) {
+      yield `,${JSON.stringify(collection)}:[`;
+      let first = true;
+      for (const record of this.records(collection)) {
+        yield (first ? '' : ',') + JSON.stringify(record);
+        first = false;
+      }
+      yield ']';
+    }
+    yield '}\n';
+  }
+
+  // One collection as CSV with a header row; tags are joined with semicolons
+  *exportCsv(collection: BoardExportCollection): Generator<string> {
+    const columns: string[] = CSV_COLUMNS[collection];
+    yield formatCsvRow(columns);
+    for (const record of this.records(collection)) {
+      const values = record as unknown as Record<string, CsvValue | string[]>;
+      yield formatCsvRow(
+        columns.map((column) => {
+          const value = values[column];
+          return Array.isArray(value) ? value.join(';') : value;
+        }),
+      );
+    }
+  }
+
+  importBoard(
+    importBoardDto: ImportBoardDto,
+    dryRun = false,
+  ): BoardImportReport {
+    const conflicts: BoardImportConflict[] = [];
+    const skip = (
+      collection: BoardExportCollection,
+      id: string,
+      reason: string,
+    ) => {
+      conflicts.push({ collection, id, reason });
+    };
+
+    const announcements: Announcement[] = [];
+    const storedAnnouncementIds = this.storedIds('announcements');
+    const announcementIds = new Set(storedAnnouncementIds);
+    for (const dto of importBoardDto.announcements) {
+      if (announcementIds.has(dto.id)) {
+        skip(
+          'announcements',
+          dto.id,
+          storedAnnouncementIds.has(dto.id)
+            ? 'An announcement with this ID already exists'
+            : 'This ID appears more than once in the import',
+        );
+        continue;
+      }
+      announcementIds.add(dto.id);
+      announcements.push(this.toAnnouncement(dto));
+    }
+
+    // Top-level comments first, so replies can find the comment they answer
+    const comments: Comment[] = [];
+    const commentsById = new Map<string, Comment>();
+    const storedCommentIds = this.storedIds('comments');
+    const ordered = [...importBoardDto.comments].sort(
+      (a, b) => Number(!!a.parentId) - Number(!!b.parentId),
+    );
+    for (const dto of ordered) {
+      if (storedCommentIds.has(dto.id)) {
+        skip('comments', dto.id, 'A comment with this ID already exists');
+        continue;
+      }
+      if (commentsById.has(dto.id)) {
+        skip(
+          'comments',
+          dto.id,
+          'This ID appears more than once in the import',
+        );
+        continue;
+      }
+      if (!announcementIds.has(dto.announcementId)) {
+        skip(
+          'comments',
+          dto.id,
+          `Announcement ${dto.announcementId} is neither on the board nor in the import`,
+        );
+        continue;
+      }
+      if (dto.parentId) {
+        const parent =
+          commentsById.get(dto.parentId) ??
+          this.repository.findCommentById(dto.announcementId, dto.parentId);
+        if (
+          !parent ||
+          parent.announcementId !== dto.announcementId ||
+          parent.parentId
+        ) {
+          skip(
+            'comments',
+            dto.id,
+            `Comment ${dto.parentId} is not a top-level comment on the same announcement`,
+          );
+          continue;
+        }
+      }
+      const comment = this.toComment(dto);
+      commentsById.set(comment.id, comment);
+      comments.push(comment);
+    }
+
+    // Disabled types still count, so only types the board has never had are refused
+    const reactionTypes = new Set(
+      this.boardSettings.getReactionTypes().map((type) => type.key),
+    );
+    const reactions: Reaction[] = [];
+    const storedReactionIds = this.storedIds('reactions');
+    const reactionIds = new Set<string>();
+    const reactors = new Set<string>();
+    for (const dto of importBoardDto.reactions) {
+      const reactor = `${dto.announcementId}:${dto.userId}`;
+      if (storedReactionIds.has(dto.id)) {
+        skip('reactions', dto.id, 'A reaction with this ID already exists');
+      } else if (reactionIds.has(dto.id)) {
+        skip(
+          'reactions',
+          dto.id,
+          'This ID appears more than once in the import',
+        );
+      } else if (!announcementIds.has(dto.announcementId)) {
+        skip(
+          'reactions',
+          dto.id,
+          `Announcement ${dto.announcementId} is neither on the board nor in the import`,
+        );
+      } else if (
+        reactors.has(reactor) ||
+        this.repository.findReaction(dto.announcementId, dto.userId)
+      ) {
+        skip(
+          'reactions',
+          dto.id,
+          `User ${dto.userId} already has a reaction on this announcement`,
+        );
+      } else if (!reactionTypes.has(dto.type)) {
+        skip(
+          'reactions',
+          dto.id,
+          `"${dto.type}" is not one of the board's reaction types`,
+        );
+      } else {
+        reactionIds.add(dto.id);
+        reactors.add(reactor);
+        reactions.push(this.toReaction(dto));
+      }
+    }
+
+    if (!dryRun) {
+      this.repository.saveAll({ announcements, comments, reactions });
+      this.announcementsService.forgetAggregates([
+        ...comments.map((comment) => comment.announcementId),
+        ...reactions.map((reaction) => reaction.announcementId),
+      ]);
+    }
+
+    return {
+      dryRun,
+      imported: {
+        announcements: announcements.length,
+        comments: comments.length,
+        reactions: reactions.length,
+      },
+      conflicts,
+    };
+  }
+
+  private *records(
+    collection: BoardExportCollection,
+  ): Generator<Announcement | Comment | Reaction> {
+    for (const announcement of this.repository.findAllAnnouncements()) {
+      switch (collection) {
+        case 'announcements':
+          yield announcement;
+          break;
+        case 'comments':
+          yield* this.repository.findCommentsByAnnouncement(announcement.id);
+          break;
+        case 'reactions':
+          yield* this.repository.findReactionsByAnnouncement(announcement.id);
+          break;
+      }
+    }
+  }
+
+  private storedIds(collection: BoardExportCollection): Set<string> {
+    return new Set(Array.from(this.records(collection), (record) => record.id));
+  }
+
+  // Copies the known fields only, so nothing a DTO instance carries ends up in storage
+  private toAnnouncement(dto: ImportedAnnouncementDto): Announcement {
+    return {
+      id: dto.id,
+      title: dto.title,
+      description: dto.description,
+      status: dto.status,
+      authorId: dto.authorId,
+      maxCommentsPerUser: dto.maxCommentsPerUser,
+      pinned: dto.pinned,
+      priority: dto.priority,
+      category: dto.category,
+      tags: dto.tags,
+      version: dto.version,
+      updateCount: dto.updateCount,
+      publishAt: dto.publishAt,
+      publishedAt: dto.publishedAt,
+      expiresAt: dto.expiresAt,
+      closedReason: dto.closedReason,
+      createdAt: dto.createdAt,
+      editedAt: dto.editedAt,
+      statusChangedAt: dto.statusChangedAt,
+    };
+  }
+
+  private toComment(dto: ImportedCommentDto): Comment {
+    return {
+      id: dto.id,
+      announcementId: dto.announcementId,
+      parentId: dto.parentId,
+      userId: dto.userId,
+      authorName: dto.authorName,
+      text: dto.text,
+      status: dto.status,
+      moderationReason: dto.moderationReason,
+      createdAt: dto.createdAt,
+      editedAt: dto.editedAt,
+      deletedAt: dto.deletedAt,
+    };
+  }
+
+  private toReaction(dto: ImportedReactionDto): Reaction {
+    return {
+      id: dto.id,
+      announcementId: dto.announcementId,
+      userId: dto.userId,
+      type: dto.type,
+      createdAt: dto.createdAt,
+    };
+  }
+}
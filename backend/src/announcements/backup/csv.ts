@@ -0,0 +1,20 @@
+export type CsvValue = string | number | boolean | Date | undefined;
+
+// Cells starting like this would run as formulas when opened in a spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvCell(value: CsvValue): string {
+  if (value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One RFC 4180 line, ending in CRLF
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatCsvCell).join(',') + '\r\n';
+}
@@ -1,4 +1,25 @@
-import { IsString, IsNotEmpty, IsOptional, MaxLength, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  MinLength,
+  IsInt,
+  Min,
+  Max,
+  IsDate,
+  IsBoolean,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+} from 'class-validator';
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  ANNOUNCEMENT_PRIORITIES,
+  AnnouncementCategory,
+  AnnouncementPriority,
+} from '../interfaces/announcement.interface';
 
 export class CreateAnnouncementDto {
   @IsString()
@@ -11,4 +32,48 @@ export class CreateAnnouncementDto {
   @IsOptional()
   @MaxLength(1000, { message: 'Description cannot exceed 1000 characters' })
   description?: string;
+
+  @IsInt({ message: 'Comment limit must be a whole number' })
+  @IsOptional()
+  @Min(1, { message: 'Comment limit must be at least 1' })
+  @Max(100, { message: 'Comment limit cannot exceed 100' })
+  maxCommentsPerUser?: number;
+
+  @IsEnum(ANNOUNCEMENT_PRIORITIES, {
+    message: `Priority must be one of: ${ANNOUNCEMENT_PRIORITIES.join(', ')}`,
+  })
+  @IsOptional()
+  priority?: AnnouncementPriority;
+
+  @IsEnum(ANNOUNCEMENT_CATEGORIES, {
+    message: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}`,
+  })
+  @IsOptional()
+  category?: AnnouncementCategory;
+
+  // Free-form labels, stored lowercase
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'At most 5 tags are allowed' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(30, { each: true, message: 'Tags cannot exceed 30 characters' })
+  @IsOptional()
+  tags?: string[];
+
+  // Save without publishing; drafts are visible only to the author and committee members
+  @IsBoolean()
+  @IsOptional()
+  draft?: boolean;
+
+  // ISO 8601 date in the future; saves a draft that publishes itself at that time
+  @Type(() => Date)
+  @IsDate({ message: 'publishAt must be a valid date' })
+  @IsOptional()
+  publishAt?: Date;
+
+  // ISO 8601 date in the future; the announcement closes itself once it passes
+  @Type(() => Date)
+  @IsDate({ message: 'expiresAt must be a valid date' })
+  @IsOptional()
+  expiresAt?: Date;
 }
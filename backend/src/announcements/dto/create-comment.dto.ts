@@ -1,4 +1,11 @@
-import { IsString, IsNotEmpty, MaxLength, MinLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
 
 export class CreateCommentDto {
   @IsString()
@@ -12,4 +19,9 @@ export class CreateCommentDto {
   @MinLength(1, { message: 'Comment text must be at least 1 character long' })
   @MaxLength(500, { message: 'Comment text cannot exceed 500 characters' })
   text: string;
+
+  // Reply to this comment; replies to a reply join the same thread
+  @IsUUID('4', { message: 'parentId must be a comment ID' })
+  @IsOptional()
+  parentId?: string;
 }
\ No newline at end of file
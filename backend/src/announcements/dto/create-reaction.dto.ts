@@ -1,7 +1,8 @@
-import { IsEnum, IsNotEmpty } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class CreateReactionDto {
-  @IsEnum(['up', 'down', 'heart'], { message: 'Reaction type must be one of: up, down, heart' })
-  @IsNotEmpty()
-  type: 'up' | 'down' | 'heart';
-}
\ No newline at end of file
+  // Checked against the board's enabled reaction types
+  @IsString()
+  @IsNotEmpty({ message: 'Reaction type is required' })
+  type: string;
+}
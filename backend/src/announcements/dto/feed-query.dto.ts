@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  ANNOUNCEMENT_PRIORITIES,
+  AnnouncementCategory,
+  AnnouncementPriority,
+} from '../interfaces/announcement.interface';
+
+// Narrows a feed the same way the list filters do; feeds are always newest first
+export class FeedQueryDto {
+  @IsEnum(ANNOUNCEMENT_PRIORITIES, {
+    message: `Priority must be one of: ${ANNOUNCEMENT_PRIORITIES.join(', ')}`,
+  })
+  @IsOptional()
+  priority?: AnnouncementPriority;
+
+  @IsEnum(ANNOUNCEMENT_CATEGORIES, {
+    message: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}`,
+  })
+  @IsOptional()
+  category?: AnnouncementCategory;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(30)
+  tag?: string;
+
+  // Entries in RSS and Atom feeds; calendars carry every dated announcement
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be a whole number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,178 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  Equals,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { AnnouncementStatus } from '../interfaces/announcement.interface';
+import { CommentStatus } from '../interfaces/comment.interface';
+import { BOARD_EXPORT_VERSION } from '../interfaces/board-export.interface';
+import { CreateAnnouncementDto } from './create-announcement.dto';
+import { CreateCommentDto } from './create-comment.dto';
+import { CreateReactionDto } from './create-reaction.dto';
+
+// Largest export accepted in one request, per collection
+const MAX_IMPORT_RECORDS = 10000;
+
+// Exported records carry what the service would have set on top of what a resident sent
+export class ImportedAnnouncementDto extends CreateAnnouncementDto {
+  @IsUUID('4', { message: 'Announcement id must be a UUID' })
+  id: string;
+
+  @IsEnum(['draft', 'active', 'closed'], {
+    message: 'Status must be one of: draft, active, closed',
+  })
+  status: AnnouncementStatus;
+
+  @IsString()
+  @IsOptional()
+  authorId?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  pinned?: boolean;
+
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  updateCount?: number;
+
+  @Type(() => Date)
+  @IsDate({ message: 'publishedAt must be a valid date' })
+  @IsOptional()
+  publishedAt?: Date;
+
+  @IsEnum(['expired', 'inactive'], {
+    message: 'closedReason must be either expired or inactive',
+  })
+  @IsOptional()
+  closedReason?: 'expired' | 'inactive';
+
+  @Type(() => Date)
+  @IsDate({ message: 'createdAt must be a valid date' })
+  createdAt: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'editedAt must be a valid date' })
+  @IsOptional()
+  editedAt?: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'statusChangedAt must be a valid date' })
+  @IsOptional()
+  statusChangedAt?: Date;
+}
+
+export class ImportedCommentDto extends CreateCommentDto {
+  @IsUUID('4', { message: 'Comment id must be a UUID' })
+  id: string;
+
+  @IsUUID('4', { message: 'announcementId must be an announcement ID' })
+  announcementId: string;
+
+  // Deleted comments are kept as empty placeholders, which a new comment couldn't be
+  @ValidateIf((comment: ImportedCommentDto) => !comment.deletedAt)
+  declare authorName: string;
+
+  @ValidateIf((comment: ImportedCommentDto) => !comment.deletedAt)
+  declare text: string;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(['published', 'pending', 'hidden'], {
+    message: 'Comment status must be one of: published, pending, hidden',
+  })
+  @IsOptional()
+  status?: CommentStatus;
+
+  @IsString()
+  @IsOptional()
+  moderationReason?: string;
+
+  @Type(() => Date)
+  @IsDate({ message: 'createdAt must be a valid date' })
+  createdAt: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'editedAt must be a valid date' })
+  @IsOptional()
+  editedAt?: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'deletedAt must be a valid date' })
+  @IsOptional()
+  deletedAt?: Date;
+}
+
+export class ImportedReactionDto extends CreateReactionDto {
+  @IsUUID('4', { message: 'Reaction id must be a UUID' })
+  id: string;
+
+  @IsUUID('4', { message: 'announcementId must be an announcement ID' })
+  announcementId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @Type(() => Date)
+  @IsDate({ message: 'createdAt must be a valid date' })
+  createdAt: Date;
+}
+
+// The body of GET /backup/export.json, sent back as is
+export class ImportBoardDto {
+  @Equals(BOARD_EXPORT_VERSION, {
+    message: `Only version ${BOARD_EXPORT_VERSION} exports can be imported`,
+  })
+  version: number;
+
+  // Informational; accepted so an export can be posted unchanged
+  @Type(() => Date)
+  @IsDate({ message: 'exportedAt must be a valid date' })
+  @IsOptional()
+  exportedAt?: Date;
+
+  @IsArray()
+  @ArrayMaxSize(MAX_IMPORT_RECORDS)
+  @ValidateNested({ each: true })
+  @Type(() => ImportedAnnouncementDto)
+  announcements: ImportedAnnouncementDto[];
+
+  @IsArray()
+  @ArrayMaxSize(MAX_IMPORT_RECORDS)
+  @ValidateNested({ each: true })
+  @Type(() => ImportedCommentDto)
+  comments: ImportedCommentDto[];
+
+  @IsArray()
+  @ArrayMaxSize(MAX_IMPORT_RECORDS)
+  @ValidateNested({ each: true })
+  @Type(() => ImportedReactionDto)
+  reactions: ImportedReactionDto[];
+}
+
+export class ImportBoardQueryDto {
+  // Check the export and report conflicts without writing anything
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
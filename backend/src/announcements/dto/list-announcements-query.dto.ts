@@ -0,0 +1,90 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  ANNOUNCEMENT_PRIORITIES,
+  AnnouncementCategory,
+  AnnouncementPriority,
+  AnnouncementStatus,
+} from '../interfaces/announcement.interface';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export const ANNOUNCEMENT_SORTS = [
+  'newest',
+  'activity',
+  'most_reactions',
+  'most_comments',
+] as const;
+export type AnnouncementSort = (typeof ANNOUNCEMENT_SORTS)[number];
+
+export class ListAnnouncementsQueryDto extends PaginationQueryDto {
+  // Full-text search over title and description; every word must match
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: 'Search query cannot exceed 200 characters' })
+  q?: string;
+
+  // Also search comment text
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  includeComments?: boolean;
+
+  // Drafts are only listed for their author and committee members
+  @IsEnum(['draft', 'active', 'closed'], {
+    message: 'Status must be one of: draft, active, closed',
+  })
+  @IsOptional()
+  status?: AnnouncementStatus;
+
+  @IsEnum(ANNOUNCEMENT_PRIORITIES, {
+    message: `Priority must be one of: ${ANNOUNCEMENT_PRIORITIES.join(', ')}`,
+  })
+  @IsOptional()
+  priority?: AnnouncementPriority;
+
+  @IsEnum(ANNOUNCEMENT_CATEGORIES, {
+    message: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}`,
+  })
+  @IsOptional()
+  category?: AnnouncementCategory;
+
+  // Matches announcements carrying this tag (case-insensitive)
+  @IsString()
+  @IsOptional()
+  @MaxLength(30)
+  tag?: string;
+
+  @Type(() => Date)
+  @IsDate({ message: 'createdFrom must be a valid date' })
+  @IsOptional()
+  createdFrom?: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'createdTo must be a valid date' })
+  @IsOptional()
+  createdTo?: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'activityFrom must be a valid date' })
+  @IsOptional()
+  activityFrom?: Date;
+
+  @Type(() => Date)
+  @IsDate({ message: 'activityTo must be a valid date' })
+  @IsOptional()
+  activityTo?: Date;
+
+  @IsEnum(ANNOUNCEMENT_SORTS, {
+    message: `Sort must be one of: ${ANNOUNCEMENT_SORTS.join(', ')}`,
+  })
+  @IsOptional()
+  sort?: AnnouncementSort;
+}
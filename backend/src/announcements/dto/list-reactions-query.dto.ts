@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export class ListReactionsQueryDto extends PaginationQueryDto {
+  // Only reactions of this type key, e.g. "heart"
+  @IsString()
+  @MaxLength(20)
+  @IsOptional()
+  type?: string;
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+
+export const MODERATION_DECISIONS = ['approve', 'hide', 'delete'] as const;
+export type ModerationDecision = (typeof MODERATION_DECISIONS)[number];
+
+export class ModerateCommentDto {
+  @IsEnum(MODERATION_DECISIONS, {
+    message: `Action must be one of: ${MODERATION_DECISIONS.join(', ')}`,
+  })
+  @IsNotEmpty()
+  action: ModerationDecision;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ReportCommentDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(200, { message: 'Report reason cannot exceed 200 characters' })
+  reason?: string;
+}
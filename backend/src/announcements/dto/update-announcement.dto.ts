@@ -1,7 +1,77 @@
-import { IsEnum, IsNotEmpty } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  ANNOUNCEMENT_PRIORITIES,
+  AnnouncementCategory,
+  AnnouncementPriority,
+} from '../interfaces/announcement.interface';
 
 export class UpdateAnnouncementDto {
   @IsEnum(['active', 'closed'], { message: 'Status must be either active or closed' })
+  @IsOptional()
+  status?: 'active' | 'closed';
+
+  @IsString()
   @IsNotEmpty()
-  status: 'active' | 'closed';
+  @IsOptional()
+  @MinLength(1, { message: 'Title must be at least 1 character long' })
+  @MaxLength(200, { message: 'Title cannot exceed 200 characters' })
+  title?: string;
+
+  // An empty string removes the description
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000, { message: 'Description cannot exceed 1000 characters' })
+  description?: string;
+
+  // Committee members only
+  @IsBoolean()
+  @IsOptional()
+  pinned?: boolean;
+
+  @IsEnum(ANNOUNCEMENT_PRIORITIES, {
+    message: `Priority must be one of: ${ANNOUNCEMENT_PRIORITIES.join(', ')}`,
+  })
+  @IsOptional()
+  priority?: AnnouncementPriority;
+
+  // null removes the category
+  @IsEnum(ANNOUNCEMENT_CATEGORIES, {
+    message: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}`,
+  })
+  @IsOptional()
+  category?: AnnouncementCategory | null;
+
+  // Free-form labels, stored lowercase
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'At most 5 tags are allowed' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(30, { each: true, message: 'Tags cannot exceed 30 characters' })
+  @IsOptional()
+  tags?: string[];
+
+  // Reschedules a draft; null leaves it unscheduled
+  @Type(() => Date)
+  @IsDate({ message: 'publishAt must be a valid date' })
+  @IsOptional()
+  publishAt?: Date | null;
+
+  // null removes the expiry date
+  @Type(() => Date)
+  @IsDate({ message: 'expiresAt must be a valid date' })
+  @IsOptional()
+  expiresAt?: Date | null;
 }
@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty, MaxLength, MinLength } from 'class-validator';
+
+export class UpdateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(1, { message: 'Comment text must be at least 1 character long' })
+  @MaxLength(500, { message: 'Comment text cannot exceed 500 characters' })
+  text: string;
+}
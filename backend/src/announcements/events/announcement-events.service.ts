@@ -0,0 +1,25 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { BoardEvent } from '../interfaces/board-event.interface';
+
+/**
+ * In-process bus for board activity. AnnouncementsService publishes
+ * after each successful write; the SSE endpoint and other listeners subscribe.
+ */
+@Injectable()
+export class AnnouncementEventsService implements OnModuleDestroy {
+  private readonly events$ = new Subject<BoardEvent>();
+
+  emit(event: BoardEvent): void {
+    this.events$.next(event);
+  }
+
+  stream(): Observable<BoardEvent> {
+    return this.events$.asObservable();
+  }
+
+  onModuleDestroy(): void {
+    // Completes open SSE responses so shutdown isn't held up
+    this.events$.complete();
+  }
+}
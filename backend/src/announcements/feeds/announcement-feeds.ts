@@ -0,0 +1,206 @@
+import { AnnouncementSummary } from '../interfaces/announcement-summary.interface';
+import { FeedConfig } from './feed.config';
+
+export type FeedFormat = 'rss' | 'atom' | 'ics';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+};
+
+export function formatFeed(
+  format: FeedFormat,
+  announcements: AnnouncementSummary[],
+  config: FeedConfig,
+): string {
+  switch (format) {
+    case 'rss':
+      return formatRssFeed(announcements, config);
+    case 'atom':
+      return formatAtomFeed(announcements, config);
+    case 'ics':
+      return formatIcsCalendar(announcements, config);
+  }
+}
+
+// The board has no page per announcement, so entries link to their place in the list
+export function announcementLink(id: string, config: FeedConfig): string {
+  return `${config.appUrl}/#announcement-${id}`;
+}
+
+// When the announcement last changed in a way a reader would notice
+function updatedAt(announcement: AnnouncementSummary): Date {
+  return (
+    announcement.editedAt ?? announcement.publishedAt ?? announcement.createdAt
+  );
+}
+
+function lastUpdated(announcements: AnnouncementSummary[]): Date {
+  const times = announcements.map((announcement) =>
+    updatedAt(announcement).getTime(),
+  );
+  return new Date(times.length > 0 ? Math.max(...times) : 0);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function formatRssFeed(
+  announcements: AnnouncementSummary[],
+  config: FeedConfig,
+): string {
+  const items = announcements.map((announcement) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(announcement.title)}</title>`,
+      `      <link>${escapeXml(announcementLink(announcement.id, config))}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(announcement.id)}</guid>`,
+      `      <pubDate>${(announcement.publishedAt ?? announcement.createdAt).toUTCString()}</pubDate>`,
+      ...(announcement.description
+        ? [
+            `      <description>${escapeXml(announcement.description)}</description>`,
+          ]
+        : []),
+      ...(announcement.category
+        ? [`      <category>${escapeXml(announcement.category)}</category>`]
+        : []),
+      '    </item>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(config.title)}</title>`,
+    `    <link>${escapeXml(config.appUrl)}</link>`,
+    `    <description>${escapeXml(`Announcements from ${config.title}`)}</description>`,
+    `    <atom:link href="${escapeXml(`${config.apiUrl}/announcements/feed.rss`)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${lastUpdated(announcements).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function formatAtomFeed(
+  announcements: AnnouncementSummary[],
+  config: FeedConfig,
+): string {
+  const selfUrl = `${config.apiUrl}/announcements/feed.atom`;
+  const entries = announcements.map((announcement) =>
+    [
+      '  <entry>',
+      `    <title>${escapeXml(announcement.title)}</title>`,
+      `    <link href="${escapeXml(announcementLink(announcement.id, config))}"/>`,
+      `    <id>urn:announcement:${escapeXml(announcement.id)}</id>`,
+      `    <published>${(announcement.publishedAt ?? announcement.createdAt).toISOString()}</published>`,
+      `    <updated>${updatedAt(announcement).toISOString()}</updated>`,
+      ...(announcement.description
+        ? [`    <summary>${escapeXml(announcement.description)}</summary>`]
+        : []),
+      ...(announcement.category
+        ? [`    <category term="${escapeXml(announcement.category)}"/>`]
+        : []),
+      '  </entry>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(config.title)}</title>`,
+    `  <id>${escapeXml(selfUrl)}</id>`,
+    `  <link href="${escapeXml(config.appUrl)}"/>`,
+    `  <link href="${escapeXml(selfUrl)}" rel="self" type="application/atom+xml"/>`,
+    `  <updated>${lastUpdated(announcements).toISOString()}</updated>`,
+    // Atom requires an author on the feed when entries have none
+    `  <author><name>${escapeXml(config.title)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// 20240304T150700Z
+function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * One event per announcement that carries an expiry, at the moment it
+ * expires. SEQUENCE follows updateCount, so calendars pick up changes.
+ */
+export function formatIcsCalendar(
+  announcements: AnnouncementSummary[],
+  config: FeedConfig,
+): string {
+  const host = new URL(config.appUrl).hostname;
+  const events = announcements
+    .filter((announcement) => announcement.expiresAt)
+    .map((announcement) => [
+      'BEGIN:VEVENT',
+      `UID:announcement-${announcement.id}@${host}`,
+      `DTSTAMP:${formatIcsDate(updatedAt(announcement))}`,
+      `DTSTART:${formatIcsDate(announcement.expiresAt!)}`,
+      `SEQUENCE:${announcement.updateCount}`,
+      `SUMMARY:${escapeIcsText(announcement.title)}`,
+      ...(announcement.description
+        ? [`DESCRIPTION:${escapeIcsText(announcement.description)}`]
+        : []),
+      ...(announcement.category
+        ? [`CATEGORIES:${escapeIcsText(announcement.category)}`]
+        : []),
+      `URL:${announcementLink(announcement.id, config)}`,
+      'END:VEVENT',
+    ]);
+
+  return (
+    [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:-//${escapeIcsText(config.title)}//Announcements//EN`,
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${escapeIcsText(config.title)}`,
+      ...events.flat(),
+      'END:VCALENDAR',
+    ]
+      .map(foldIcsLine)
+      .join('\r\n') + '\r\n'
+  );
+}
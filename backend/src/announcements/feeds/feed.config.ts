@@ -0,0 +1,15 @@
+export interface FeedConfig {
+  title: string;
+  appUrl: string; // Where feed entries link to
+  apiUrl: string; // Where the feeds themselves are served, for self links
+}
+
+export function getFeedConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): FeedConfig {
+  return {
+    title: env.FEED_TITLE || 'Notice Board',
+    appUrl: (env.APP_URL || 'http://localhost:5173').replace(/\/$/, ''),
+    apiUrl: (env.API_URL || 'http://localhost:4000').replace(/\/$/, ''),
+  };
+}
@@ -0,0 +1,8 @@
+import { AnnouncementSummary } from './announcement-summary.interface';
+import { CommentThread } from './comment.interface';
+
+// One announcement with the first page of its comments, for deep links
+export interface AnnouncementDetail extends AnnouncementSummary {
+  comments: CommentThread[]; // Newest first
+  nextCommentsCursor?: string; // Continue with GET /announcements/:id/comments
+}
@@ -0,0 +1,25 @@
+import { WordDiffSegment } from '../../common/diff/word-diff';
+
+// Snapshot of an announcement's content as of one version
+export interface AnnouncementRevision {
+  id: string;
+  announcementId: string;
+  version: number;
+  title: string;
+  description?: string;
+  editorId?: string;
+  editorName?: string;
+  createdAt: Date;
+}
+
+export interface RevisionFieldChange {
+  field: 'title' | 'description';
+  before?: string;
+  after?: string;
+  diff: WordDiffSegment[];
+}
+
+// A revision together with what changed since the version before it
+export interface AnnouncementRevisionWithChanges extends AnnouncementRevision {
+  changes: RevisionFieldChange[];
+}
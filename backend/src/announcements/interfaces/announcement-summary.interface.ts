@@ -1,16 +1,33 @@
-export interface ReactionBreakdown {
-  up: number;
-  down: number;
-  heart: number;
-}
+import {
+  AnnouncementCategory,
+  AnnouncementPriority,
+  AnnouncementStatus,
+} from './announcement.interface';
+
+// Count per reaction type key, covering every type the board has configured
+export type ReactionBreakdown = Record<string, number>;
 
 export interface AnnouncementSummary {
   id: string;
   title: string;
   description?: string;
-  status: 'active' | 'closed';
+  status: AnnouncementStatus;
+  authorId?: string;
+  maxCommentsPerUser: number;
+  pinned: boolean;
+  priority: AnnouncementPriority;
+  category?: AnnouncementCategory;
+  tags: string[];
+  version: number;
+  updateCount: number;
+  publishAt?: Date;
+  publishedAt?: Date;
+  expiresAt?: Date;
+  closedReason?: 'expired' | 'inactive';
   createdAt: Date;
+  editedAt?: Date;
   commentCount: number;
   reactions: ReactionBreakdown;
+  myReaction?: string; // The signed-in viewer's reaction type; only on list responses
   lastActivityAt: Date;
 }
\ No newline at end of file
@@ -1,7 +1,41 @@
+// Drafts are only visible to their author and committee members until published
+export type AnnouncementStatus = 'draft' | 'active' | 'closed';
+
+export const ANNOUNCEMENT_PRIORITIES = [
+  'normal',
+  'important',
+  'urgent',
+] as const;
+export type AnnouncementPriority = (typeof ANNOUNCEMENT_PRIORITIES)[number];
+
+export const ANNOUNCEMENT_CATEGORIES = [
+  'general',
+  'maintenance',
+  'security',
+  'events',
+  'meetings',
+  'lost-and-found',
+] as const;
+export type AnnouncementCategory = (typeof ANNOUNCEMENT_CATEGORIES)[number];
+
 export interface Announcement {
   id: string;
   title: string;
   description?: string;
-  status: 'active' | 'closed';
+  status: AnnouncementStatus;
+  authorId?: string; // Missing on announcements created before sign-in existed
+  maxCommentsPerUser?: number; // Falls back to the board-wide default when unset
+  pinned?: boolean; // Pinned announcements list above everything else
+  priority?: AnnouncementPriority; // Treated as normal when unset
+  category?: AnnouncementCategory;
+  tags?: string[]; // Lowercase, unique
+  version: number; // Bumped on every title or description edit
+  updateCount?: number; // Bumped on every change of any kind; the part of its ETag If-Match compares. Missing counts as 0
+  publishAt?: Date; // Drafts with this set are published automatically once it passes
+  publishedAt?: Date;
+  expiresAt?: Date; // Closed automatically once this passes
+  closedReason?: 'expired' | 'inactive'; // Set when closed automatically rather than by a person
   createdAt: Date;
+  editedAt?: Date;
+  statusChangedAt?: Date;
 }
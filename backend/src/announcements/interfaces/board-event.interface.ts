@@ -0,0 +1,99 @@
+import {
+  AnnouncementSummary,
+  ReactionBreakdown,
+} from './announcement-summary.interface';
+import {
+  AnnouncementCategory,
+  AnnouncementPriority,
+} from './announcement.interface';
+import { Comment } from './comment.interface';
+
+export interface AnnouncementCreatedEvent {
+  type: 'announcement.created';
+  announcement: AnnouncementSummary;
+}
+
+export interface AnnouncementStatusChangedEvent {
+  type: 'announcement.status_changed';
+  announcementId: string;
+  status: 'active' | 'closed';
+  reason?: 'expired' | 'inactive'; // Present when the scheduler closed it
+  updateCount: number;
+}
+
+// Content, pin, priority or category changes on a published announcement
+export interface AnnouncementEditedEvent {
+  type: 'announcement.edited';
+  announcementId: string;
+  title: string;
+  description?: string;
+  pinned: boolean;
+  priority: AnnouncementPriority;
+  category?: AnnouncementCategory;
+  tags: string[];
+  version: number;
+  updateCount: number;
+  editedAt?: Date;
+}
+
+export interface CommentAddedEvent {
+  type: 'comment.added';
+  announcementId: string;
+  comment: Comment;
+  commentCount: number;
+}
+
+export interface CommentEditedEvent {
+  type: 'comment.edited';
+  announcementId: string;
+  comment: Comment;
+}
+
+// A published comment was held or hidden by moderation
+export interface CommentHiddenEvent {
+  type: 'comment.hidden';
+  announcementId: string;
+  commentId: string;
+  parentId?: string;
+  commentCount: number;
+}
+
+export interface CommentDeletedEvent {
+  type: 'comment.deleted';
+  announcementId: string;
+  commentId: string;
+  parentId?: string;
+  // True when the comment stays as a "[deleted]" placeholder above its replies
+  placeholder: boolean;
+  commentCount: number;
+}
+
+export interface ReactionChangedEvent {
+  type: 'reaction.changed';
+  announcementId: string;
+  reactions: ReactionBreakdown;
+}
+
+export type BoardEvent =
+  | AnnouncementCreatedEvent
+  | AnnouncementStatusChangedEvent
+  | AnnouncementEditedEvent
+  | CommentAddedEvent
+  | CommentEditedEvent
+  | CommentHiddenEvent
+  | CommentDeletedEvent
+  | ReactionChangedEvent;
+
+export type BoardEventType = BoardEvent['type'];
+
+// Every event type, for validating subscriptions to them
+export const BOARD_EVENT_TYPES: readonly BoardEventType[] = [
+  'announcement.created',
+  'announcement.status_changed',
+  'announcement.edited',
+  'comment.added',
+  'comment.edited',
+  'comment.hidden',
+  'comment.deleted',
+  'reaction.changed',
+];
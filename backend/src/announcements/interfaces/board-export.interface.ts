@@ -0,0 +1,34 @@
+import { Announcement } from './announcement.interface';
+import { Comment } from './comment.interface';
+import { Reaction } from './reaction.interface';
+
+export const BOARD_EXPORT_VERSION = 1;
+
+export const BOARD_EXPORT_COLLECTIONS = [
+  'announcements',
+  'comments',
+  'reactions',
+] as const;
+export type BoardExportCollection = (typeof BOARD_EXPORT_COLLECTIONS)[number];
+
+// Everything GET /backup/export.json writes and POST /backup/import reads back
+export interface BoardExport {
+  version: typeof BOARD_EXPORT_VERSION;
+  exportedAt: Date;
+  announcements: Announcement[];
+  comments: Comment[]; // Including held, hidden and deleted ones, so reply threads stay intact
+  reactions: Reaction[];
+}
+
+// A record the import left out, and why
+export interface BoardImportConflict {
+  collection: BoardExportCollection;
+  id: string;
+  reason: string;
+}
+
+export interface BoardImportReport {
+  dryRun: boolean; // When true nothing was written; the counts say what would have been
+  imported: Record<BoardExportCollection, number>;
+  conflicts: BoardImportConflict[];
+}
@@ -0,0 +1,19 @@
+import { Comment } from './comment.interface';
+
+// One resident flagging a comment for the moderators
+export interface CommentReport {
+  id: string;
+  commentId: string;
+  announcementId: string;
+  userId: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+// A held or reported comment waiting for a moderator's decision
+export interface ModerationQueueItem {
+  id: string; // The comment's ID
+  comment: Comment;
+  announcementTitle: string;
+  reports: CommentReport[];
+}
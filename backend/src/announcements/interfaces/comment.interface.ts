@@ -1,7 +1,31 @@
+// pending comments wait for a moderator; hidden ones were taken down by one
+export type CommentStatus = 'published' | 'pending' | 'hidden';
+
 export interface Comment {
   id: string;
   announcementId: string;
+  parentId?: string; // Top-level comment this replies to; replies are one level deep
+  userId?: string; // Missing on comments created before sign-in existed
   authorName: string;
   text: string;
+  status?: CommentStatus; // Missing on comments created before moderation existed, which are published
+  moderationReason?: string; // Why the comment was held or hidden
   createdAt: Date;
-}
\ No newline at end of file
+  editedAt?: Date; // Set once the author has corrected the text
+  deletedAt?: Date; // Placeholder kept so replies from others stay in their thread
+}
+
+// Text a comment had before an edit replaced it
+export interface CommentVersion {
+  id: string;
+  commentId: string;
+  announcementId: string;
+  text: string;
+  createdAt: Date; // When this text was written
+  replacedAt: Date;
+}
+
+// Top-level comment as listed, with the size of its reply thread
+export interface CommentThread extends Comment {
+  replyCount: number;
+}
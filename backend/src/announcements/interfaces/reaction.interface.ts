@@ -2,6 +2,11 @@ export interface Reaction {
   id: string;
   announcementId: string;
   userId: string;
-  type: 'up' | 'down' | 'heart';
+  type: string; // Key of one of the board's reaction types
   createdAt: Date;
-}
\ No newline at end of file
+}
+
+// A reaction with the reacting resident's current display name
+export interface ReactionWithUser extends Reaction {
+  displayName?: string; // Unset when the account no longer exists
+}
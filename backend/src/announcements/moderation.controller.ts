@@ -0,0 +1,24 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AnnouncementsService } from './announcements.service';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { ModerationQueueItem } from './interfaces/comment-report.interface';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('moderation')
+@Roles('committee', 'admin')
+export class ModerationController {
+  constructor(private readonly announcementsService: AnnouncementsService) {}
+
+  // Held and reported comments across all announcements
+  @Get('comments')
+  getQueue(@Query() query: PaginationQueryDto): {
+    items: ModerationQueueItem[];
+    nextCursor?: string;
+    prevCursor?: string;
+  } {
+    return this.announcementsService.getModerationQueue(
+      query.cursor,
+      query.limit,
+    );
+  }
+}
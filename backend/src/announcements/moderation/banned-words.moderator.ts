@@ -0,0 +1,32 @@
+import { BoardSettingsService } from '../../board/board-settings.service';
+import {
+  CommentModerationInput,
+  CommentModerator,
+  ModerationVerdict,
+} from './comment-moderator';
+
+// Rejects comments that use a word from the board's banned-word list
+export class BannedWordsModerator extends CommentModerator {
+  constructor(private readonly boardSettings: BoardSettingsService) {
+    super();
+  }
+
+  review(input: CommentModerationInput): ModerationVerdict {
+    const { bannedWords } = this.boardSettings.get();
+    if (bannedWords.length === 0) {
+      return { action: 'allow' };
+    }
+
+    // Whole words and phrases only, so "class" doesn't match a ban on "ass"
+    const words = `${input.authorName} ${input.text}`
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}']+/u)
+      .filter(Boolean);
+    const padded = ` ${words.join(' ')} `;
+    const banned = bannedWords.some((word) => padded.includes(` ${word} `));
+
+    return banned
+      ? { action: 'reject', reason: 'Comment contains a banned word' }
+      : { action: 'allow' };
+  }
+}
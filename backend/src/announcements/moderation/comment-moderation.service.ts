@@ -0,0 +1,46 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  COMMENT_MODERATORS,
+  CommentModerationInput,
+  CommentModerator,
+  ModerationAction,
+  ModerationVerdict,
+} from './comment-moderator';
+
+const SEVERITY: Record<ModerationAction, number> = {
+  allow: 0,
+  hold: 1,
+  reject: 2,
+};
+
+@Injectable()
+export class CommentModerationService {
+  constructor(
+    @Inject(COMMENT_MODERATORS)
+    private readonly moderators: CommentModerator[],
+  ) {}
+
+  // Runs every moderator and returns the strictest verdict, with the reasons behind it
+  review(input: CommentModerationInput): ModerationVerdict {
+    let action: ModerationAction = 'allow';
+    const reasons: string[] = [];
+
+    for (const moderator of this.moderators) {
+      const verdict = moderator.review(input);
+      if (verdict.action === 'allow') {
+        continue;
+      }
+      if (SEVERITY[verdict.action] > SEVERITY[action]) {
+        action = verdict.action;
+        reasons.length = 0;
+      }
+      if (verdict.action === action && verdict.reason) {
+        reasons.push(verdict.reason);
+      }
+    }
+
+    return action === 'allow'
+      ? { action }
+      : { action, reason: reasons.join('; ') || undefined };
+  }
+}
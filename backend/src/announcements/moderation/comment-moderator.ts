@@ -0,0 +1,26 @@
+// allow publishes the comment, hold keeps it pending for a moderator, reject refuses it
+export type ModerationAction = 'allow' | 'hold' | 'reject';
+
+export interface ModerationVerdict {
+  action: ModerationAction;
+  reason?: string; // Shown to the author for reject, and to moderators for hold
+}
+
+export interface CommentModerationInput {
+  announcementId: string;
+  userId: string;
+  authorName: string;
+  text: string;
+}
+
+/**
+ * One check in the comment moderation pipeline. Every registered
+ * moderator reviews each new or edited comment and the strictest
+ * verdict wins.
+ */
+export abstract class CommentModerator {
+  abstract review(input: CommentModerationInput): ModerationVerdict;
+}
+
+// Injection token for the list of moderators the pipeline runs
+export const COMMENT_MODERATORS = Symbol('COMMENT_MODERATORS');
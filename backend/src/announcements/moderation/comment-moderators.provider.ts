@@ -0,0 +1,15 @@
+import { Provider } from '@nestjs/common';
+import { BoardSettingsService } from '../../board/board-settings.service';
+import { BannedWordsModerator } from './banned-words.moderator';
+import { COMMENT_MODERATORS, CommentModerator } from './comment-moderator';
+import { LinkLimitModerator } from './link-limit.moderator';
+
+// Register further checks here; each runs on every new or edited comment
+export const commentModeratorsProvider: Provider = {
+  provide: COMMENT_MODERATORS,
+  useFactory: (boardSettings: BoardSettingsService): CommentModerator[] => [
+    new BannedWordsModerator(boardSettings),
+    new LinkLimitModerator(boardSettings),
+  ],
+  inject: [BoardSettingsService],
+};
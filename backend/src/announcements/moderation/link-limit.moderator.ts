@@ -0,0 +1,30 @@
+import { BoardSettingsService } from '../../board/board-settings.service';
+import {
+  CommentModerationInput,
+  CommentModerator,
+  ModerationVerdict,
+} from './comment-moderator';
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+// Holds link-heavy comments for review, the usual shape of spam
+export class LinkLimitModerator extends CommentModerator {
+  constructor(private readonly boardSettings: BoardSettingsService) {
+    super();
+  }
+
+  review(input: CommentModerationInput): ModerationVerdict {
+    const { maxLinksPerComment } = this.boardSettings.get();
+    if (maxLinksPerComment === null) {
+      return { action: 'allow' };
+    }
+
+    const links = input.text.match(LINK_PATTERN)?.length ?? 0;
+    return links > maxLinksPerComment
+      ? {
+          action: 'hold',
+          reason: `Comment has more than ${maxLinksPerComment} links`,
+        }
+      : { action: 'allow' };
+  }
+}
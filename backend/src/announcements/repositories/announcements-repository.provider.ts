@@ -0,0 +1,19 @@
+import { Provider } from '@nestjs/common';
+import { join } from 'path';
+import { getStorageConfig } from '../../common/storage/storage.config';
+import { AnnouncementsRepository } from './announcements.repository';
+import { FileAnnouncementsRepository } from './file-announcements.repository';
+import { InMemoryAnnouncementsRepository } from './in-memory-announcements.repository';
+
+export const announcementsRepositoryProvider: Provider = {
+  provide: AnnouncementsRepository,
+  useFactory: (): AnnouncementsRepository => {
+    const { driver, dataDir } = getStorageConfig();
+    if (driver === 'file') {
+      return new FileAnnouncementsRepository(
+        join(dataDir, 'announcements.json'),
+      );
+    }
+    return new InMemoryAnnouncementsRepository();
+  },
+};
@@ -0,0 +1,64 @@
+import { Announcement } from '../interfaces/announcement.interface';
+import { AnnouncementRevision } from '../interfaces/announcement-revision.interface';
+import { Comment, CommentVersion } from '../interfaces/comment.interface';
+import { CommentReport } from '../interfaces/comment-report.interface';
+import { Reaction } from '../interfaces/reaction.interface';
+
+/**
+ * Storage boundary for announcements, comments and reactions.
+ * Implementations are synchronous so the service behaves the same
+ * whichever backend is selected through STORAGE_DRIVER.
+ */
+export abstract class AnnouncementsRepository {
+  // Goes up with every write, so callers can tell cheaply whether anything changed
+  abstract getVersion(): number;
+
+  // Runs work whose writes belong together; persisting backends store them once, at the end
+  abstract batch<T>(work: () => T): T;
+
+  abstract findAllAnnouncements(): Announcement[];
+  abstract findAnnouncementById(id: string): Announcement | undefined;
+  abstract saveAnnouncement(announcement: Announcement): Announcement;
+
+  // Oldest version first
+  abstract findRevisionsByAnnouncement(
+    announcementId: string,
+  ): AnnouncementRevision[];
+  abstract saveRevision(revision: AnnouncementRevision): AnnouncementRevision;
+
+  abstract findCommentsByAnnouncement(announcementId: string): Comment[];
+  abstract findCommentById(
+    announcementId: string,
+    commentId: string,
+  ): Comment | undefined;
+  abstract saveComment(comment: Comment): Comment;
+  // Also drops the comment's earlier versions and reports
+  abstract deleteComment(commentId: string): boolean;
+
+  // Oldest version first
+  abstract findCommentVersions(commentId: string): CommentVersion[];
+  abstract saveCommentVersion(version: CommentVersion): CommentVersion;
+  abstract deleteCommentVersions(commentId: string): void;
+
+  abstract findAllReports(): CommentReport[];
+  abstract findReportsByComment(commentId: string): CommentReport[];
+  abstract saveReport(report: CommentReport): CommentReport;
+  // Clears a comment's reports once a moderator has dealt with them
+  abstract deleteReportsByComment(commentId: string): void;
+
+  abstract findReactionsByAnnouncement(announcementId: string): Reaction[];
+  abstract findReaction(
+    announcementId: string,
+    userId: string,
+  ): Reaction | undefined;
+  // A user holds at most one reaction per announcement, so saving replaces it
+  abstract saveReaction(reaction: Reaction): Reaction;
+  abstract deleteReaction(announcementId: string, userId: string): boolean;
+
+  // Stores many records as one write, e.g. for an import; records keep their IDs
+  abstract saveAll(records: {
+    announcements: Announcement[];
+    comments: Comment[];
+    reactions: Reaction[];
+  }): void;
+}
@@ -0,0 +1,108 @@
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { Announcement } from '../interfaces/announcement.interface';
+import { AnnouncementRevision } from '../interfaces/announcement-revision.interface';
+import { Comment, CommentVersion } from '../interfaces/comment.interface';
+import { CommentReport } from '../interfaces/comment-report.interface';
+import { Reaction } from '../interfaces/reaction.interface';
+import { InMemoryAnnouncementsRepository } from './in-memory-announcements.repository';
+
+interface AnnouncementsSnapshot {
+  announcements: Announcement[];
+  revisions?: AnnouncementRevision[]; // Absent in snapshots written before editing existed
+  comments: Comment[];
+  commentVersions?: CommentVersion[]; // Absent in snapshots written before comment editing existed
+  reports?: CommentReport[]; // Absent in snapshots written before reporting existed
+  reactions: Reaction[];
+}
+
+/**
+ * Keeps the in-memory indexes as the working set and rewrites a JSON
+ * snapshot after every change, or once per batch of them, reloading it
+ * on startup.
+ */
+export class FileAnnouncementsRepository extends InMemoryAnnouncementsRepository {
+  private readonly store: JsonFileStore<AnnouncementsSnapshot>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+    this.load();
+  }
+
+  protected changed(): void {
+    super.changed();
+    const reactions = [...this.reactions.values()].flatMap((byUser) => [
+      ...byUser.values(),
+    ]);
+    this.store.write({
+      announcements: [...this.announcements.values()],
+      revisions: [...this.revisions.values()].flat(),
+      comments: [...this.comments.values()],
+      commentVersions: [...this.commentVersions.values()].flat(),
+      reports: this.findAllReports(),
+      reactions,
+    });
+  }
+
+  private load(): void {
+    const snapshot = this.store.read();
+    if (!snapshot) {
+      return;
+    }
+
+    for (const stored of snapshot.announcements) {
+      this.announcements.set(stored.id, {
+        ...stored,
+        version: stored.version ?? 1,
+        createdAt: new Date(stored.createdAt),
+        editedAt: stored.editedAt ? new Date(stored.editedAt) : undefined,
+        publishAt: stored.publishAt ? new Date(stored.publishAt) : undefined,
+        publishedAt: stored.publishedAt
+          ? new Date(stored.publishedAt)
+          : undefined,
+        expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+        statusChangedAt: stored.statusChangedAt
+          ? new Date(stored.statusChangedAt)
+          : undefined,
+      });
+    }
+    for (const stored of snapshot.revisions ?? []) {
+      const revisions = this.revisions.get(stored.announcementId) ?? [];
+      revisions.push({ ...stored, createdAt: new Date(stored.createdAt) });
+      this.revisions.set(stored.announcementId, revisions);
+    }
+    for (const stored of snapshot.comments) {
+      this.indexComment({
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+        editedAt: stored.editedAt ? new Date(stored.editedAt) : undefined,
+        deletedAt: stored.deletedAt ? new Date(stored.deletedAt) : undefined,
+      });
+    }
+    for (const stored of snapshot.commentVersions ?? []) {
+      const versions = this.commentVersions.get(stored.commentId) ?? [];
+      versions.push({
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+        replacedAt: new Date(stored.replacedAt),
+      });
+      this.commentVersions.set(stored.commentId, versions);
+    }
+    for (const stored of snapshot.reports ?? []) {
+      const reports = this.reports.get(stored.commentId) ?? [];
+      reports.push({ ...stored, createdAt: new Date(stored.createdAt) });
+      this.reports.set(stored.commentId, reports);
+    }
+    for (const stored of snapshot.reactions) {
+      let byUser = this.reactions.get(stored.announcementId);
+      if (!byUser) {
+        byUser = new Map();
+        this.reactions.set(stored.announcementId, byUser);
+      }
+      byUser.set(stored.userId, {
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+      });
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Announcement } from '../interfaces/announcement.interface';
+import { AnnouncementRevision } from '../interfaces/announcement-revision.interface';
+import { Comment, CommentVersion } from '../interfaces/comment.interface';
+import { CommentReport } from '../interfaces/comment-report.interface';
+import { Reaction } from '../interfaces/reaction.interface';
+import { AnnouncementsRepository } from './announcements.repository';
+
+export class InMemoryAnnouncementsRepository extends AnnouncementsRepository {
+  protected announcements: Map<string, Announcement> = new Map();
+  protected revisions: Map<string, AnnouncementRevision[]> = new Map(); // announcementId -> revisions by version
+  protected comments: Map<string, Comment> = new Map(); // commentId -> comment, in insertion order
+  protected commentIds: Map<string, Set<string>> = new Map(); // announcementId -> its comment IDs, in insertion order
+  protected commentVersions: Map<string, CommentVersion[]> = new Map(); // commentId -> earlier texts, oldest first
+  protected reports: Map<string, CommentReport[]> = new Map(); // commentId -> reports, oldest first
+  protected reactions: Map<string, Map<string, Reaction>> = new Map(); // announcementId -> userId -> reaction
+  private version = 0;
+  private batchDepth = 0;
+  private batchChanged = false;
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  batch<T>(work: () => T): T {
+    this.batchDepth++;
+    try {
+      return work();
+    } finally {
+      this.batchDepth--;
+      // Whatever was written before a failure is kept, as it would be without a batch
+      if (this.batchDepth === 0 && this.batchChanged) {
+        this.batchChanged = false;
+        this.changed();
+      }
+    }
+  }
+
+  findAllAnnouncements(): Announcement[] {
+    return [...this.announcements.values()];
+  }
+
+  findAnnouncementById(id: string): Announcement | undefined {
+    return this.announcements.get(id);
+  }
+
+  saveAnnouncement(announcement: Announcement): Announcement {
+    this.announcements.set(announcement.id, announcement);
+    this.written();
+    return announcement;
+  }
+
+  findRevisionsByAnnouncement(announcementId: string): AnnouncementRevision[] {
+    return [...(this.revisions.get(announcementId) ?? [])];
+  }
+
+  saveRevision(revision: AnnouncementRevision): AnnouncementRevision {
+    const revisions = this.revisions.get(revision.announcementId) ?? [];
+    revisions.push(revision);
+    revisions.sort((a, b) => a.version - b.version);
+    this.revisions.set(revision.announcementId, revisions);
+    this.written();
+    return revision;
+  }
+
+  findCommentsByAnnouncement(announcementId: string): Comment[] {
+    return [...(this.commentIds.get(announcementId) ?? [])].map(
+      (commentId) => this.comments.get(commentId)!,
+    );
+  }
+
+  findCommentById(
+    announcementId: string,
+    commentId: string,
+  ): Comment | undefined {
+    const comment = this.comments.get(commentId);
+    return comment?.announcementId === announcementId ? comment : undefined;
+  }
+
+  saveComment(comment: Comment): Comment {
+    this.indexComment(comment);
+    this.written();
+    return comment;
+  }
+
+  deleteComment(commentId: string): boolean {
+    const comment = this.comments.get(commentId);
+    if (!comment) {
+      return false;
+    }
+    this.comments.delete(commentId);
+    this.commentIds.get(comment.announcementId)?.delete(commentId);
+    this.commentVersions.delete(commentId);
+    this.reports.delete(commentId);
+    this.written();
+    return true;
+  }
+
+  findCommentVersions(commentId: string): CommentVersion[] {
+    return [...(this.commentVersions.get(commentId) ?? [])];
+  }
+
+  saveCommentVersion(version: CommentVersion): CommentVersion {
+    const versions = this.commentVersions.get(version.commentId) ?? [];
+    versions.push(version);
+    this.commentVersions.set(version.commentId, versions);
+    this.written();
+    return version;
+  }
+
+  deleteCommentVersions(commentId: string): void {
+    if (this.commentVersions.delete(commentId)) {
+      this.written();
+    }
+  }
+
+  findAllReports(): CommentReport[] {
+    return [...this.reports.values()].flat();
+  }
+
+  findReportsByComment(commentId: string): CommentReport[] {
+    return [...(this.reports.get(commentId) ?? [])];
+  }
+
+  saveReport(report: CommentReport): CommentReport {
+    const reports = this.reports.get(report.commentId) ?? [];
+    reports.push(report);
+    this.reports.set(report.commentId, reports);
+    this.written();
+    return report;
+  }
+
+  deleteReportsByComment(commentId: string): void {
+    if (this.reports.delete(commentId)) {
+      this.written();
+    }
+  }
+
+  findReactionsByAnnouncement(announcementId: string): Reaction[] {
+    return [...(this.reactions.get(announcementId)?.values() ?? [])];
+  }
+
+  findReaction(announcementId: string, userId: string): Reaction | undefined {
+    return this.reactions.get(announcementId)?.get(userId);
+  }
+
+  saveReaction(reaction: Reaction): Reaction {
+    this.indexReaction(reaction);
+    this.written();
+    return reaction;
+  }
+
+  deleteReaction(announcementId: string, userId: string): boolean {
+    const deleted = this.reactions.get(announcementId)?.delete(userId) ?? false;
+    if (deleted) {
+      this.written();
+    }
+    return deleted;
+  }
+
+  saveAll(records: {
+    announcements: Announcement[];
+    comments: Comment[];
+    reactions: Reaction[];
+  }): void {
+    records.announcements.forEach((announcement) =>
+      this.announcements.set(announcement.id, announcement),
+    );
+    records.comments.forEach((comment) => this.indexComment(comment));
+    records.reactions.forEach((reaction) => this.indexReaction(reaction));
+    this.written();
+  }
+
+  protected indexComment(comment: Comment): void {
+    this.comments.set(comment.id, comment);
+    let ids = this.commentIds.get(comment.announcementId);
+    if (!ids) {
+      ids = new Set();
+      this.commentIds.set(comment.announcementId, ids);
+    }
+    ids.add(comment.id);
+  }
+
+  private indexReaction(reaction: Reaction): void {
+    let byUser = this.reactions.get(reaction.announcementId);
+    if (!byUser) {
+      byUser = new Map();
+      this.reactions.set(reaction.announcementId, byUser);
+    }
+    // Re-insert so iteration order follows the latest reaction
+    byUser.delete(reaction.userId);
+    byUser.set(reaction.userId, reaction);
+  }
+
+  private written(): void {
+    if (this.batchDepth > 0) {
+      this.batchChanged = true;
+    } else {
+      this.changed();
+    }
+  }
+
+  // Runs after every write, or once after a batch of them; subclasses that persist extend it
+  protected changed(): void {
+    this.version++;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { AnnouncementsService } from '../announcements.service';
+
+/**
+ * Periodically publishes scheduled drafts and closes expired and inactive
+ * announcements. The interval comes from ANNOUNCEMENT_SWEEP_INTERVAL_MS
+ * (default one minute; 0 disables it).
+ */
+@Injectable()
+export class AnnouncementLifecycleScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(AnnouncementLifecycleScheduler.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly announcementsService: AnnouncementsService) {}
+
+  onApplicationBootstrap(): void {
+    const intervalMs = parseInt(
+      process.env.ANNOUNCEMENT_SWEEP_INTERVAL_MS ?? '60000',
+      10,
+    );
+    if (!(intervalMs > 0)) {
+      return;
+    }
+
+    this.sweep();
+    this.timer = setInterval(() => this.sweep(), intervalMs);
+    // Don't keep the process alive just for the sweep
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  sweep(): void {
+    try {
+      const published =
+        this.announcementsService.publishScheduledAnnouncements();
+      if (published.length > 0) {
+        this.logger.log(
+          `Published ${published.length} scheduled announcement(s)`,
+        );
+      }
+
+      const closed = this.announcementsService.closeStaleAnnouncements();
+      if (closed.length > 0) {
+        this.logger.log(
+          `Closed ${closed.length} expired or inactive announcement(s)`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to sweep announcements', error);
+    }
+  }
+}
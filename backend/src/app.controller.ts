@@ -1,5 +1,7 @@
 import { Controller, Get } from '@nestjs/common';
+import { Public } from './auth/decorators/public.decorator';
 @Controller()
 export class AppController {
+  @Public()
   @Get('health') health() { return { ok: true, service: 'backend' }; }
 }
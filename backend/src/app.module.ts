@@ -1,10 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ThrottlerModule } from '@nestjs/throttler';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AnnouncementsModule } from './announcements/announcements.module';
+import { AuthModule } from './auth/auth.module';
+import { BoardModule } from './board/board.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { IdempotencyInterceptor } from './common/idempotency/idempotency.interceptor';
+import { IdempotencyStore } from './common/idempotency/idempotency.store';
 
 @Module({
   imports: [
@@ -13,7 +19,11 @@ import { AnnouncementsModule } from './announcements/announcements.module';
       ttl: 60000, // Time to live: 60 seconds
       limit: 60, // Maximum number of requests within TTL
     }]),
-    AnnouncementsModule
+    AuthModule,
+    BoardModule,
+    AnnouncementsModule,
+    WebhooksModule,
+    NotificationsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -22,6 +32,12 @@ import { AnnouncementsModule } from './announcements/announcements.module';
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    // Replay retried writes that carry an Idempotency-Key header
+    IdempotencyStore,
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: IdempotencyInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+
+export interface AuthConfig {
+  tokenSecret: string;
+  tokenTtlSeconds: number;
+  magicLinkTtlMs: number;
+}
+
+const DEV_TOKEN_SECRET = 'dev-only-noticeboard-secret';
+
+export function getAuthConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthConfig {
+  let tokenSecret = env.AUTH_TOKEN_SECRET;
+  if (!tokenSecret) {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('AUTH_TOKEN_SECRET must be set in production');
+    }
+    Logger.warn(
+      'AUTH_TOKEN_SECRET is not set, using an insecure development secret',
+      'AuthConfig',
+    );
+    tokenSecret = DEV_TOKEN_SECRET;
+  }
+
+  return {
+    tokenSecret,
+    tokenTtlSeconds:
+      parseInt(env.AUTH_TOKEN_TTL_SECONDS ?? '', 10) || 7 * 24 * 60 * 60,
+    magicLinkTtlMs:
+      parseInt(env.AUTH_MAGIC_LINK_TTL_MS ?? '', 10) || 10 * 60 * 1000,
+  };
+}
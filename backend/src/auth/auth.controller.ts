@@ -0,0 +1,53 @@
+import { Body, Controller, Get, HttpCode, Post } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Public } from './decorators/public.decorator';
+import { LoginDto } from './dto/login.dto';
+import { RegisterDto } from './dto/register.dto';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import {
+  AuthenticatedUser,
+  AuthResponse,
+} from './interfaces/authenticated-user.interface';
+
+@Controller('auth')
+@Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 auth attempts per minute per IP
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Public()
+  @Post('register')
+  register(@Body() registerDto: RegisterDto): AuthResponse {
+    return this.authService.register(registerDto);
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(200)
+  login(@Body() loginDto: LoginDto): AuthResponse {
+    return this.authService.login(loginDto);
+  }
+
+  @Public()
+  @Post('magic-link')
+  @HttpCode(202)
+  requestMagicLink(@Body() requestMagicLinkDto: RequestMagicLinkDto): void {
+    this.authService.requestMagicLink(requestMagicLinkDto);
+  }
+
+  @Public()
+  @Post('magic-link/verify')
+  @HttpCode(200)
+  verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+  ): AuthResponse {
+    return this.authService.verifyMagicLink(verifyMagicLinkDto);
+  }
+
+  @Get('me')
+  me(@CurrentUser() user: AuthenticatedUser): AuthenticatedUser {
+    return user;
+  }
+}
@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { IS_PUBLIC_KEY } from './decorators/public.decorator';
+import { AuthenticatedRequest } from './interfaces/authenticated-user.interface';
+
+/**
+ * Resolves the bearer token into request.user and rejects anonymous
+ * callers unless the route is marked @Public().
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.header('authorization') ?? '').split(' ');
+
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      request.user = this.authService.resolveToken(token);
+    }
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic || request.user) {
+      return true;
+    }
+
+    throw new UnauthorizedException(
+      token ? 'Invalid or expired token' : 'Authentication required',
+    );
+  }
+}
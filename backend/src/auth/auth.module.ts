@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { UsersModule } from '../users/users.module';
+import { getAuthConfig } from './auth.config';
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { RolesGuard } from './roles.guard';
+
+@Module({
+  imports: [
+    UsersModule,
+    JwtModule.registerAsync({
+      useFactory: () => {
+        const { tokenSecret, tokenTtlSeconds } = getAuthConfig();
+        return {
+          secret: tokenSecret,
+          signOptions: { expiresIn: tokenTtlSeconds },
+        };
+      },
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    // Every route requires a signed-in user unless marked @Public()
+    {
+      provide: APP_GUARD,
+      useClass: AuthGuard,
+    },
+    // Registered after AuthGuard so @Roles() sees the resolved user
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+  ],
+  exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,98 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InMemoryUsersRepository } from '../users/repositories/in-memory-users.repository';
+import { UsersService } from '../users/users.service';
+import { AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let jwtService: JwtService;
+
+  beforeEach(() => {
+    jwtService = new JwtService({ secret: 'test-secret' });
+    authService = new AuthService(
+      new UsersService(new InMemoryUsersRepository()),
+      jwtService,
+    );
+  });
+
+  it('registers, logs in and resolves the token to the same user', () => {
+    const registered = authService.register({
+      email: 'Asha@Example.com',
+      password: 'correct horse',
+      displayName: 'Asha',
+    });
+
+    const loggedIn = authService.login({
+      email: 'asha@example.com',
+      password: 'correct horse',
+    });
+
+    expect(loggedIn.user).toEqual(registered.user);
+    expect(authService.resolveToken(loggedIn.accessToken)).toEqual(
+      registered.user,
+    );
+    expect(() =>
+      authService.login({ email: 'asha@example.com', password: 'wrong' }),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const forged = new JwtService({ secret: 'other' }).sign({ sub: 'x' });
+
+    expect(authService.resolveToken(forged)).toBeUndefined();
+  });
+
+  it('signs in with a logged magic link code', () => {
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    authService.requestMagicLink({ email: 'ravi@example.com' });
+    const code = /(\d{6})$/.exec(String(log.mock.calls[0][0]))![1];
+
+    const { user } = authService.verifyMagicLink({
+      email: 'ravi@example.com',
+      code,
+    });
+
+    expect(user).toMatchObject({
+      email: 'ravi@example.com',
+      displayName: 'ravi',
+    });
+    // Codes are single use
+    expect(() =>
+      authService.verifyMagicLink({ email: 'ravi@example.com', code }),
+    ).toThrow(UnauthorizedException);
+    log.mockRestore();
+  });
+
+  it('grants a listed admin email the role only after a magic link sign-in and drops an earlier password', () => {
+    process.env.AUTH_ADMIN_EMAILS = 'chair@example.com';
+    const service = new AuthService(
+      new UsersService(new InMemoryUsersRepository()),
+      jwtService,
+    );
+    delete process.env.AUTH_ADMIN_EMAILS;
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    // Anyone can register with the address, so that alone proves nothing
+    const registered = service.register({
+      email: 'chair@example.com',
+      password: 'not the chair',
+      displayName: 'Chair',
+    });
+    expect(registered.user.role).toBe('resident');
+
+    service.requestMagicLink({ email: 'chair@example.com' });
+    const code = /(\d{6})$/.exec(String(log.mock.calls[0][0]))![1];
+    const { user } = service.verifyMagicLink({
+      email: 'chair@example.com',
+      code,
+    });
+
+    expect(user).toMatchObject({ id: registered.user.id, role: 'admin' });
+    // Whoever registered first must not keep a way into the admin account
+    expect(() =>
+      service.login({ email: 'chair@example.com', password: 'not the chair' }),
+    ).toThrow(UnauthorizedException);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomInt } from 'crypto';
+import { User } from '../users/interfaces/user.interface';
+import { UsersService } from '../users/users.service';
+import { getAuthConfig } from './auth.config';
+import { LoginDto } from './dto/login.dto';
+import { RegisterDto } from './dto/register.dto';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import {
+  AuthenticatedUser,
+  AuthResponse,
+  TokenPayload,
+} from './interfaces/authenticated-user.interface';
+
+interface PendingMagicLink {
+  codeHash: string;
+  displayName?: string;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+const MAGIC_LINK_ATTEMPTS = 5;
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly magicLinkTtlMs = getAuthConfig().magicLinkTtlMs;
+  private magicLinks: Map<string, PendingMagicLink> = new Map(); // email -> pending code
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  register(registerDto: RegisterDto): AuthResponse {
+    const user = this.usersService.create(
+      registerDto.email,
+      registerDto.displayName,
+      registerDto.password,
+    );
+    return this.issueToken(user);
+  }
+
+  login(loginDto: LoginDto): AuthResponse {
+    const user = this.usersService.findByEmail(loginDto.email);
+    if (!user || !this.usersService.verifyPassword(user, loginDto.password)) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+    return this.issueToken(user);
+  }
+
+  requestMagicLink(requestMagicLinkDto: RequestMagicLinkDto): void {
+    const email = this.usersService.normalizeEmail(requestMagicLinkDto.email);
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    this.magicLinks.set(email, {
+      codeHash: this.hashCode(code),
+      displayName: requestMagicLinkDto.displayName,
+      expiresAt: Date.now() + this.magicLinkTtlMs,
+      attemptsLeft: MAGIC_LINK_ATTEMPTS,
+    });
+
+    // No mail transport yet: codes are only written to the server log
+    this.logger.log(`Magic link code for ${email}: ${code}`);
+  }
+
+  verifyMagicLink(verifyMagicLinkDto: VerifyMagicLinkDto): AuthResponse {
+    const email = this.usersService.normalizeEmail(verifyMagicLinkDto.email);
+    const pending = this.magicLinks.get(email);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      this.magicLinks.delete(email);
+      throw new UnauthorizedException('Code is invalid or has expired');
+    }
+    if (pending.codeHash !== this.hashCode(verifyMagicLinkDto.code)) {
+      pending.attemptsLeft--;
+      if (pending.attemptsLeft <= 0) {
+        this.magicLinks.delete(email);
+      }
+      throw new UnauthorizedException('Code is invalid or has expired');
+    }
+
+    this.magicLinks.delete(email);
+    const user =
+      this.usersService.findByEmail(email) ??
+      this.usersService.create(
+        email,
+        pending.displayName ?? email.split('@')[0],
+      );
+    // The code proves the email is theirs, so listed admin emails are honoured here only
+    return this.issueToken(this.usersService.confirmEmail(user));
+  }
+
+  // Returns undefined for invalid or expired tokens and deleted users
+  resolveToken(token: string): AuthenticatedUser | undefined {
+    try {
+      const payload = this.jwtService.verify<TokenPayload>(token);
+      const user = this.usersService.findById(payload.sub);
+      return user ? this.usersService.toProfile(user) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private issueToken(user: User): AuthResponse {
+    const payload: TokenPayload = { sub: user.id };
+    return {
+      accessToken: this.jwtService.sign(payload),
+      user: this.usersService.toProfile(user),
+    };
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+}
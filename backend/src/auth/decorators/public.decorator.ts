@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+// Routes marked public still resolve the caller when a token is sent
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,10 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class LoginDto {
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
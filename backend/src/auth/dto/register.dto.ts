@@ -0,0 +1,22 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class RegisterDto {
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  @IsString()
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @MaxLength(128, { message: 'Password cannot exceed 128 characters' })
+  password: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50, { message: 'Display name cannot exceed 50 characters' })
+  displayName: string;
+}
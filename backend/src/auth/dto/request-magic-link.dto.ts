@@ -0,0 +1,19 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class RequestMagicLinkDto {
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  // Used when the code creates a new account
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(50, { message: 'Display name cannot exceed 50 characters' })
+  displayName?: string;
+}
@@ -0,0 +1,9 @@
+import { IsEmail, Matches } from 'class-validator';
+
+export class VerifyMagicLinkDto {
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
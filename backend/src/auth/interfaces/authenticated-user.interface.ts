@@ -0,0 +1,17 @@
+import { Request } from 'express';
+import { UserProfile } from '../../users/interfaces/user-profile.interface';
+
+export type AuthenticatedUser = UserProfile;
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+}
+
+export interface TokenPayload {
+  sub: string;
+}
+
+export interface AuthResponse {
+  accessToken: string;
+  user: AuthenticatedUser;
+}
@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../users/interfaces/user.interface';
+import { ROLES_KEY } from './decorators/roles.decorator';
+import { AuthenticatedRequest } from './interfaces/authenticated-user.interface';
+
+// Runs after AuthGuard, so request.user is already resolved
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException(
+        `This action requires one of these roles: ${roles.join(', ')}`,
+      );
+    }
+    return true;
+  }
+}
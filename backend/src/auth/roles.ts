@@ -0,0 +1,9 @@
+import { UserRole } from '../users/interfaces/user.interface';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+
+// Roles allowed to close notices and moderate comments on any announcement
+export const MODERATOR_ROLES: UserRole[] = ['committee', 'admin'];
+
+export function isModerator(user: AuthenticatedUser): boolean {
+  return MODERATOR_ROLES.includes(user.role);
+}
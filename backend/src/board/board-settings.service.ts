@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  BoardSettings,
+  PublicBoardSettings,
+} from './interfaces/board-settings.interface';
+import { ReactionTypeDefinition } from './interfaces/reaction-type.interface';
+import { UpdateBoardSettingsDto } from './dto/update-board-settings.dto';
+import { BoardSettingsRepository } from './repositories/board-settings.repository';
+
+// The board's reactions until an admin configures its own
+const DEFAULT_REACTION_TYPES: ReactionTypeDefinition[] = [
+  { key: 'up', emoji: '👍', label: 'Like', enabled: true },
+  { key: 'down', emoji: '👎', label: 'Dislike', enabled: true },
+  { key: 'heart', emoji: '❤️', label: 'Love', enabled: true },
+];
+
+@Injectable()
+export class BoardSettingsService {
+  constructor(private readonly repository: BoardSettingsRepository) {}
+
+  // Settings saved before a field existed fall back to its default
+  get(): BoardSettings {
+    return { ...this.defaults(), ...this.repository.find() };
+  }
+
+  getPublic(): PublicBoardSettings {
+    const { commentEditWindowMinutes, reactionTypes } = this.get();
+    return { commentEditWindowMinutes, reactionTypes };
+  }
+
+  getReactionTypes(): ReactionTypeDefinition[] {
+    return this.get().reactionTypes;
+  }
+
+  update(dto: UpdateBoardSettingsDto, userId: string): BoardSettings {
+    const current = this.get();
+    if (dto.reactionTypes) {
+      const keys = dto.reactionTypes.map((type) => type.key);
+      if (new Set(keys).size !== keys.length) {
+        throw new BadRequestException('Reaction type keys must be unique');
+      }
+    }
+    return this.repository.save({
+      ...current,
+      autoCloseInactiveDays:
+        dto.autoCloseInactiveDays === undefined
+          ? current.autoCloseInactiveDays
+          : dto.autoCloseInactiveDays,
+      commentEditWindowMinutes:
+        dto.commentEditWindowMinutes ?? current.commentEditWindowMinutes,
+      bannedWords: dto.bannedWords
+        ? this.normalizeWords(dto.bannedWords)
+        : current.bannedWords,
+      maxLinksPerComment:
+        dto.maxLinksPerComment === undefined
+          ? current.maxLinksPerComment
+          : dto.maxLinksPerComment,
+      reactionTypes: dto.reactionTypes
+        ? dto.reactionTypes.map(({ key, emoji, label, enabled }) => ({
+            key,
+            emoji: emoji.trim(),
+            label: label.trim(),
+            enabled,
+          }))
+        : current.reactionTypes,
+      updatedAt: new Date(),
+      updatedBy: userId,
+    });
+  }
+
+  // Used until an admin saves settings for the board
+  private defaults(): BoardSettings {
+    const days = parseInt(process.env.BOARD_AUTO_CLOSE_INACTIVE_DAYS ?? '', 10);
+    const editMinutes = parseInt(
+      process.env.COMMENT_EDIT_WINDOW_MINUTES ?? '',
+      10,
+    );
+    const maxLinks = parseInt(process.env.MODERATION_MAX_LINKS ?? '', 10);
+    return {
+      autoCloseInactiveDays: days > 0 ? days : null,
+      commentEditWindowMinutes: editMinutes >= 0 ? editMinutes : 15,
+      bannedWords: this.normalizeWords(
+        (process.env.MODERATION_BANNED_WORDS ?? '').split(','),
+      ),
+      maxLinksPerComment: maxLinks >= 0 ? maxLinks : 2,
+      reactionTypes: DEFAULT_REACTION_TYPES,
+    };
+  }
+
+  private normalizeWords(words: string[]): string[] {
+    return [
+      ...new Set(
+        words.map((word) => word.trim().toLowerCase()).filter(Boolean),
+      ),
+    ];
+  }
+}
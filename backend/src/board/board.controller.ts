@@ -0,0 +1,46 @@
+import { Body, Controller, Get, Patch } from '@nestjs/common';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { BoardSettingsService } from './board-settings.service';
+import { UpdateBoardSettingsDto } from './dto/update-board-settings.dto';
+import {
+  BoardSettings,
+  PublicBoardSettings,
+} from './interfaces/board-settings.interface';
+import { ReactionTypeDefinition } from './interfaces/reaction-type.interface';
+
+@Controller('board')
+export class BoardController {
+  constructor(private readonly boardSettingsService: BoardSettingsService) {}
+
+  @Get('settings')
+  @Roles('committee', 'admin')
+  getSettings(): BoardSettings {
+    return this.boardSettingsService.get();
+  }
+
+  // The part of the settings the board itself needs, such as the comment edit window
+  @Public()
+  @Get('settings/public')
+  getPublicSettings(): PublicBoardSettings {
+    return this.boardSettingsService.getPublic();
+  }
+
+  // Includes disabled types so existing counts can still be labelled
+  @Public()
+  @Get('reaction-types')
+  getReactionTypes(): { reactionTypes: ReactionTypeDefinition[] } {
+    return { reactionTypes: this.boardSettingsService.getReactionTypes() };
+  }
+
+  @Patch('settings')
+  @Roles('committee', 'admin')
+  updateSettings(
+    @Body() updateBoardSettingsDto: UpdateBoardSettingsDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): BoardSettings {
+    return this.boardSettingsService.update(updateBoardSettingsDto, user.id);
+  }
+}
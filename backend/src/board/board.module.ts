@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { BoardController } from './board.controller';
+import { BoardSettingsService } from './board-settings.service';
+import { boardSettingsRepositoryProvider } from './repositories/board-settings-repository.provider';
+
+@Module({
+  controllers: [BoardController],
+  providers: [BoardSettingsService, boardSettingsRepositoryProvider],
+  exports: [BoardSettingsService],
+})
+export class BoardModule {}
@@ -0,0 +1,28 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class ReactionTypeDto {
+  @Matches(/^[a-z0-9_-]{1,20}$/, {
+    message:
+      'Reaction keys must be 1-20 lowercase letters, digits, dashes or underscores',
+  })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Reaction emoji is required' })
+  @MaxLength(16, { message: 'Reaction emoji cannot exceed 16 characters' })
+  emoji: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Reaction label is required' })
+  @MaxLength(30, { message: 'Reaction label cannot exceed 30 characters' })
+  label: string;
+
+  @IsBoolean()
+  enabled: boolean;
+}
@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ReactionTypeDto } from './reaction-type.dto';
+
+export class UpdateBoardSettingsDto {
+  // null turns inactivity auto-close off
+  @IsInt({ message: 'Auto-close days must be a whole number' })
+  @Min(1, { message: 'Auto-close days must be at least 1' })
+  @Max(365, { message: 'Auto-close days cannot exceed 365' })
+  @IsOptional()
+  autoCloseInactiveDays?: number | null;
+
+  // 0 turns comment editing off; a day at most
+  @IsInt({ message: 'Comment edit window must be a whole number of minutes' })
+  @Min(0, { message: 'Comment edit window cannot be negative' })
+  @Max(1440, { message: 'Comment edit window cannot exceed 1440 minutes' })
+  @IsOptional()
+  commentEditWindowMinutes?: number;
+
+  // Replaces the whole list
+  @IsArray()
+  @ArrayMaxSize(200, { message: 'At most 200 banned words are allowed' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, {
+    each: true,
+    message: 'Banned words cannot exceed 50 characters',
+  })
+  @IsOptional()
+  bannedWords?: string[];
+
+  // null removes the link limit
+  @IsInt({ message: 'Link limit must be a whole number' })
+  @Min(0, { message: 'Link limit cannot be negative' })
+  @Max(20, { message: 'Link limit cannot exceed 20' })
+  @IsOptional()
+  maxLinksPerComment?: number | null;
+
+  // Replaces the whole registry; disable a type rather than removing it to keep its counts
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one reaction type is required' })
+  @ArrayMaxSize(20, { message: 'At most 20 reaction types are allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => ReactionTypeDto)
+  @IsOptional()
+  reactionTypes?: ReactionTypeDto[];
+}
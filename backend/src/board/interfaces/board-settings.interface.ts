@@ -0,0 +1,22 @@
+import { ReactionTypeDefinition } from './reaction-type.interface';
+
+export interface BoardSettings {
+  // Close active announcements after this many days without activity; null disables it
+  autoCloseInactiveDays: number | null;
+  // Authors may edit a comment for this many minutes after posting it; 0 disables editing
+  commentEditWindowMinutes: number;
+  // Comments containing any of these words are rejected; stored lowercase
+  bannedWords: string[];
+  // Comments with more links than this are held for review; null allows any number
+  maxLinksPerComment: number | null;
+  // Reactions residents can leave, in display order
+  reactionTypes: ReactionTypeDefinition[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// What every visitor may read; moderation rules and who changed them stay with the committee
+export type PublicBoardSettings = Pick<
+  BoardSettings,
+  'commentEditWindowMinutes' | 'reactionTypes'
+>;
@@ -0,0 +1,7 @@
+export interface ReactionTypeDefinition {
+  key: string; // Stored on each reaction, e.g. "up"
+  emoji: string;
+  label: string;
+  // Disabled types keep their existing counts but accept no new reactions
+  enabled: boolean;
+}
@@ -0,0 +1,19 @@
+import { Provider } from '@nestjs/common';
+import { join } from 'path';
+import { getStorageConfig } from '../../common/storage/storage.config';
+import { BoardSettingsRepository } from './board-settings.repository';
+import { FileBoardSettingsRepository } from './file-board-settings.repository';
+import { InMemoryBoardSettingsRepository } from './in-memory-board-settings.repository';
+
+export const boardSettingsRepositoryProvider: Provider = {
+  provide: BoardSettingsRepository,
+  useFactory: (): BoardSettingsRepository => {
+    const { driver, dataDir } = getStorageConfig();
+    if (driver === 'file') {
+      return new FileBoardSettingsRepository(
+        join(dataDir, 'board-settings.json'),
+      );
+    }
+    return new InMemoryBoardSettingsRepository();
+  },
+};
@@ -0,0 +1,7 @@
+import { BoardSettings } from '../interfaces/board-settings.interface';
+
+export abstract class BoardSettingsRepository {
+  // Undefined until the settings are first saved
+  abstract find(): BoardSettings | undefined;
+  abstract save(settings: BoardSettings): BoardSettings;
+}
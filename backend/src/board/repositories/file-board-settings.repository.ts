@@ -0,0 +1,25 @@
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { BoardSettings } from '../interfaces/board-settings.interface';
+import { InMemoryBoardSettingsRepository } from './in-memory-board-settings.repository';
+
+export class FileBoardSettingsRepository extends InMemoryBoardSettingsRepository {
+  private readonly store: JsonFileStore<BoardSettings>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+    const stored = this.store.read();
+    if (stored) {
+      this.settings = {
+        ...stored,
+        updatedAt: stored.updatedAt ? new Date(stored.updatedAt) : undefined,
+      };
+    }
+  }
+
+  protected changed(): void {
+    if (this.settings) {
+      this.store.write(this.settings);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { BoardSettings } from '../interfaces/board-settings.interface';
+import { BoardSettingsRepository } from './board-settings.repository';
+
+export class InMemoryBoardSettingsRepository extends BoardSettingsRepository {
+  protected settings?: BoardSettings;
+
+  find(): BoardSettings | undefined {
+    return this.settings;
+  }
+
+  save(settings: BoardSettings): BoardSettings {
+    this.settings = settings;
+    this.changed();
+    return settings;
+  }
+
+  // Hook for subclasses that need to persist after every write
+  protected changed(): void {}
+}
@@ -0,0 +1,62 @@
+export interface WordDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Word-level diff from `before` to `after` based on the longest common
+ * subsequence of tokens. Whitespace is kept as its own token so joining
+ * the equal and insert segments reproduces `after` exactly.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (op: WordDiffSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) {
+    push('delete', a[i++]);
+  }
+  while (j < b.length) {
+    push('insert', b[j++]);
+  }
+  return segments;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
@@ -15,7 +15,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
 
-    let status: number;
+    let status: HttpStatus;
     let errorResponse: ErrorResponse;
 
     if (exception instanceof HttpException) {
@@ -65,7 +65,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     response.status(status).json(errorResponse);
   }
 
-  private getErrorCode(status: number): string {
+  private getErrorCode(status: HttpStatus): string {
     switch (status) {
       case HttpStatus.BAD_REQUEST:
         return 'BAD_REQUEST';
@@ -75,6 +75,12 @@ export class AllExceptionsFilter implements ExceptionFilter {
         return 'FORBIDDEN';
       case HttpStatus.NOT_FOUND:
         return 'NOT_FOUND';
+      case HttpStatus.CONFLICT:
+        return 'CONFLICT';
+      case HttpStatus.PRECONDITION_FAILED:
+        return 'PRECONDITION_FAILED';
+      case HttpStatus.UNPROCESSABLE_ENTITY:
+        return 'UNPROCESSABLE_ENTITY';
       case HttpStatus.TOO_MANY_REQUESTS:
         return 'TOO_MANY_REQUESTS';
       case HttpStatus.INTERNAL_SERVER_ERROR:
@@ -0,0 +1,144 @@
+import {
+  Body,
+  Controller,
+  INestApplication,
+  Param,
+  Patch,
+  Post,
+  Res,
+} from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { Response } from 'express';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyStore } from './idempotency.store';
+
+@Controller('notes')
+class NotesController {
+  created = 0;
+  updated = 0;
+
+  @Post()
+  create(@Body() body: { text: string }) {
+    this.created++;
+    return { id: this.created, text: body.text };
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() body: { text: string },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.updated++;
+    res.setHeader('ETag', `"${this.updated}"`);
+    return { id: Number(id), text: body.text };
+  }
+}
+
+describe('IdempotencyInterceptor', () => {
+  let app: INestApplication<App>;
+  let controller: NotesController;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [NotesController],
+      providers: [
+        IdempotencyStore,
+        { provide: APP_INTERCEPTOR, useClass: IdempotencyInterceptor },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    // Stand-in for AuthGuard, which resolves the caller before interceptors run
+    app.use((req: AuthenticatedRequest, _res: unknown, next: () => void) => {
+      const userId = req.header('x-user-id');
+      req.user = userId
+        ? {
+            id: userId,
+            email: `${userId}@example.com`,
+            displayName: userId,
+            role: 'resident',
+          }
+        : undefined;
+      next();
+    });
+    await app.init();
+    controller = moduleRef.get(NotesController);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('replays the original response for a retried key', async () => {
+    const first = await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'hello' })
+      .expect(201);
+
+    const retry = await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'hello' })
+      .expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(controller.created).toBe(1);
+  });
+
+  it('replays the headers a client needs, such as the ETag', async () => {
+    const first = await request(app.getHttpServer())
+      .patch('/notes/1')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'hello' })
+      .expect(200);
+
+    const retry = await request(app.getHttpServer())
+      .patch('/notes/1')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'hello' })
+      .expect(200);
+
+    expect(first.headers.etag).toBe('"1"');
+    expect(retry.headers.etag).toBe('"1"');
+    expect(controller.updated).toBe(1);
+  });
+
+  it('rejects a reused key with a different payload', async () => {
+    await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'hello' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .send({ text: 'something else' })
+      .expect(422);
+  });
+
+  it('does not share keys between callers', async () => {
+    await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .set('x-user-id', 'user-1')
+      .send({ text: 'hello' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/notes')
+      .set('Idempotency-Key', 'abc')
+      .set('x-user-id', 'user-2')
+      .send({ text: 'hello' })
+      .expect(201);
+
+    expect(controller.created).toBe(2);
+  });
+});
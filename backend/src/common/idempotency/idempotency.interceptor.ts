@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Response } from 'express';
+import { OutgoingHttpHeaders } from 'http';
+import { Observable, catchError, of, tap, throwError } from 'rxjs';
+import { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { IdempotencyStore } from './idempotency.store';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MUTATING_METHODS = new Set(['POST', 'PATCH', 'PUT', 'DELETE']);
+// Headers clients act on, e.g. the ETag they send back in If-Match
+const REPLAYED_HEADERS = ['etag', 'location', 'last-modified'];
+
+/**
+ * Replays the stored status, body and headers such as the ETag when a write
+ * is retried with the same Idempotency-Key. Only successful responses are
+ * stored: a failed request releases its key so the client can retry it.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly store: IdempotencyStore) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    const idempotencyKey = request.header(IDEMPOTENCY_HEADER);
+
+    if (!idempotencyKey || !MUTATING_METHODS.has(request.method)) {
+      return next.handle();
+    }
+    if (idempotencyKey.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key cannot exceed 255 characters',
+      );
+    }
+
+    // Keys are only unique per client, so scope them by caller
+    const scope = request.user?.id ?? request.ip;
+    const storeKey = `${scope}:${idempotencyKey}`;
+    const fingerprint = createHash('sha256')
+      .update(
+        JSON.stringify([request.method, request.originalUrl, request.body]),
+      )
+      .digest('hex');
+
+    const existing = this.store.get(storeKey);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityException(
+          'Idempotency-Key has already been used for a different request',
+        );
+      }
+      if (existing.state === 'in-flight') {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+      response.status(existing.statusCode!);
+      for (const [name, value] of Object.entries(existing.headers ?? {})) {
+        if (value !== undefined) {
+          response.setHeader(name, value);
+        }
+      }
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(existing.body);
+    }
+
+    this.store.begin(storeKey, fingerprint);
+    return next.handle().pipe(
+      tap((body) =>
+        this.store.complete(
+          storeKey,
+          response.statusCode,
+          body,
+          this.replayedHeaders(response),
+        ),
+      ),
+      catchError((error: unknown) => {
+        this.store.release(storeKey);
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  private replayedHeaders(response: Response): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = response.getHeader(name);
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    return headers;
+  }
+}
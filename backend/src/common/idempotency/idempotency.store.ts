@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { OutgoingHttpHeaders } from 'http';
+
+export interface IdempotencyRecord {
+  fingerprint: string;
+  state: 'in-flight' | 'completed';
+  statusCode?: number;
+  body?: unknown;
+  headers?: OutgoingHttpHeaders;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> = new Map();
+  private readonly ttlMs =
+    parseInt(process.env.IDEMPOTENCY_TTL_MS ?? '', 10) || DEFAULT_TTL_MS;
+
+  get(key: string): IdempotencyRecord | undefined {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  begin(key: string, fingerprint: string): void {
+    this.prune();
+    this.records.set(key, {
+      fingerprint,
+      state: 'in-flight',
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+
+  complete(
+    key: string,
+    statusCode: number,
+    body: unknown,
+    headers: OutgoingHttpHeaders = {},
+  ): void {
+    const record = this.records.get(key);
+    if (record) {
+      record.state = 'completed';
+      record.statusCode = statusCode;
+      record.headers = headers;
+      // Snapshot the body so later changes to the entity are not replayed
+      record.body = structuredClone(body);
+    }
+  }
+
+  release(key: string): void {
+    this.records.delete(key);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
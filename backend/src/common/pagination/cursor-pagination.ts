@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+export type CursorDirection = 'next' | 'prev';
+
+// Position of an item in a list sorted by descending key tuple, ties broken by ID
+interface CursorPosition {
+  key: number[];
+  id: string;
+}
+
+// Decoded cursor; the scope stops a cursor from one list or sort order being replayed against another
+interface CursorPayload extends CursorPosition {
+  scope: string;
+  direction: CursorDirection;
+}
+
+// Orders two positions the way paginated lists are sorted: larger keys first, then descending ID
+export function comparePositions(a: CursorPosition, b: CursorPosition): number {
+  for (let i = 0; i < Math.max(a.key.length, b.key.length); i++) {
+    const diff = (b.key[i] ?? 0) - (a.key[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return b.id.localeCompare(a.id);
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(
+    JSON.stringify([payload.scope, payload.direction, payload.key, payload.id]),
+  ).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, scope: string): CursorPayload {
+  try {
+    const [cursorScope, direction, key, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as unknown[];
+    if (
+      cursorScope === scope &&
+      (direction === 'next' || direction === 'prev') &&
+      Array.isArray(key) &&
+      key.every((part) => typeof part === 'number' && Number.isFinite(part)) &&
+      typeof id === 'string'
+    ) {
+      return { scope, direction, key: key as number[], id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
+
+/**
+ * Returns one page of `items`, which must already be sorted with `comparePositions`.
+ * Cursors record the sort key and ID of the page boundary rather than an index, so
+ * paging stays stable when items around the cursor are added or deleted.
+ */
+export function paginate<T extends { id: string }>(
+  items: T[],
+  sortKey: (item: T) => number[],
+  options: { scope: string; limit: number; cursor?: string },
+): Page<T> {
+  const { scope, limit } = options;
+  const position = (item: T): CursorPosition => ({
+    key: sortKey(item),
+    id: item.id,
+  });
+  const cursor = options.cursor
+    ? decodeCursor(options.cursor, scope)
+    : undefined;
+
+  // First index that sorts after the cursor position
+  const boundary = cursor
+    ? items.findIndex((item) => comparePositions(position(item), cursor) > 0)
+    : 0;
+  const after = boundary === -1 ? items.length : boundary;
+
+  let start: number;
+  let end: number;
+  if (cursor?.direction === 'prev') {
+    // Items strictly before the cursor, excluding the cursor item itself if it still exists
+    const before =
+      after > 0 && comparePositions(position(items[after - 1]), cursor) === 0
+        ? after - 1
+        : after;
+    start = Math.max(0, before - limit);
+    end = before;
+  } else {
+    start = after;
+    end = Math.min(items.length, after + limit);
+  }
+
+  const pageItems = items.slice(start, end);
+  // An empty page still links back to where it was requested from
+  const first = pageItems.length ? position(pageItems[0]) : cursor;
+  const last = pageItems.length
+    ? position(pageItems[pageItems.length - 1])
+    : cursor;
+
+  return {
+    items: pageItems,
+    nextCursor:
+      end < items.length && last
+        ? encodeCursor({ ...last, scope, direction: 'next' })
+        : undefined,
+    prevCursor:
+      start > 0 && first
+        ? encodeCursor({ ...first, scope, direction: 'prev' })
+        : undefined,
+  };
+}
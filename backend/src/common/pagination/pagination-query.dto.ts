@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class PaginationQueryDto {
+  // Opaque cursor from a previous page's nextCursor or prevCursor
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  cursor?: string;
+
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be a whole number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  @IsOptional()
+  limit?: number;
+}
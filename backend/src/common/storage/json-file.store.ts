@@ -0,0 +1,40 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+
+// Shape of T after a JSON round trip: Dates come back as ISO strings
+export type Jsonified<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Jsonified<U>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonified<T[K]> }
+      : T;
+
+/**
+ * Reads and writes a whole JSON document on disk.
+ * Writes go to a temporary file first and are renamed into place,
+ * so a crash mid-write never leaves a truncated snapshot behind.
+ */
+export class JsonFileStore<T> {
+  constructor(private readonly filePath: string) {}
+
+  read(): Jsonified<T> | undefined {
+    if (!existsSync(this.filePath)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(this.filePath, 'utf8')) as Jsonified<T>;
+  }
+
+  write(data: T): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data));
+    renameSync(tmpPath, this.filePath);
+  }
+}
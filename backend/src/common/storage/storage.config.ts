@@ -0,0 +1,25 @@
+import { join } from 'path';
+
+export type StorageDriver = 'memory' | 'file';
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  dataDir: string;
+}
+
+// STORAGE_DRIVER=file keeps data across restarts; the default stays in-memory
+export function getStorageConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): StorageConfig {
+  const driver = (env.STORAGE_DRIVER || 'memory').toLowerCase();
+  if (driver !== 'memory' && driver !== 'file') {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${driver}" (expected "memory" or "file")`,
+    );
+  }
+
+  return {
+    driver,
+    dataDir: env.STORAGE_DIR || join(process.cwd(), 'data'),
+  };
+}
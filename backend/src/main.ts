@@ -1,10 +1,21 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { json } from 'express';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/http-exception.filter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Board imports arrive as one JSON document, well past the 100kb default; every
+  // other route keeps the default. The import parser goes first, and the general
+  // one then skips bodies that are already parsed
+  app.use(
+    '/backup/import',
+    json({ limit: process.env.BACKUP_IMPORT_BODY_LIMIT || '20mb' }),
+  );
+  app.useBodyParser('json');
 
   // Global validation pipe
   app.useGlobalPipes(new ValidationPipe({
@@ -0,0 +1,38 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  AnnouncementCategory,
+} from '../../announcements/interfaces/announcement.interface';
+import {
+  NOTIFICATION_FREQUENCIES,
+  NotificationFrequency,
+  SUBSCRIPTION_SCOPES,
+  SubscriptionScope,
+} from '../interfaces/notification-subscription.interface';
+
+export class CreateSubscriptionDto {
+  @IsEnum(SUBSCRIPTION_SCOPES, {
+    message: `Scope must be one of: ${SUBSCRIPTION_SCOPES.join(', ')}`,
+  })
+  scope: SubscriptionScope;
+
+  // Required for category subscriptions
+  @IsEnum(ANNOUNCEMENT_CATEGORIES, {
+    message: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}`,
+  })
+  @IsOptional()
+  category?: AnnouncementCategory;
+
+  // Required for announcement subscriptions
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  announcementId?: string;
+
+  // Defaults to immediate
+  @IsEnum(NOTIFICATION_FREQUENCIES, {
+    message: `Frequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`,
+  })
+  @IsOptional()
+  frequency?: NotificationFrequency;
+}
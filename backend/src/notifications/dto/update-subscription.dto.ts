@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import {
+  NOTIFICATION_FREQUENCIES,
+  NotificationFrequency,
+} from '../interfaces/notification-subscription.interface';
+
+export class UpdateSubscriptionDto {
+  // Notifications already queued for a digest go out with it
+  @IsEnum(NOTIFICATION_FREQUENCIES, {
+    message: `Frequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`,
+  })
+  frequency: NotificationFrequency;
+}
@@ -0,0 +1,27 @@
+import { AnnouncementCategory } from '../../announcements/interfaces/announcement.interface';
+
+// all: every new announcement; category: new announcements in one category;
+// announcement: comments and changes on one announcement (a thread)
+export const SUBSCRIPTION_SCOPES = ['all', 'category', 'announcement'] as const;
+export type SubscriptionScope = (typeof SUBSCRIPTION_SCOPES)[number];
+
+// daily collects notifications into one digest a day
+export const NOTIFICATION_FREQUENCIES = ['immediate', 'daily'] as const;
+export type NotificationFrequency = (typeof NOTIFICATION_FREQUENCIES)[number];
+
+export interface NotificationSubscription {
+  id: string;
+  userId: string;
+  scope: SubscriptionScope;
+  category?: AnnouncementCategory; // Set for category subscriptions
+  announcementId?: string; // Set for announcement subscriptions
+  frequency: NotificationFrequency;
+  unsubscribeToken: string; // Lets the link in a notification end the subscription without signing in
+  createdAt: Date;
+}
+
+// Subscription as exposed over the API, without its unsubscribe token
+export type NotificationSubscriptionView = Omit<
+  NotificationSubscription,
+  'unsubscribeToken'
+>;
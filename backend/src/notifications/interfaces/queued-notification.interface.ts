@@ -0,0 +1,9 @@
+// A notification held back for the recipient's next daily digest
+export interface QueuedNotification {
+  id: string;
+  userId: string;
+  subscriptionId: string;
+  announcementId: string;
+  text: string; // One line for the digest
+  createdAt: Date;
+}
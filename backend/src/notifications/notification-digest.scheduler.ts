@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+
+/**
+ * Checks periodically whether the daily digests are due and sends them.
+ * The interval comes from NOTIFICATIONS_DIGEST_INTERVAL_MS (default one
+ * minute; 0 disables it).
+ */
+@Injectable()
+export class NotificationDigestScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationDigestScheduler.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  onApplicationBootstrap(): void {
+    const intervalMs = parseInt(
+      process.env.NOTIFICATIONS_DIGEST_INTERVAL_MS ?? '60000',
+      10,
+    );
+    if (!(intervalMs > 0)) {
+      return;
+    }
+
+    void this.sweep();
+    this.timer = setInterval(() => void this.sweep(), intervalMs);
+    // Don't keep the process alive just for the digests
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async sweep(): Promise<void> {
+    try {
+      const sent = await this.notificationsService.sendDailyDigests();
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} daily digest(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send daily digests', error);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { join } from 'path';
+import { getStorageConfig } from '../common/storage/storage.config';
+
+export type NotificationTransportDriver = 'outbox' | 'smtp';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+}
+
+export interface NotificationsConfig {
+  transport: NotificationTransportDriver;
+  from: string;
+  outboxDir: string;
+  smtp: SmtpConfig;
+  appUrl: string; // Where links to the board point
+  apiUrl: string; // Where unsubscribe links point
+  digestHourUtc: number; // Daily digests go out once this hour has begun
+}
+
+// Without SMTP settings, notifications are written to an outbox directory instead of sent
+export function getNotificationsConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): NotificationsConfig {
+  const transport = (
+    env.NOTIFICATIONS_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'outbox')
+  ).toLowerCase();
+  if (transport !== 'outbox' && transport !== 'smtp') {
+    throw new Error(
+      `Unknown NOTIFICATIONS_TRANSPORT "${transport}" (expected "outbox" or "smtp")`,
+    );
+  }
+
+  const secure = env.SMTP_SECURE === 'true';
+  const digestHour = parseInt(env.NOTIFICATIONS_DIGEST_HOUR_UTC ?? '', 10);
+
+  return {
+    transport,
+    from: env.NOTIFICATIONS_FROM || 'Notice Board <noreply@localhost>',
+    outboxDir:
+      env.NOTIFICATIONS_OUTBOX_DIR ||
+      join(getStorageConfig(env).dataDir, 'outbox'),
+    smtp: {
+      host: env.SMTP_HOST || 'localhost',
+      port: parseInt(env.SMTP_PORT ?? '', 10) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+    },
+    appUrl: (env.APP_URL || 'http://localhost:5173').replace(/\/$/, ''),
+    apiUrl: (env.API_URL || 'http://localhost:4000').replace(/\/$/, ''),
+    digestHourUtc: digestHour >= 0 && digestHour <= 23 ? digestHour : 7,
+  };
+}
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { UpdateSubscriptionDto } from './dto/update-subscription.dto';
+import { NotificationSubscriptionView } from './interfaces/notification-subscription.interface';
+import { NotificationsService } from './notifications.service';
+import { UNSUBSCRIBE_PAGE } from './unsubscribe-page';
+
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get('subscriptions')
+  findMine(
+    @CurrentUser() user: AuthenticatedUser,
+  ): NotificationSubscriptionView[] {
+    return this.notificationsService.findByUser(user.id);
+  }
+
+  @Post('subscriptions')
+  subscribe(
+    @Body() createSubscriptionDto: CreateSubscriptionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): NotificationSubscriptionView {
+    return this.notificationsService.subscribe(createSubscriptionDto, user);
+  }
+
+  @Patch('subscriptions/:id')
+  update(
+    @Param('id') id: string,
+    @Body() updateSubscriptionDto: UpdateSubscriptionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): NotificationSubscriptionView {
+    return this.notificationsService.update(id, updateSubscriptionDto, user.id);
+  }
+
+  @Delete('subscriptions/:id')
+  @HttpCode(204)
+  remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): void {
+    return this.notificationsService.remove(id, user.id);
+  }
+
+  // The link in each notification only asks for confirmation, since link
+  // scanners and mail previews open it without the recipient choosing to
+  @Public()
+  @Get('unsubscribe/:token')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  confirmUnsubscribe(@Param('token') token: string): string {
+    this.notificationsService.findByUnsubscribeToken(token); // 404 for stale links
+    return UNSUBSCRIBE_PAGE;
+  }
+
+  // The confirmation page's button, and one-click unsubscribe from mail clients (List-Unsubscribe-Post)
+  @Public()
+  @Post('unsubscribe/:token')
+  @HttpCode(200)
+  unsubscribe(@Param('token') token: string): { message: string } {
+    this.notificationsService.unsubscribe(token);
+    return { message: 'You have been unsubscribed' };
+  }
+}
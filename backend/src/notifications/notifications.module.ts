@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { AnnouncementsModule } from '../announcements/announcements.module';
+import { UsersModule } from '../users/users.module';
+import { NotificationDigestScheduler } from './notification-digest.scheduler';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { notificationsRepositoryProvider } from './repositories/notifications-repository.provider';
+import { notificationTransportProvider } from './transports/notification-transport.provider';
+
+@Module({
+  imports: [AnnouncementsModule, UsersModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationDigestScheduler,
+    notificationsRepositoryProvider,
+    notificationTransportProvider,
+  ],
+})
+export class NotificationsModule {}
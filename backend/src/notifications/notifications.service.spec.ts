@@ -0,0 +1,168 @@
+import { Logger } from '@nestjs/common';
+import { AnnouncementsService } from '../announcements/announcements.service';
+import { AnnouncementEventsService } from '../announcements/events/announcement-events.service';
+import { CommentModerationService } from '../announcements/moderation/comment-moderation.service';
+import { InMemoryAnnouncementsRepository } from '../announcements/repositories/in-memory-announcements.repository';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { BoardSettingsService } from '../board/board-settings.service';
+import { InMemoryBoardSettingsRepository } from '../board/repositories/in-memory-board-settings.repository';
+import { InMemoryUsersRepository } from '../users/repositories/in-memory-users.repository';
+import { UsersService } from '../users/users.service';
+import { NotificationsService } from './notifications.service';
+import { InMemoryNotificationsRepository } from './repositories/in-memory-notifications.repository';
+import {
+  NotificationMessage,
+  NotificationTransport,
+} from './transports/notification-transport';
+
+// Keeps what would have been sent
+class CapturingTransport extends NotificationTransport {
+  sent: NotificationMessage[] = [];
+
+  send(message: NotificationMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+describe('NotificationsService', () => {
+  let transport: CapturingTransport;
+  let users: UsersService;
+  let announcements: AnnouncementsService;
+  let service: NotificationsService;
+  let author: AuthenticatedUser;
+  let asha: AuthenticatedUser;
+  let ravi: AuthenticatedUser;
+
+  beforeEach(() => {
+    transport = new CapturingTransport();
+    users = new UsersService(new InMemoryUsersRepository());
+    const events = new AnnouncementEventsService();
+    const boardSettings = new BoardSettingsService(
+      new InMemoryBoardSettingsRepository(),
+    );
+    announcements = new AnnouncementsService(
+      new InMemoryAnnouncementsRepository(),
+      events,
+      boardSettings,
+      new CommentModerationService([]),
+      users,
+    );
+    service = new NotificationsService(
+      new InMemoryNotificationsRepository(),
+      transport,
+      events,
+      announcements,
+      users,
+    );
+    service.onModuleInit();
+
+    [author, asha, ravi] = ['author', 'asha', 'ravi'].map((name) =>
+      users.toProfile(users.create(`${name}@example.com`, name)),
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('notifies all and category subscribers of new announcements', () => {
+    service.subscribe({ scope: 'all' }, author);
+    service.subscribe({ scope: 'all' }, asha);
+    service.subscribe({ scope: 'category', category: 'security' }, asha);
+    service.subscribe({ scope: 'category', category: 'events' }, ravi);
+
+    announcements.create(
+      { title: 'Gate code changes', category: 'security' },
+      author.id,
+    );
+
+    // The author hears nothing about their own notice, and Asha hears once
+    expect(transport.sent.map((message) => message.to)).toEqual([
+      'asha@example.com',
+    ]);
+    const [message] = transport.sent;
+    expect(message.subject).toBe('New announcement: Gate code changes');
+    expect(message.text).toContain(message.unsubscribeUrl);
+
+    // Opening the link only looks the subscription up; confirming ends just that one
+    const token = message.unsubscribeUrl.split('/').pop()!;
+    expect(service.findByUnsubscribeToken(token)).toMatchObject({
+      scope: 'all',
+    });
+    expect(service.findByUser(asha.id)).toHaveLength(2);
+    service.unsubscribe(token);
+    expect(service.findByUser(asha.id)).toMatchObject([
+      { scope: 'category', category: 'security' },
+    ]);
+  });
+
+  it('collects thread updates into one daily digest', async () => {
+    const announcement = announcements.create(
+      { title: 'Lift repair' },
+      author.id,
+    );
+    service.subscribe(
+      { scope: 'announcement', announcementId: announcement.id },
+      author,
+    );
+    service.subscribe(
+      {
+        scope: 'announcement',
+        announcementId: announcement.id,
+        frequency: 'daily',
+      },
+      asha,
+    );
+
+    announcements.addComment(
+      announcement.id,
+      { authorName: 'asha', text: 'Which floors?' },
+      asha.id,
+    );
+    announcements.update(announcement.id, { status: 'closed' }, author);
+
+    // The author follows immediately; Asha's digest waits
+    expect(transport.sent.map((message) => message.subject)).toEqual([
+      'New comment on Lift repair',
+      'Closed: Lift repair',
+    ]);
+
+    const morning = new Date();
+    morning.setUTCDate(morning.getUTCDate() + 1);
+    morning.setUTCHours(8, 0, 0, 0);
+    expect(await service.sendDailyDigests(morning)).toBe(1);
+    const digest = transport.sent[2];
+    expect(digest.to).toBe('asha@example.com');
+    expect(digest.text).toContain('"Lift repair" was closed');
+    expect(digest.text).not.toContain('Which floors?'); // Her own comment
+
+    // Once a day at most
+    morning.setUTCHours(9);
+    expect(await service.sendDailyDigests(morning)).toBe(0);
+  });
+
+  it('logs a failed notification without failing the write behind it', () => {
+    service.subscribe({ scope: 'all' }, asha);
+    const error = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    jest.spyOn(transport, 'send').mockImplementationOnce(() => {
+      throw new Error('Transport not configured');
+    });
+
+    const announcement = announcements.create(
+      { title: 'Gate code changes' },
+      author.id,
+    );
+    expect(
+      announcements.findOneWithDetail(announcement.id).announcement.title,
+    ).toBe('Gate code changes');
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+
+    // Later events still reach subscribers
+    announcements.create({ title: 'Bin day moves' }, author.id);
+    expect(transport.sent.map((message) => message.subject)).toEqual([
+      'New announcement: Bin day moves',
+    ]);
+  });
+});
@@ -0,0 +1,478 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { AnnouncementsService } from '../announcements/announcements.service';
+import { AnnouncementEventsService } from '../announcements/events/announcement-events.service';
+import { AnnouncementCategory } from '../announcements/interfaces/announcement.interface';
+import { BoardEvent } from '../announcements/interfaces/board-event.interface';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { User } from '../users/interfaces/user.interface';
+import { UsersService } from '../users/users.service';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { UpdateSubscriptionDto } from './dto/update-subscription.dto';
+import {
+  NotificationSubscription,
+  NotificationSubscriptionView,
+} from './interfaces/notification-subscription.interface';
+import { QueuedNotification } from './interfaces/queued-notification.interface';
+import { getNotificationsConfig } from './notifications.config';
+import { NotificationsRepository } from './repositories/notifications.repository';
+import {
+  NotificationMessage,
+  NotificationTransport,
+} from './transports/notification-transport';
+
+// Longer comments are cut to this many characters in notifications
+const EXCERPT_LENGTH = 140;
+
+// What a board event means for subscribers
+interface Notice {
+  announcementId: string;
+  category?: AnnouncementCategory;
+  // New announcements reach all and category subscribers; everything else only an announcement's followers
+  newAnnouncement: boolean;
+  actorId?: string; // Not notified about their own activity
+  title?: string; // Looked up when the event doesn't carry it
+  render: (title: string) => { subject: string; line: string };
+}
+
+/**
+ * Turns board activity into notifications for residents who subscribed to it:
+ * sent straight away through the configured transport, or queued for the
+ * recipient's daily digest.
+ */
+@Injectable()
+export class NotificationsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly config = getNotificationsConfig();
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly repository: NotificationsRepository,
+    private readonly transport: NotificationTransport,
+    private readonly events: AnnouncementEventsService,
+    private readonly announcements: AnnouncementsService,
+    private readonly users: UsersService,
+  ) {}
+
+  onModuleInit(): void {
+    this.subscription = this.events
+      .stream()
+      .subscribe((event) => this.notify(event));
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  findByUser(userId: string): NotificationSubscriptionView[] {
+    return this.repository
+      .findSubscriptionsByUser(userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((subscription) => this.toView(subscription));
+  }
+
+  subscribe(
+    createSubscriptionDto: CreateSubscriptionDto,
+    user: AuthenticatedUser,
+  ): NotificationSubscriptionView {
+    const { scope, category, announcementId } = createSubscriptionDto;
+    if (scope === 'category' ? !category : category) {
+      throw new BadRequestException(
+        'Give a category for category subscriptions, and only for them',
+      );
+    }
+    if (scope === 'announcement' ? !announcementId : announcementId) {
+      throw new BadRequestException(
+        'Give an announcementId for announcement subscriptions, and only for them',
+      );
+    }
+    if (announcementId) {
+      // Throws for announcements the user can't see
+      this.announcements.findOneWithDetail(announcementId, user);
+    }
+
+    const existing = this.repository
+      .findSubscriptionsByUser(user.id)
+      .find(
+        (subscription) =>
+          subscription.scope === scope &&
+          subscription.category === category &&
+          subscription.announcementId === announcementId,
+      );
+    if (existing) {
+      throw new ConflictException('You are already subscribed to this');
+    }
+
+    return this.toView(
+      this.repository.saveSubscription({
+        id: uuidv4(),
+        userId: user.id,
+        scope,
+        category,
+        announcementId,
+        frequency: createSubscriptionDto.frequency ?? 'immediate',
+        unsubscribeToken: randomBytes(24).toString('base64url'),
+        createdAt: new Date(),
+      }),
+    );
+  }
+
+  update(
+    id: string,
+    updateSubscriptionDto: UpdateSubscriptionDto,
+    userId: string,
+  ): NotificationSubscriptionView {
+    const subscription = this.findOwnSubscriptionOrFail(id, userId);
+    return this.toView(
+      this.repository.saveSubscription({
+        ...subscription,
+        frequency: updateSubscriptionDto.frequency,
+      }),
+    );
+  }
+
+  remove(id: string, userId: string): void {
+    this.findOwnSubscriptionOrFail(id, userId);
+    this.repository.deleteSubscription(id);
+  }
+
+  // For the link in every notification, which works without signing in
+  findByUnsubscribeToken(token: string): NotificationSubscriptionView {
+    return this.toView(this.findByTokenOrFail(token));
+  }
+
+  unsubscribe(token: string): NotificationSubscriptionView {
+    const subscription = this.findByTokenOrFail(token);
+    this.repository.deleteSubscription(subscription.id);
+    return this.toView(subscription);
+  }
+
+  /**
+   * Sends everyone's queued notifications as one digest each, at most once a
+   * day after the configured hour. Run periodically by the scheduler; returns
+   * how many digests went out. Digests that fail to send stay queued for the next one.
+   */
+  async sendDailyDigests(now: Date = new Date()): Promise<number> {
+    const lastDigestAt = this.repository.getLastDigestAt();
+    if (lastDigestAt && lastDigestAt >= this.digestDueAt(now)) {
+      return 0;
+    }
+    this.repository.setLastDigestAt(now);
+
+    const byUser = new Map<string, QueuedNotification[]>();
+    for (const notification of this.repository.findAllQueued()) {
+      byUser.set(notification.userId, [
+        ...(byUser.get(notification.userId) ?? []),
+        notification,
+      ]);
+    }
+
+    let sent = 0;
+    for (const [userId, notifications] of byUser) {
+      const ids = notifications.map((notification) => notification.id);
+      const user = this.users.findById(userId);
+      if (!user) {
+        this.repository.deleteQueued(ids);
+        continue;
+      }
+
+      try {
+        await this.transport.send(this.toDigest(user, notifications));
+        this.repository.deleteQueued(ids);
+        sent++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to send the daily digest to ${user.email}`,
+          error,
+        );
+      }
+    }
+    return sent;
+  }
+
+  toView(subscription: NotificationSubscription): NotificationSubscriptionView {
+    return {
+      id: subscription.id,
+      userId: subscription.userId,
+      scope: subscription.scope,
+      category: subscription.category,
+      announcementId: subscription.announcementId,
+      frequency: subscription.frequency,
+      createdAt: subscription.createdAt,
+    };
+  }
+
+  private findOwnSubscriptionOrFail(
+    id: string,
+    userId: string,
+  ): NotificationSubscription {
+    const subscription = this.repository.findSubscription(id);
+    if (!subscription || subscription.userId !== userId) {
+      throw new NotFoundException(`Subscription with ID ${id} not found`);
+    }
+    return subscription;
+  }
+
+  private findByTokenOrFail(token: string): NotificationSubscription {
+    const subscription = this.repository.findSubscriptionByToken(token);
+    if (!subscription) {
+      throw new NotFoundException(
+        'This unsubscribe link is no longer valid; the subscription may already be gone',
+      );
+    }
+    return subscription;
+  }
+
+  // Called synchronously from events.emit, so an error here would land in the
+  // announcement write that raised the event; it is logged and dropped instead
+  private notify(event: BoardEvent): void {
+    try {
+      this.notifySubscribers(event);
+    } catch (error) {
+      this.logger.error(`Failed to notify subscribers of ${event.type}`, error);
+    }
+  }
+
+  private notifySubscribers(event: BoardEvent): void {
+    const notice = this.toNotice(event);
+    if (!notice) {
+      return;
+    }
+
+    // One notification per person however many of their subscriptions match;
+    // an immediate subscription wins over a daily one
+    const recipients = new Map<string, NotificationSubscription>();
+    for (const subscription of this.repository.findAllSubscriptions()) {
+      if (
+        subscription.userId === notice.actorId ||
+        !this.matches(subscription, notice)
+      ) {
+        continue;
+      }
+      const chosen = recipients.get(subscription.userId);
+      if (!chosen || chosen.frequency === 'daily') {
+        recipients.set(subscription.userId, subscription);
+      }
+    }
+    if (recipients.size === 0) {
+      return;
+    }
+
+    const title = notice.title ?? this.findTitle(notice.announcementId);
+    if (title === undefined) {
+      return;
+    }
+    const { subject, line } = notice.render(title);
+
+    for (const subscription of recipients.values()) {
+      if (subscription.frequency === 'daily') {
+        this.repository.saveQueued({
+          id: uuidv4(),
+          userId: subscription.userId,
+          subscriptionId: subscription.id,
+          announcementId: notice.announcementId,
+          text: line,
+          createdAt: new Date(),
+        });
+        continue;
+      }
+
+      const user = this.users.findById(subscription.userId);
+      if (!user) {
+        continue;
+      }
+      this.transport
+        .send({
+          to: user.email,
+          subject,
+          text: [
+            `Hi ${user.displayName},`,
+            line,
+            `Open the notice board: ${this.config.appUrl}`,
+            this.unsubscribeFooter([subscription], title),
+          ].join('\n\n'),
+          unsubscribeUrl: this.unsubscribeUrl(subscription),
+        })
+        .catch((error) =>
+          this.logger.error(
+            `Failed to send a notification to ${user.email}`,
+            error,
+          ),
+        );
+    }
+  }
+
+  private toNotice(event: BoardEvent): Notice | undefined {
+    switch (event.type) {
+      case 'announcement.created':
+        return {
+          announcementId: event.announcement.id,
+          category: event.announcement.category,
+          newAnnouncement: true,
+          actorId: event.announcement.authorId,
+          title: event.announcement.title,
+          render: (title) => ({
+            subject: `New announcement: ${title}`,
+            line: event.announcement.description
+              ? `New announcement: "${title}"\n${this.excerpt(event.announcement.description)}`
+              : `New announcement: "${title}"`,
+          }),
+        };
+      case 'announcement.edited':
+        return {
+          announcementId: event.announcementId,
+          newAnnouncement: false,
+          title: event.title,
+          render: (title) => ({
+            subject: `Updated: ${title}`,
+            line: `"${title}" was updated`,
+          }),
+        };
+      case 'announcement.status_changed':
+        return {
+          announcementId: event.announcementId,
+          newAnnouncement: false,
+          render: (title) => ({
+            subject: `${event.status === 'closed' ? 'Closed' : 'Reopened'}: ${title}`,
+            line: `"${title}" was ${event.status === 'closed' ? 'closed' : 'reopened'}`,
+          }),
+        };
+      case 'comment.added':
+        return {
+          announcementId: event.announcementId,
+          newAnnouncement: false,
+          actorId: event.comment.userId,
+          render: (title) => ({
+            subject: `New comment on ${title}`,
+            line: `${event.comment.authorName} commented on "${title}": ${this.excerpt(event.comment.text)}`,
+          }),
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  private matches(
+    subscription: NotificationSubscription,
+    notice: Notice,
+  ): boolean {
+    switch (subscription.scope) {
+      case 'all':
+        return notice.newAnnouncement;
+      case 'category':
+        return (
+          notice.newAnnouncement && subscription.category === notice.category
+        );
+      case 'announcement':
+        return (
+          !notice.newAnnouncement &&
+          subscription.announcementId === notice.announcementId
+        );
+    }
+  }
+
+  private findTitle(announcementId: string): string | undefined {
+    try {
+      return this.announcements.findOneWithDetail(announcementId).announcement
+        .title;
+    } catch {
+      return undefined; // Deleted or no longer public
+    }
+  }
+
+  private toDigest(
+    user: User,
+    notifications: QueuedNotification[],
+  ): NotificationMessage {
+    const subscriptions = [
+      ...new Set(
+        notifications.map((notification) => notification.subscriptionId),
+      ),
+    ]
+      .map((id) => this.repository.findSubscription(id))
+      .filter(
+        (subscription): subscription is NotificationSubscription =>
+          !!subscription,
+      );
+    const count = notifications.length;
+
+    return {
+      to: user.email,
+      subject: `Your daily notice board digest: ${count} ${count === 1 ? 'update' : 'updates'}`,
+      text: [
+        `Hi ${user.displayName}, here is what happened on the notice board:`,
+        notifications
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map((notification) => `- ${notification.text}`)
+          .join('\n'),
+        `Open the notice board: ${this.config.appUrl}`,
+        this.unsubscribeFooter(subscriptions),
+      ].join('\n\n'),
+      unsubscribeUrl: this.unsubscribeUrl(subscriptions[0]),
+    };
+  }
+
+  private unsubscribeFooter(
+    subscriptions: NotificationSubscription[],
+    title?: string,
+  ): string {
+    return [
+      '--',
+      ...subscriptions.map(
+        (subscription) =>
+          `You get this for ${this.describeSubscription(subscription, title)}. Unsubscribe: ${this.unsubscribeUrl(subscription)}`,
+      ),
+    ].join('\n');
+  }
+
+  private describeSubscription(
+    subscription: NotificationSubscription,
+    title?: string,
+  ): string {
+    switch (subscription.scope) {
+      case 'all':
+        return 'all new announcements';
+      case 'category':
+        return `new ${subscription.category} announcements`;
+      case 'announcement':
+        return title ? `updates on "${title}"` : 'an announcement you follow';
+    }
+  }
+
+  private unsubscribeUrl(subscription: NotificationSubscription): string {
+    return `${this.config.apiUrl}/notifications/unsubscribe/${subscription.unsubscribeToken}`;
+  }
+
+  // Start of the most recent digest window: today's digest hour, or yesterday's if it hasn't come yet
+  private digestDueAt(now: Date): Date {
+    const dueAt = new Date(
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate(),
+        this.config.digestHourUtc,
+      ),
+    );
+    if (dueAt > now) {
+      dueAt.setUTCDate(dueAt.getUTCDate() - 1);
+    }
+    return dueAt;
+  }
+
+  private excerpt(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > EXCERPT_LENGTH
+      ? `${singleLine.slice(0, EXCERPT_LENGTH - 1)}…`
+      : singleLine;
+  }
+}
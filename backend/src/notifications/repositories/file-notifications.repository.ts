@@ -0,0 +1,51 @@
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { NotificationSubscription } from '../interfaces/notification-subscription.interface';
+import { QueuedNotification } from '../interfaces/queued-notification.interface';
+import { InMemoryNotificationsRepository } from './in-memory-notifications.repository';
+
+interface NotificationsSnapshot {
+  subscriptions: NotificationSubscription[];
+  queued: QueuedNotification[];
+  lastDigestAt?: Date;
+}
+
+export class FileNotificationsRepository extends InMemoryNotificationsRepository {
+  private readonly store: JsonFileStore<NotificationsSnapshot>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+    this.load();
+  }
+
+  protected changed(): void {
+    this.store.write({
+      subscriptions: this.findAllSubscriptions(),
+      queued: this.findAllQueued(),
+      lastDigestAt: this.lastDigestAt,
+    });
+  }
+
+  private load(): void {
+    const snapshot = this.store.read();
+    if (!snapshot) {
+      return;
+    }
+
+    for (const stored of snapshot.subscriptions) {
+      this.subscriptions.set(stored.id, {
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+      });
+    }
+    for (const stored of snapshot.queued) {
+      this.queued.set(stored.id, {
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+      });
+    }
+    this.lastDigestAt = snapshot.lastDigestAt
+      ? new Date(snapshot.lastDigestAt)
+      : undefined;
+  }
+}
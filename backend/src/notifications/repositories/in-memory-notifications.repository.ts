@@ -0,0 +1,76 @@
+import { NotificationSubscription } from '../interfaces/notification-subscription.interface';
+import { QueuedNotification } from '../interfaces/queued-notification.interface';
+import { NotificationsRepository } from './notifications.repository';
+
+export class InMemoryNotificationsRepository extends NotificationsRepository {
+  protected subscriptions: Map<string, NotificationSubscription> = new Map();
+  protected queued: Map<string, QueuedNotification> = new Map();
+  protected lastDigestAt?: Date;
+
+  findAllSubscriptions(): NotificationSubscription[] {
+    return [...this.subscriptions.values()];
+  }
+
+  findSubscriptionsByUser(userId: string): NotificationSubscription[] {
+    return this.findAllSubscriptions().filter(
+      (subscription) => subscription.userId === userId,
+    );
+  }
+
+  findSubscription(id: string): NotificationSubscription | undefined {
+    return this.subscriptions.get(id);
+  }
+
+  findSubscriptionByToken(token: string): NotificationSubscription | undefined {
+    return this.findAllSubscriptions().find(
+      (subscription) => subscription.unsubscribeToken === token,
+    );
+  }
+
+  saveSubscription(
+    subscription: NotificationSubscription,
+  ): NotificationSubscription {
+    this.subscriptions.set(subscription.id, subscription);
+    this.changed();
+    return subscription;
+  }
+
+  deleteSubscription(id: string): void {
+    this.subscriptions.delete(id);
+    for (const notification of this.queued.values()) {
+      if (notification.subscriptionId === id) {
+        this.queued.delete(notification.id);
+      }
+    }
+    this.changed();
+  }
+
+  findAllQueued(): QueuedNotification[] {
+    return [...this.queued.values()];
+  }
+
+  saveQueued(notification: QueuedNotification): QueuedNotification {
+    this.queued.set(notification.id, notification);
+    this.changed();
+    return notification;
+  }
+
+  deleteQueued(ids: string[]): void {
+    for (const id of ids) {
+      this.queued.delete(id);
+    }
+    this.changed();
+  }
+
+  getLastDigestAt(): Date | undefined {
+    return this.lastDigestAt;
+  }
+
+  setLastDigestAt(at: Date): void {
+    this.lastDigestAt = at;
+    this.changed();
+  }
+
+  // Hook for subclasses that need to persist after every write
+  protected changed(): void {}
+}
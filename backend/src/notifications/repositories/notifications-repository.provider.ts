@@ -0,0 +1,19 @@
+import { Provider } from '@nestjs/common';
+import { join } from 'path';
+import { getStorageConfig } from '../../common/storage/storage.config';
+import { FileNotificationsRepository } from './file-notifications.repository';
+import { InMemoryNotificationsRepository } from './in-memory-notifications.repository';
+import { NotificationsRepository } from './notifications.repository';
+
+export const notificationsRepositoryProvider: Provider = {
+  provide: NotificationsRepository,
+  useFactory: (): NotificationsRepository => {
+    const { driver, dataDir } = getStorageConfig();
+    if (driver === 'file') {
+      return new FileNotificationsRepository(
+        join(dataDir, 'notifications.json'),
+      );
+    }
+    return new InMemoryNotificationsRepository();
+  },
+};
@@ -0,0 +1,24 @@
+import { NotificationSubscription } from '../interfaces/notification-subscription.interface';
+import { QueuedNotification } from '../interfaces/queued-notification.interface';
+
+export abstract class NotificationsRepository {
+  abstract findAllSubscriptions(): NotificationSubscription[];
+  abstract findSubscriptionsByUser(userId: string): NotificationSubscription[];
+  abstract findSubscription(id: string): NotificationSubscription | undefined;
+  abstract findSubscriptionByToken(
+    token: string,
+  ): NotificationSubscription | undefined;
+  abstract saveSubscription(
+    subscription: NotificationSubscription,
+  ): NotificationSubscription;
+  // Also drops notifications queued for it
+  abstract deleteSubscription(id: string): void;
+
+  abstract findAllQueued(): QueuedNotification[];
+  abstract saveQueued(notification: QueuedNotification): QueuedNotification;
+  abstract deleteQueued(ids: string[]): void;
+
+  // When digests last went out; undefined before the first run
+  abstract getLastDigestAt(): Date | undefined;
+  abstract setLastDigestAt(at: Date): void;
+}
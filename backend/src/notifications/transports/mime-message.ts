@@ -0,0 +1,35 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationMessage } from './notification-transport';
+
+// Renders a notification as a plain-text email, with CRLF line endings as SMTP expects
+export function formatMimeMessage(
+  from: string,
+  message: NotificationMessage,
+  date: Date = new Date(),
+): string {
+  const domain = /@([^>\s]+)/.exec(from)?.[1] ?? 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    `List-Unsubscribe: <${message.unsubscribeUrl}>`,
+    'List-Unsubscribe-Post: List-Unsubscribe=One-Click',
+  ];
+  const body = Buffer.from(message.text, 'utf8')
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// Line breaks would start a new header; non-ASCII text needs an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
@@ -0,0 +1,17 @@
+import { Provider } from '@nestjs/common';
+import { getNotificationsConfig } from '../notifications.config';
+import { NotificationTransport } from './notification-transport';
+import { OutboxNotificationTransport } from './outbox.transport';
+import { SmtpNotificationTransport } from './smtp.transport';
+
+// Register further transports here, selected by NOTIFICATIONS_TRANSPORT
+export const notificationTransportProvider: Provider = {
+  provide: NotificationTransport,
+  useFactory: (): NotificationTransport => {
+    const { transport, from, outboxDir, smtp } = getNotificationsConfig();
+    if (transport === 'smtp') {
+      return new SmtpNotificationTransport(smtp, from);
+    }
+    return new OutboxNotificationTransport(outboxDir, from);
+  },
+};
@@ -0,0 +1,14 @@
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+  unsubscribeUrl: string; // Also sent as List-Unsubscribe so mail clients can offer it
+}
+
+/**
+ * Delivers a finished notification. Register further transports in
+ * notification-transport.provider.ts.
+ */
+export abstract class NotificationTransport {
+  abstract send(message: NotificationMessage): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { formatMimeMessage } from './mime-message';
+import {
+  NotificationMessage,
+  NotificationTransport,
+} from './notification-transport';
+
+// Writes each notification to a .eml file instead of sending it, for local use
+export class OutboxNotificationTransport extends NotificationTransport {
+  constructor(
+    private readonly dir: string,
+    private readonly from: string,
+  ) {
+    super();
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    // Sortable by time, unique within the same millisecond
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4().slice(0, 8)}.eml`;
+    await writeFile(
+      join(this.dir, name),
+      formatMimeMessage(this.from, message),
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import * as mimeMessage from './mime-message';
+import { NotificationMessage } from './notification-transport';
+import { SmtpNotificationTransport } from './smtp.transport';
+
+const message: NotificationMessage = {
+  to: 'Asha <asha@example.com>',
+  subject: 'New comment on Lift repair',
+  text: 'Ravi: Which floors?',
+  unsubscribeUrl: 'https://api.example.com/notifications/unsubscribe?token=x',
+};
+
+interface FakeSmtpServer {
+  port: number;
+  commands: string[]; // Everything the client sent outside DATA
+  messages: string[]; // Each message as the client meant it, with dot-stuffing undone
+  close(): Promise<void>;
+}
+
+/**
+ * A scripted SMTP server on a random local port. Replies default to success;
+ * `replies` overrides them by command verb, and replies are written in
+ * pieces so the client has to reassemble lines and multi-line replies.
+ */
+async function startFakeSmtpServer(
+  options: {
+    greeting?: string;
+    extensions?: string[];
+    replies?: Record<string, string>;
+  } = {},
+): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const extensions = options.extensions ?? ['SIZE 10240000', 'AUTH PLAIN'];
+  const defaults: Record<string, string> = {
+    EHLO: ['fake.example', ...extensions]
+      .map((line, i, all) => `250${i < all.length - 1 ? '-' : ' '}${line}`)
+      .join('\r\n'),
+    AUTH: '235 2.7.0 Authenticated',
+    MAIL: '250 2.1.0 OK',
+    RCPT: '250 2.1.5 OK',
+    DATA: '354 End data with <CR><LF>.<CR><LF>',
+    QUIT: '221 2.0.0 Bye',
+  };
+
+  const reply = (socket: Socket, text: string) => {
+    const raw = `${text}\r\n`;
+    const middle = Math.floor(raw.length / 2);
+    socket.write(raw.slice(0, middle));
+    socket.write(raw.slice(middle));
+  };
+
+  const server: Server = createServer((socket) => {
+    socket.setEncoding('utf8');
+    let buffer = '';
+    let data: string[] | undefined;
+    reply(socket, options.greeting ?? '220 fake.example ESMTP');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = undefined;
+            reply(socket, options.replies?.['.'] ?? '250 2.0.0 Queued');
+          } else {
+            data.push(line.startsWith('.') ? line.slice(1) : line);
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        const answer =
+          options.replies?.[verb] ?? defaults[verb] ?? '502 5.5.2 Unknown';
+        reply(socket, answer);
+        if (verb === 'DATA' && answer.startsWith('354')) {
+          data = [];
+        }
+        if (verb === 'QUIT') {
+          socket.end();
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function transportFor(
+  server: FakeSmtpServer,
+  credentials: { user?: string; pass?: string } = {},
+): SmtpNotificationTransport {
+  return new SmtpNotificationTransport(
+    { host: '127.0.0.1', port: server.port, secure: false, ...credentials },
+    'Notice Board <board@example.com>',
+  );
+}
+
+describe('SmtpNotificationTransport', () => {
+  let server: FakeSmtpServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('reads a multi-line EHLO reply and carries on in plain text without STARTTLS', async () => {
+    server = await startFakeSmtpServer();
+
+    await transportFor(server, { user: 'board', pass: 'secret' }).send(message);
+
+    const credentials = Buffer.from('\0board\0secret').toString('base64');
+    expect(server.commands).toEqual([
+      expect.stringMatching(/^EHLO \S+$/) as unknown,
+      `AUTH PLAIN ${credentials}`,
+      'MAIL FROM:<board@example.com>',
+      'RCPT TO:<asha@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(server.messages).toHaveLength(1);
+    expect(server.messages[0]).toContain('Subject: New comment on Lift repair');
+    expect(server.messages[0]).toContain(
+      Buffer.from(message.text).toString('base64'),
+    );
+  });
+
+  it('doubles dots at the start of lines so they arrive intact', async () => {
+    server = await startFakeSmtpServer();
+    const format = jest
+      .spyOn(mimeMessage, 'formatMimeMessage')
+      .mockReturnValue(
+        'Subject: Dots\r\n\r\n.hidden\r\n..double\r\n.\r\nend\r\n',
+      );
+
+    try {
+      await transportFor(server).send(message);
+    } finally {
+      format.mockRestore();
+    }
+
+    expect(server.messages).toEqual([
+      'Subject: Dots\r\n\r\n.hidden\r\n..double\r\n.\r\nend',
+    ]);
+  });
+
+  it('fails with the reply when the server refuses a recipient', async () => {
+    server = await startFakeSmtpServer({
+      replies: {
+        RCPT: '550-5.1.1 No such user here\r\n550 5.1.1 Try another address',
+      },
+    });
+
+    await expect(transportFor(server).send(message)).rejects.toThrow(
+      'SMTP server answered 550-5.1.1 No such user here\n550 5.1.1 Try another address',
+    );
+    expect(server.commands).not.toContain('DATA');
+    expect(server.messages).toEqual([]);
+  });
+
+  it('fails when the server is temporarily unavailable', async () => {
+    server = await startFakeSmtpServer({
+      greeting: '421 4.3.2 Service not available, try later',
+    });
+
+    await expect(transportFor(server).send(message)).rejects.toThrow(
+      'SMTP server answered 421 4.3.2 Service not available, try later',
+    );
+    expect(server.commands).toEqual([]);
+  });
+
+  it('fails when the message itself is rejected after DATA', async () => {
+    server = await startFakeSmtpServer({
+      replies: { '.': '452 4.3.1 Insufficient system storage' },
+    });
+
+    await expect(transportFor(server).send(message)).rejects.toThrow(
+      'SMTP server answered 452 4.3.1 Insufficient system storage',
+    );
+    expect(server.commands).not.toContain('QUIT');
+  });
+});
@@ -0,0 +1,172 @@
+import { connect as connectTcp, Socket } from 'net';
+import { hostname } from 'os';
+import { connect as connectTls } from 'tls';
+import { SmtpConfig } from '../notifications.config';
+import { formatMimeMessage } from './mime-message';
+import {
+  NotificationMessage,
+  NotificationTransport,
+} from './notification-transport';
+
+const TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Sends each notification over its own SMTP session: implicit TLS when
+ * SMTP_SECURE is set, otherwise STARTTLS whenever the server offers it,
+ * and AUTH PLAIN when a user is configured.
+ */
+export class SmtpNotificationTransport extends NotificationTransport {
+  constructor(
+    private readonly config: SmtpConfig,
+    private readonly from: string,
+  ) {
+    super();
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const { host, port, secure, user, pass } = this.config;
+    const session = new SmtpSession(
+      secure
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port }),
+    );
+
+    try {
+      await session.expect(220);
+      const features = await session.command(`EHLO ${hostname()}`, 250);
+      if (!secure && /^250[- ]STARTTLS\b/im.test(features.text)) {
+        await session.command('STARTTLS', 220);
+        session.upgrade(host);
+        await session.command(`EHLO ${hostname()}`, 250);
+      }
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${pass ?? ''}`).toString(
+          'base64',
+        );
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(this.from)}>`, 250);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251);
+      await session.command('DATA', 354);
+      // Lines starting with a dot are doubled so they can't end the data early;
+      // the message already ends with a line break, so a lone dot finishes it
+      const data = formatMimeMessage(this.from, message).replace(/^\./gm, '..');
+      await session.command(`${data}.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+// The bare address from "Name <address>"
+function addressOf(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+}
+
+// Reads replies off one connection, one command at a time
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  };
+  private failure?: Error;
+
+  constructor(private socket: Socket) {
+    this.listen(socket);
+  }
+
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server answered ${reply.text}`);
+    }
+    return reply;
+  }
+
+  command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+
+  // Continues the session over TLS after STARTTLS
+  upgrade(host: string): void {
+    for (const event of ['data', 'error', 'close', 'timeout']) {
+      this.socket.removeAllListeners(event);
+    }
+    this.socket.setTimeout(0);
+    this.socket = connectTls({ socket: this.socket, servername: host });
+    this.listen(this.socket);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private listen(socket: Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP server timed out')),
+    );
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // A reply may span several lines; its last line has a space after the code
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({
+          code: parseInt(line.slice(0, 3), 10),
+          text: this.lines.join('\n'),
+        });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(error);
+  }
+}
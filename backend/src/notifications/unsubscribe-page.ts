@@ -0,0 +1,12 @@
+// What the unsubscribe link opens. The button posts back to the same URL, so
+// only a deliberate click (or a mail client's one-click POST) unsubscribes
+export const UNSUBSCRIBE_PAGE = [
+  '<!doctype html>',
+  '<html lang="en">',
+  '<head><meta charset="utf-8"><title>Unsubscribe</title></head>',
+  '<body>',
+  '<p>Stop getting these notification emails?</p>',
+  '<form method="post"><button type="submit">Unsubscribe</button></form>',
+  '</body>',
+  '</html>',
+].join('\n');
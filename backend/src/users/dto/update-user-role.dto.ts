@@ -0,0 +1,10 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { UserRole } from '../interfaces/user.interface';
+
+export class UpdateUserRoleDto {
+  @IsEnum(['resident', 'committee', 'admin'], {
+    message: 'Role must be one of: resident, committee, admin',
+  })
+  @IsNotEmpty()
+  role: UserRole;
+}
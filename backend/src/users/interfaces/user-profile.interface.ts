@@ -0,0 +1,9 @@
+import { UserRole } from './user.interface';
+
+// User as exposed over the API, without credentials
+export interface UserProfile {
+  id: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+}
@@ -0,0 +1,11 @@
+export type UserRole = 'resident' | 'committee' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  passwordHash?: string; // Absent for accounts created through a magic link
+  emailVerifiedAt?: Date; // Set by the first magic link sign-in
+  createdAt: Date;
+}
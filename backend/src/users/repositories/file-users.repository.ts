@@ -0,0 +1,26 @@
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { User } from '../interfaces/user.interface';
+import { InMemoryUsersRepository } from './in-memory-users.repository';
+
+export class FileUsersRepository extends InMemoryUsersRepository {
+  private readonly store: JsonFileStore<User[]>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+    for (const stored of this.store.read() ?? []) {
+      this.users.set(stored.id, {
+        ...stored,
+        role: stored.role ?? 'resident', // Accounts saved before roles existed
+        createdAt: new Date(stored.createdAt),
+        emailVerifiedAt: stored.emailVerifiedAt
+          ? new Date(stored.emailVerifiedAt)
+          : undefined,
+      });
+    }
+  }
+
+  protected changed(): void {
+    this.store.write(this.findAll());
+  }
+}
@@ -0,0 +1,27 @@
+import { User } from '../interfaces/user.interface';
+import { UsersRepository } from './users.repository';
+
+export class InMemoryUsersRepository extends UsersRepository {
+  protected users: Map<string, User> = new Map();
+
+  findAll(): User[] {
+    return [...this.users.values()];
+  }
+
+  findById(id: string): User | undefined {
+    return this.users.get(id);
+  }
+
+  findByEmail(email: string): User | undefined {
+    return this.findAll().find((user) => user.email === email);
+  }
+
+  save(user: User): User {
+    this.users.set(user.id, user);
+    this.changed();
+    return user;
+  }
+
+  // Hook for subclasses that need to persist after every write
+  protected changed(): void {}
+}
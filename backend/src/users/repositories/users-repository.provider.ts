@@ -0,0 +1,17 @@
+import { Provider } from '@nestjs/common';
+import { join } from 'path';
+import { getStorageConfig } from '../../common/storage/storage.config';
+import { FileUsersRepository } from './file-users.repository';
+import { InMemoryUsersRepository } from './in-memory-users.repository';
+import { UsersRepository } from './users.repository';
+
+export const usersRepositoryProvider: Provider = {
+  provide: UsersRepository,
+  useFactory: (): UsersRepository => {
+    const { driver, dataDir } = getStorageConfig();
+    if (driver === 'file') {
+      return new FileUsersRepository(join(dataDir, 'users.json'));
+    }
+    return new InMemoryUsersRepository();
+  },
+};
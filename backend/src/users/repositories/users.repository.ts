@@ -0,0 +1,8 @@
+import { User } from '../interfaces/user.interface';
+
+export abstract class UsersRepository {
+  abstract findAll(): User[];
+  abstract findById(id: string): User | undefined;
+  abstract findByEmail(email: string): User | undefined;
+  abstract save(user: User): User;
+}
@@ -0,0 +1,28 @@
+import { Body, Controller, Get, Param, Patch } from '@nestjs/common';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { UserProfile } from './interfaces/user-profile.interface';
+import { UsersService } from './users.service';
+
+@Controller('users')
+@Roles('admin')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  findAll(): UserProfile[] {
+    return this.usersService
+      .findAll()
+      .map((user) => this.usersService.toProfile(user));
+  }
+
+  @Patch(':id/role')
+  updateRole(
+    @Param('id') id: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+  ): UserProfile {
+    return this.usersService.toProfile(
+      this.usersService.updateRole(id, updateUserRoleDto.role),
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { usersRepositoryProvider } from './repositories/users-repository.provider';
+
+@Module({
+  controllers: [UsersController],
+  providers: [UsersService, usersRepositoryProvider],
+  exports: [UsersService],
+})
+export class UsersModule {}
@@ -0,0 +1,109 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { UserProfile } from './interfaces/user-profile.interface';
+import { User, UserRole } from './interfaces/user.interface';
+import { UsersRepository } from './repositories/users.repository';
+
+const KEY_LENGTH = 64;
+
+@Injectable()
+export class UsersService {
+  // Accounts with these emails become admins once they sign in with a magic link,
+  // which proves they own the address; registering with a password does not
+  private readonly adminEmails = new Set(
+    (process.env.AUTH_ADMIN_EMAILS ?? '')
+      .split(',')
+      .map((email) => this.normalizeEmail(email))
+      .filter(Boolean),
+  );
+
+  constructor(private readonly repository: UsersRepository) {}
+
+  create(email: string, displayName: string, password?: string): User {
+    const normalizedEmail = this.normalizeEmail(email);
+    if (this.repository.findByEmail(normalizedEmail)) {
+      throw new ConflictException(
+        `An account for ${normalizedEmail} already exists`,
+      );
+    }
+
+    return this.repository.save({
+      id: uuidv4(),
+      email: normalizedEmail,
+      displayName,
+      passwordHash: password ? this.hashPassword(password) : undefined,
+      role: 'resident',
+      createdAt: new Date(),
+    });
+  }
+
+  // Call only after the user has proven they own their email address. A password
+  // set before that may have been chosen by whoever registered the address first,
+  // so it is dropped rather than left working alongside the owner's sign-in
+  confirmEmail(user: User): User {
+    const role = this.adminEmails.has(user.email) ? 'admin' : user.role;
+    if (user.emailVerifiedAt && user.role === role) {
+      return user;
+    }
+    return this.repository.save({
+      ...user,
+      role,
+      passwordHash: user.emailVerifiedAt ? user.passwordHash : undefined,
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+    });
+  }
+
+  findAll(): User[] {
+    return this.repository.findAll();
+  }
+
+  updateRole(id: string, role: UserRole): User {
+    const user = this.repository.findById(id);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return this.repository.save({ ...user, role });
+  }
+
+  findById(id: string): User | undefined {
+    return this.repository.findById(id);
+  }
+
+  findByEmail(email: string): User | undefined {
+    return this.repository.findByEmail(this.normalizeEmail(email));
+  }
+
+  verifyPassword(user: User, password: string): boolean {
+    if (!user.passwordHash) {
+      return false;
+    }
+    const [salt, hash] = user.passwordHash.split(':');
+    const expected = Buffer.from(hash, 'hex');
+    const actual = scryptSync(password, salt, KEY_LENGTH);
+    return timingSafeEqual(expected, actual);
+  }
+
+  toProfile(user: User): UserProfile {
+    return {
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName,
+      role: user.role,
+    };
+  }
+
+  normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private hashPassword(password: string): string {
+    const salt = randomBytes(16).toString('hex');
+    const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+    return `${salt}:${hash}`;
+  }
+}
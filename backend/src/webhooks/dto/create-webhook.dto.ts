@@ -0,0 +1,55 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  BOARD_EVENT_TYPES,
+  BoardEventType,
+} from '../../announcements/interfaces/board-event.interface';
+
+export class CreateWebhookDto {
+  // Plain http is allowed so a receiver on the local network can be used
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'URL must be an http or https address' },
+  )
+  @MaxLength(2000, { message: 'URL cannot exceed 2000 characters' })
+  url: string;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Subscribe to at least one event type' })
+  @IsIn(BOARD_EVENT_TYPES, {
+    each: true,
+    message: `Event types must be among: ${BOARD_EVENT_TYPES.join(', ')}`,
+  })
+  events: BoardEventType[];
+
+  // Generated when not given
+  @IsString()
+  @MinLength(16, { message: 'Secret must be at least 16 characters' })
+  @MaxLength(200, { message: 'Secret cannot exceed 200 characters' })
+  @IsOptional()
+  secret?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200, { message: 'Description cannot exceed 200 characters' })
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,56 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  BOARD_EVENT_TYPES,
+  BoardEventType,
+} from '../../announcements/interfaces/board-event.interface';
+
+export class UpdateWebhookDto {
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'URL must be an http or https address' },
+  )
+  @MaxLength(2000, { message: 'URL cannot exceed 2000 characters' })
+  @IsOptional()
+  url?: string;
+
+  // Replaces the whole list
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Subscribe to at least one event type' })
+  @IsIn(BOARD_EVENT_TYPES, {
+    each: true,
+    message: `Event types must be among: ${BOARD_EVENT_TYPES.join(', ')}`,
+  })
+  @IsOptional()
+  events?: BoardEventType[];
+
+  // Rotates the signing secret; deliveries already queued are signed with the new one
+  @IsString()
+  @MinLength(16, { message: 'Secret must be at least 16 characters' })
+  @MaxLength(200, { message: 'Secret cannot exceed 200 characters' })
+  @IsOptional()
+  secret?: string;
+
+  // An empty description removes it
+  @IsString()
+  @MaxLength(200, { message: 'Description cannot exceed 200 characters' })
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
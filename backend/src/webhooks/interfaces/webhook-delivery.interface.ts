@@ -0,0 +1,25 @@
+import { BoardEventType } from '../../announcements/interfaces/board-event.interface';
+
+// webhook.ping is sent on request to check a receiver
+export type WebhookEventType = BoardEventType | 'webhook.ping';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  statusCode?: number; // Missing when no response came back
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string; // Shared by the deliveries of one event to different webhooks
+  eventType: WebhookEventType;
+  body: string; // Sent as is on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: Date; // Set while a retry is due
+  createdAt: Date;
+}
@@ -0,0 +1,16 @@
+import { BoardEventType } from '../../announcements/interfaces/board-event.interface';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: BoardEventType[]; // Board events delivered to this URL
+  secret: string; // Signs every delivery; only shown when the webhook is created
+  description?: string;
+  active: boolean; // Inactive webhooks receive nothing and stop retrying
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// Webhook as exposed over the API, without its secret
+export type WebhookView = Omit<Webhook, 'secret'>;
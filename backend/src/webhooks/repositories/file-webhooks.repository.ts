@@ -0,0 +1,54 @@
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { Webhook } from '../interfaces/webhook.interface';
+import { WebhookDelivery } from '../interfaces/webhook-delivery.interface';
+import { InMemoryWebhooksRepository } from './in-memory-webhooks.repository';
+
+interface WebhooksSnapshot {
+  webhooks: Webhook[];
+  deliveries: WebhookDelivery[];
+}
+
+export class FileWebhooksRepository extends InMemoryWebhooksRepository {
+  private readonly store: JsonFileStore<WebhooksSnapshot>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+    this.load();
+  }
+
+  protected changed(): void {
+    this.store.write({
+      webhooks: this.findAllWebhooks(),
+      deliveries: [...this.deliveries.values()],
+    });
+  }
+
+  private load(): void {
+    const snapshot = this.store.read();
+    if (!snapshot) {
+      return;
+    }
+
+    for (const stored of snapshot.webhooks) {
+      this.webhooks.set(stored.id, {
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+        updatedAt: stored.updatedAt ? new Date(stored.updatedAt) : undefined,
+      });
+    }
+    for (const stored of snapshot.deliveries) {
+      this.deliveries.set(stored.id, {
+        ...stored,
+        attempts: stored.attempts.map((attempt) => ({
+          ...attempt,
+          attemptedAt: new Date(attempt.attemptedAt),
+        })),
+        nextAttemptAt: stored.nextAttemptAt
+          ? new Date(stored.nextAttemptAt)
+          : undefined,
+        createdAt: new Date(stored.createdAt),
+      });
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Webhook } from '../interfaces/webhook.interface';
+import { WebhookDelivery } from '../interfaces/webhook-delivery.interface';
+import { WebhooksRepository } from './webhooks.repository';
+
+export class InMemoryWebhooksRepository extends WebhooksRepository {
+  protected webhooks: Map<string, Webhook> = new Map();
+  protected deliveries: Map<string, WebhookDelivery> = new Map();
+
+  findAllWebhooks(): Webhook[] {
+    return [...this.webhooks.values()];
+  }
+
+  findWebhook(id: string): Webhook | undefined {
+    return this.webhooks.get(id);
+  }
+
+  saveWebhook(webhook: Webhook): Webhook {
+    this.webhooks.set(webhook.id, webhook);
+    this.changed();
+    return webhook;
+  }
+
+  deleteWebhook(id: string): void {
+    this.webhooks.delete(id);
+    for (const delivery of this.findDeliveriesByWebhook(id)) {
+      this.deliveries.delete(delivery.id);
+    }
+    this.changed();
+  }
+
+  findDelivery(id: string): WebhookDelivery | undefined {
+    return this.deliveries.get(id);
+  }
+
+  findDeliveriesByWebhook(webhookId: string): WebhookDelivery[] {
+    return [...this.deliveries.values()].filter(
+      (delivery) => delivery.webhookId === webhookId,
+    );
+  }
+
+  findPendingDeliveries(): WebhookDelivery[] {
+    return [...this.deliveries.values()].filter(
+      (delivery) => delivery.status === 'pending',
+    );
+  }
+
+  saveDelivery(delivery: WebhookDelivery): WebhookDelivery {
+    this.deliveries.set(delivery.id, delivery);
+    this.changed();
+    return delivery;
+  }
+
+  deleteDelivery(id: string): void {
+    this.deliveries.delete(id);
+    this.changed();
+  }
+
+  // Hook for subclasses that need to persist after every write
+  protected changed(): void {}
+}
@@ -0,0 +1,17 @@
+import { Provider } from '@nestjs/common';
+import { join } from 'path';
+import { getStorageConfig } from '../../common/storage/storage.config';
+import { FileWebhooksRepository } from './file-webhooks.repository';
+import { InMemoryWebhooksRepository } from './in-memory-webhooks.repository';
+import { WebhooksRepository } from './webhooks.repository';
+
+export const webhooksRepositoryProvider: Provider = {
+  provide: WebhooksRepository,
+  useFactory: (): WebhooksRepository => {
+    const { driver, dataDir } = getStorageConfig();
+    if (driver === 'file') {
+      return new FileWebhooksRepository(join(dataDir, 'webhooks.json'));
+    }
+    return new InMemoryWebhooksRepository();
+  },
+};
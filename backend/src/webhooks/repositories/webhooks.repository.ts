@@ -0,0 +1,16 @@
+import { Webhook } from '../interfaces/webhook.interface';
+import { WebhookDelivery } from '../interfaces/webhook-delivery.interface';
+
+export abstract class WebhooksRepository {
+  abstract findAllWebhooks(): Webhook[];
+  abstract findWebhook(id: string): Webhook | undefined;
+  abstract saveWebhook(webhook: Webhook): Webhook;
+  // Also deletes the webhook's deliveries
+  abstract deleteWebhook(id: string): void;
+
+  abstract findDelivery(id: string): WebhookDelivery | undefined;
+  abstract findDeliveriesByWebhook(webhookId: string): WebhookDelivery[];
+  abstract findPendingDeliveries(): WebhookDelivery[];
+  abstract saveDelivery(delivery: WebhookDelivery): WebhookDelivery;
+  abstract deleteDelivery(id: string): void;
+}
@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signature sent in X-Webhook-Signature: an HMAC-SHA256 of
+ * "<X-Webhook-Timestamp>.<raw body>" keyed with the webhook's secret.
+ * Including the timestamp lets receivers reject old deliveries replayed at them.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// What a receiver does with the three headers and the raw body
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,21 @@
+export interface WebhookConfig {
+  maxAttempts: number; // Including the first
+  retryBaseMs: number; // Delay before the first retry; doubles after each failure
+  timeoutMs: number; // Per attempt
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+// By default a delivery is retried after 30s, 1m, 2m, 4m and 8m before it is given up
+export function getWebhookConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): WebhookConfig {
+  return {
+    maxAttempts: positiveInt(env.WEBHOOK_MAX_ATTEMPTS, 6),
+    retryBaseMs: positiveInt(env.WEBHOOK_RETRY_BASE_MS, 30_000),
+    timeoutMs: positiveInt(env.WEBHOOK_TIMEOUT_MS, 10_000),
+  };
+}
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { Webhook, WebhookView } from './interfaces/webhook.interface';
+import { WebhookDelivery } from './interfaces/webhook-delivery.interface';
+import { WebhooksService } from './webhooks.service';
+
+@Controller('webhooks')
+@Roles('admin')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  create(
+    @Body() createWebhookDto: CreateWebhookDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Webhook {
+    return this.webhooksService.create(createWebhookDto, user.id);
+  }
+
+  @Get()
+  findAll(): WebhookView[] {
+    return this.webhooksService.findAll();
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string): WebhookView {
+    return this.webhooksService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ): WebhookView {
+    return this.webhooksService.update(id, updateWebhookDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  remove(@Param('id') id: string): void {
+    return this.webhooksService.remove(id);
+  }
+
+  // Answers as soon as the ping is queued; its outcome shows in the delivery log
+  @Post(':id/ping')
+  @HttpCode(202)
+  ping(@Param('id') id: string): WebhookDelivery {
+    return this.webhooksService.ping(id);
+  }
+
+  @Get(':id/deliveries')
+  getDeliveries(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto,
+  ): {
+    deliveries: WebhookDelivery[];
+    nextCursor?: string;
+    prevCursor?: string;
+  } {
+    const page = this.webhooksService.getDeliveries(
+      id,
+      query.cursor,
+      query.limit,
+    );
+    return {
+      deliveries: page.items,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
+  }
+}
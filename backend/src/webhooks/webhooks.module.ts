@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AnnouncementsModule } from '../announcements/announcements.module';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { webhooksRepositoryProvider } from './repositories/webhooks-repository.provider';
+
+@Module({
+  imports: [AnnouncementsModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, webhooksRepositoryProvider],
+})
+export class WebhooksModule {}
@@ -0,0 +1,189 @@
+import { Logger } from '@nestjs/common';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnnouncementsService } from '../announcements/announcements.service';
+import { AnnouncementEventsService } from '../announcements/events/announcement-events.service';
+import { CommentModerationService } from '../announcements/moderation/comment-moderation.service';
+import { InMemoryAnnouncementsRepository } from '../announcements/repositories/in-memory-announcements.repository';
+import { BoardSettingsService } from '../board/board-settings.service';
+import { InMemoryBoardSettingsRepository } from '../board/repositories/in-memory-board-settings.repository';
+import { InMemoryUsersRepository } from '../users/repositories/in-memory-users.repository';
+import { UsersService } from '../users/users.service';
+import { WebhookDelivery } from './interfaces/webhook-delivery.interface';
+import { InMemoryWebhooksRepository } from './repositories/in-memory-webhooks.repository';
+import { verifyWebhookSignature } from './webhook-signature';
+import { WebhooksService } from './webhooks.service';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhooksService', () => {
+  let server: Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  // Status codes the receiver answers with, in order; 200 once they run out
+  let responses: number[];
+  let events: AnnouncementEventsService;
+  let service: WebhooksService;
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responses.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+    process.env.WEBHOOK_RETRY_BASE_MS = '10';
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    events = new AnnouncementEventsService();
+    service = new WebhooksService(new InMemoryWebhooksRepository(), events);
+    service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    delete process.env.WEBHOOK_RETRY_BASE_MS;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function settled(webhookId: string): Promise<WebhookDelivery[]> {
+    for (let i = 0; i < 200; i++) {
+      const { items } = service.getDeliveries(webhookId);
+      if (items.length > 0 && items.every((d) => d.status !== 'pending')) {
+        return items;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Deliveries did not settle');
+  }
+
+  it('posts subscribed events signed with the webhook secret', async () => {
+    const webhook = service.create(
+      { url: receiverUrl, events: ['comment.added'] },
+      'admin-1',
+    );
+    expect(service.findOne(webhook.id)).not.toHaveProperty('secret');
+
+    events.emit({
+      type: 'reaction.changed',
+      announcementId: 'a-1',
+      reactions: { up: 1 },
+    });
+    events.emit({
+      type: 'comment.added',
+      announcementId: 'a-1',
+      comment: {
+        id: 'c-1',
+        announcementId: 'a-1',
+        authorName: 'Asha',
+        text: 'Thanks',
+        createdAt: new Date(),
+      },
+      commentCount: 1,
+    });
+
+    const [delivery] = await settled(webhook.id);
+    expect(delivery).toMatchObject({
+      eventType: 'comment.added',
+      status: 'succeeded',
+    });
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('comment.added');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(
+      verifyWebhookSignature(
+        webhook.secret,
+        headers['x-webhook-timestamp'] as string,
+        body,
+        headers['x-webhook-signature'] as string,
+      ),
+    ).toBe(true);
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'comment.added',
+      data: { announcementId: 'a-1', comment: { text: 'Thanks' } },
+    });
+  });
+
+  it('retries failed deliveries with backoff and logs every attempt', async () => {
+    const webhook = service.create(
+      { url: receiverUrl, events: ['reaction.changed'] },
+      'admin-1',
+    );
+
+    responses = [500, 503];
+    service.ping(webhook.id);
+    const [recovered] = await settled(webhook.id);
+    expect(recovered.status).toBe('succeeded');
+    expect(recovered.attempts.map((a) => a.statusCode)).toEqual([
+      500, 503, 200,
+    ]);
+    // The same signed body goes out on every attempt
+    expect(new Set(received.map((r) => r.body)).size).toBe(1);
+
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    responses = [500, 500, 500];
+    events.emit({
+      type: 'reaction.changed',
+      announcementId: 'a-1',
+      reactions: { up: 2 },
+    });
+    const [failed] = await settled(webhook.id);
+    expect(failed).toMatchObject({
+      eventType: 'reaction.changed',
+      status: 'failed',
+    });
+    expect(failed.attempts).toHaveLength(3);
+    expect(failed.nextAttemptAt).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('logs a failure to queue a delivery without failing the write behind it', async () => {
+    const announcements = new AnnouncementsService(
+      new InMemoryAnnouncementsRepository(),
+      events,
+      new BoardSettingsService(new InMemoryBoardSettingsRepository()),
+      new CommentModerationService([]),
+      new UsersService(new InMemoryUsersRepository()),
+    );
+    const webhook = service.create(
+      { url: receiverUrl, events: ['announcement.created'] },
+      'admin-1',
+    );
+    const error = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    const saveDelivery = jest
+      .spyOn(InMemoryWebhooksRepository.prototype, 'saveDelivery')
+      .mockImplementationOnce(() => {
+        throw new Error('Disk full');
+      });
+
+    const created = announcements.create({ title: 'Lift repair' }, 'user-1');
+    expect(announcements.findOneWithDetail(created.id).announcement.title).toBe(
+      'Lift repair',
+    );
+    expect(error).toHaveBeenCalledTimes(1);
+
+    // The webhook still hears about later events
+    announcements.create({ title: 'Gate code' }, 'user-1');
+    const [delivery] = await settled(webhook.id);
+    expect(JSON.parse(delivery.body)).toMatchObject({
+      data: { announcement: { title: 'Gate code' } },
+    });
+    saveDelivery.mockRestore();
+    error.mockRestore();
+  });
+});
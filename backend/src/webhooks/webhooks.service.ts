@@ -0,0 +1,349 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { AnnouncementEventsService } from '../announcements/events/announcement-events.service';
+import { BoardEvent } from '../announcements/interfaces/board-event.interface';
+import {
+  comparePositions,
+  Page,
+  paginate,
+} from '../common/pagination/cursor-pagination';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { Webhook, WebhookView } from './interfaces/webhook.interface';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEventType,
+} from './interfaces/webhook-delivery.interface';
+import { WebhooksRepository } from './repositories/webhooks.repository';
+import { getWebhookConfig } from './webhook.config';
+import { signWebhookPayload } from './webhook-signature';
+
+// Finished deliveries kept per webhook for the delivery log
+const DELIVERY_LOG_SIZE = 100;
+
+const USER_AGENT = 'AnnouncementBoard-Webhooks/1.0';
+
+/**
+ * Posts board events to subscribed URLs. Each event becomes one delivery per
+ * webhook, signed with the webhook's secret and retried with exponential backoff
+ * until the receiver answers 2xx or the attempts run out. Pending retries survive
+ * a restart when the file storage driver is used.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly config = getWebhookConfig();
+  private readonly retryTimers = new Map<string, NodeJS.Timeout>();
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly repository: WebhooksRepository,
+    private readonly events: AnnouncementEventsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.subscription = this.events
+      .stream()
+      .subscribe((event) => this.dispatch(event));
+
+    // Retries that fell due while the server was down go out straight away
+    for (const delivery of this.repository.findPendingDeliveries()) {
+      this.scheduleRetry(delivery);
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  // The only response that includes the secret
+  create(createWebhookDto: CreateWebhookDto, userId: string): Webhook {
+    return this.repository.saveWebhook({
+      id: uuidv4(),
+      url: createWebhookDto.url,
+      events: [...new Set(createWebhookDto.events)],
+      secret: createWebhookDto.secret ?? randomBytes(32).toString('hex'),
+      description: createWebhookDto.description?.trim() || undefined,
+      active: createWebhookDto.active ?? true,
+      createdBy: userId,
+      createdAt: new Date(),
+    });
+  }
+
+  findAll(): WebhookView[] {
+    return this.repository
+      .findAllWebhooks()
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((webhook) => this.toView(webhook));
+  }
+
+  findOne(id: string): WebhookView {
+    return this.toView(this.findWebhookOrFail(id));
+  }
+
+  update(id: string, updateWebhookDto: UpdateWebhookDto): WebhookView {
+    const webhook = this.findWebhookOrFail(id);
+    const { url, events, secret, description, active } = updateWebhookDto;
+
+    const updated = this.repository.saveWebhook({
+      ...webhook,
+      url: url ?? webhook.url,
+      events: events ? [...new Set(events)] : webhook.events,
+      secret: secret ?? webhook.secret,
+      description:
+        description === undefined
+          ? webhook.description
+          : description.trim() || undefined,
+      active: active ?? webhook.active,
+      updatedAt: new Date(),
+    });
+    return this.toView(updated);
+  }
+
+  remove(id: string): void {
+    this.findWebhookOrFail(id);
+    for (const delivery of this.repository.findDeliveriesByWebhook(id)) {
+      clearTimeout(this.retryTimers.get(delivery.id));
+      this.retryTimers.delete(delivery.id);
+    }
+    this.repository.deleteWebhook(id);
+  }
+
+  // Sends a webhook.ping right away, whatever the webhook subscribes to
+  ping(id: string): WebhookDelivery {
+    const webhook = this.findWebhookOrFail(id);
+    return this.enqueue(webhook, uuidv4(), 'webhook.ping', {
+      webhookId: webhook.id,
+    });
+  }
+
+  // Newest first
+  getDeliveries(
+    id: string,
+    cursor?: string,
+    limit = 20,
+  ): Page<WebhookDelivery> {
+    this.findWebhookOrFail(id);
+
+    const sortKey = (delivery: WebhookDelivery) => [
+      delivery.createdAt.getTime(),
+    ];
+    const deliveries = this.repository
+      .findDeliveriesByWebhook(id)
+      .sort((a, b) =>
+        comparePositions(
+          { key: sortKey(a), id: a.id },
+          { key: sortKey(b), id: b.id },
+        ),
+      );
+    return paginate(deliveries, sortKey, {
+      scope: `webhook-deliveries:${id}`,
+      limit,
+      cursor,
+    });
+  }
+
+  toView(webhook: Webhook): WebhookView {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      description: webhook.description,
+      active: webhook.active,
+      createdBy: webhook.createdBy,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+  }
+
+  private findWebhookOrFail(id: string): Webhook {
+    const webhook = this.repository.findWebhook(id);
+    if (!webhook) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+    return webhook;
+  }
+
+  // Runs inside the write that emitted the event, so failures are logged
+  // here instead of reaching the emitter
+  private dispatch(event: BoardEvent): void {
+    try {
+      // One event ID across webhooks lets a receiver behind several of them drop duplicates
+      const eventId = uuidv4();
+      for (const webhook of this.repository.findAllWebhooks()) {
+        if (webhook.active && webhook.events.includes(event.type)) {
+          this.enqueue(webhook, eventId, event.type, event);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to queue webhooks for ${event.type}`, error);
+    }
+  }
+
+  private enqueue(
+    webhook: Webhook,
+    eventId: string,
+    eventType: WebhookEventType,
+    data: object,
+  ): WebhookDelivery {
+    const now = new Date();
+    const delivery = this.repository.saveDelivery({
+      id: uuidv4(),
+      webhookId: webhook.id,
+      eventId,
+      eventType,
+      body: JSON.stringify({
+        id: eventId,
+        type: eventType,
+        createdAt: now,
+        data,
+      }),
+      status: 'pending',
+      attempts: [],
+      createdAt: now,
+    });
+    this.pruneDeliveryLog(webhook.id);
+    this.deliver(delivery.id);
+    return delivery;
+  }
+
+  private deliver(deliveryId: string): void {
+    this.retryTimers.delete(deliveryId);
+    this.attempt(deliveryId).catch((error) =>
+      this.logger.error(`Failed to deliver webhook ${deliveryId}`, error),
+    );
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    const delivery = this.repository.findDelivery(deliveryId);
+    const webhook = delivery && this.repository.findWebhook(delivery.webhookId);
+    if (!delivery || delivery.status !== 'pending' || !webhook) {
+      return;
+    }
+    if (!webhook.active) {
+      this.repository.saveDelivery({
+        ...delivery,
+        status: 'failed',
+        nextAttemptAt: undefined,
+      });
+      return;
+    }
+
+    const attemptedAt = new Date();
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+    let outcome: Pick<WebhookDeliveryAttempt, 'statusCode' | 'error'>;
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            delivery.body,
+          ),
+        },
+        body: delivery.body,
+        // A redirect counts as a failure rather than being followed
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      await response.body?.cancel();
+      outcome = response.ok
+        ? { statusCode: response.status }
+        : {
+            statusCode: response.status,
+            error: `Receiver answered ${response.status}`,
+          };
+    } catch (error) {
+      outcome = { error: this.describeError(error) };
+    }
+
+    // The webhook may have been deleted while the request was out
+    const current = this.repository.findDelivery(deliveryId);
+    if (!current) {
+      return;
+    }
+
+    const attempts = [
+      ...current.attempts,
+      {
+        attemptedAt,
+        durationMs: Date.now() - attemptedAt.getTime(),
+        ...outcome,
+      },
+    ];
+    const succeeded = !outcome.error;
+    const retry = !succeeded && attempts.length < this.config.maxAttempts;
+    const updated = this.repository.saveDelivery({
+      ...current,
+      attempts,
+      status: succeeded ? 'succeeded' : retry ? 'pending' : 'failed',
+      nextAttemptAt: retry
+        ? new Date(Date.now() + this.retryDelay(attempts.length))
+        : undefined,
+    });
+
+    if (retry) {
+      this.scheduleRetry(updated);
+    } else if (!succeeded) {
+      this.logger.warn(
+        `Gave up delivering ${updated.eventType} to ${webhook.url} after ${attempts.length} attempt(s): ${outcome.error}`,
+      );
+    }
+  }
+
+  // Doubles after every failed attempt
+  private retryDelay(failedAttempts: number): number {
+    return this.config.retryBaseMs * 2 ** (failedAttempts - 1);
+  }
+
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    const delay = Math.max(
+      0,
+      (delivery.nextAttemptAt?.getTime() ?? 0) - Date.now(),
+    );
+    const timer = setTimeout(() => this.deliver(delivery.id), delay);
+    // Don't keep the process alive just for a retry
+    timer.unref();
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  private pruneDeliveryLog(webhookId: string): void {
+    const finished = this.repository
+      .findDeliveriesByWebhook(webhookId)
+      .filter((delivery) => delivery.status !== 'pending')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    for (const old of finished.slice(DELIVERY_LOG_SIZE)) {
+      this.repository.deleteDelivery(old.id);
+    }
+  }
+
+  // fetch reports network failures as "fetch failed" with the reason as the cause
+  private describeError(error: unknown): string {
+    if (!(error instanceof Error)) {
+      return String(error);
+    }
+    return error.cause instanceof Error
+      ? `${error.message}: ${error.cause.message}`
+      : error.message;
+  }
+}
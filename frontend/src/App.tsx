@@ -1,46 +1,193 @@
-import { useEffect, useState } from 'react';
-import { get, post, patch, getUserReaction, ApiError } from './lib/api';
-import type { Announcement, CreateAnnouncementDto, ReactionType } from './types/announcement';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getAnnouncements, post, updateAnnouncement, getAuthToken, setAuthToken, getCurrentUser, getPublicBoardSettings, getSubscriptions, subscribe, unsubscribe, ApiError, API } from './lib/api';
+import { ANNOUNCEMENT_CATEGORIES } from './types/announcement';
+import type { Announcement, AnnouncementCategory, AnnouncementFilters as Filters, AnnouncementPriority, AnnouncementsResponse, CreateAnnouncementDto, ReactionType } from './types/announcement';
+import type { User } from './types/auth';
+import type { PublicBoardSettings, ReactionTypeDefinition } from './types/board';
+import type { NotificationSubscription } from './types/notification';
+import { canChangeStatus, canEditAnnouncement, isModerator } from './lib/permissions';
+import { subscribeToBoardEvents } from './lib/events';
+import { formatCategory, parseTags } from './lib/labels';
+import AnnouncementFilters from './components/AnnouncementFilters';
+import AuthPanel from './components/AuthPanel';
+import BoardSettingsPanel from './components/BoardSettingsPanel';
+import ModerationQueue from './components/ModerationQueue';
+import NotificationSettings from './components/NotificationSettings';
+import EditAnnouncementForm from './components/EditAnnouncementForm';
+import RevisionHistory from './components/RevisionHistory';
 import Comments from './components/Comments';
 import Reactions from './components/Reactions';
 import './App.css';
 
+const DEFAULT_FILTERS: Filters = {
+  q: '',
+  includeComments: false,
+  status: '',
+  category: '',
+  sort: 'activity',
+  createdFrom: '',
+  createdTo: '',
+};
+
+// New announcements can be prepended live only when the list is unfiltered and ordered by recency
+const showsLatestFirst = (filters: Filters) =>
+  !filters.q.trim() && !filters.status && !filters.category && !filters.createdFrom && !filters.createdTo &&
+  (filters.sort === 'activity' || filters.sort === 'newest');
+
 export default function App() {
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [maxCommentsPerUser, setMaxCommentsPerUser] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [priority, setPriority] = useState<AnnouncementPriority>('normal');
+  const [category, setCategory] = useState<'' | AnnouncementCategory>('');
+  const [tags, setTags] = useState('');
+  const [saveAsDraft, setSaveAsDraft] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [userReactions, setUserReactions] = useState<Record<string, ReactionType>>({});
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(!getAuthToken());
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [boardSettings, setBoardSettings] = useState<PublicBoardSettings | null>(null);
+  const [reactionTypes, setReactionTypes] = useState<ReactionTypeDefinition[]>([]);
+  const [subscriptions, setSubscriptions] = useState<NotificationSubscription[]>([]);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Restore the signed-in user from a stored token
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    getCurrentUser()
+      .then(setCurrentUser)
+      .catch(() => setAuthToken(null)) // Expired or revoked token
+      .finally(() => setSessionChecked(true));
+  }, []);
 
-  // Fetch announcements on component mount
+  // Board-wide rules the UI needs, such as how long comments stay editable
   useEffect(() => {
-    fetchAnnouncements();
+    getPublicBoardSettings()
+      .then(settings => {
+        setBoardSettings(settings);
+        setReactionTypes(settings.reactionTypes);
+      })
+      .catch(err => console.error(err));
   }, []);
 
-  const fetchAnnouncements = async () => {
+  // The signed-in user's notification subscriptions, including followed announcements
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (!currentUserId) {
+      setSubscriptions([]);
+      return;
+    }
+    getSubscriptions()
+      .then(setSubscriptions)
+      .catch(err => console.error(err));
+  }, [currentUserId]);
+
+  // Fetch announcements once the session is known and whenever the user or filters change
+  useEffect(() => {
+    if (sessionChecked) {
+      fetchAnnouncements();
+    }
+  }, [sessionChecked, currentUser?.id, filters]);
+
+  // Apply live updates from other residents without refetching the list
+  useEffect(() => {
+    const mergeAnnouncement = (id: string, changes: Partial<Announcement>) => {
+      setAnnouncements(prev =>
+        prev.map(announcement => (announcement.id === id ? { ...announcement, ...changes } : announcement))
+      );
+    };
+
+    return subscribeToBoardEvents(event => {
+      switch (event.type) {
+        case 'announcement.created':
+          // A draft we can already see has just been published
+          mergeAnnouncement(event.announcement.id, event.announcement);
+          if (!showsLatestFirst(filtersRef.current)) break;
+          // New announcements go below pinned ones
+          setAnnouncements(prev =>
+            prev.some(announcement => announcement.id === event.announcement.id)
+              ? prev
+              : [
+                  ...prev.filter(announcement => announcement.pinned),
+                  event.announcement,
+                  ...prev.filter(announcement => !announcement.pinned),
+                ]
+          );
+          break;
+        case 'announcement.status_changed':
+          mergeAnnouncement(event.announcementId, { status: event.status, closedReason: event.reason, updateCount: event.updateCount });
+          break;
+        case 'announcement.edited':
+          mergeAnnouncement(event.announcementId, {
+            title: event.title,
+            description: event.description,
+            pinned: event.pinned,
+            priority: event.priority,
+            category: event.category,
+            tags: event.tags,
+            version: event.version,
+            updateCount: event.updateCount,
+            editedAt: event.editedAt,
+          });
+          break;
+        case 'comment.added':
+          mergeAnnouncement(event.announcementId, {
+            commentCount: event.commentCount,
+            lastActivityAt: event.comment.createdAt,
+          });
+          break;
+        case 'comment.hidden':
+        case 'comment.deleted':
+          mergeAnnouncement(event.announcementId, { commentCount: event.commentCount });
+          break;
+        case 'reaction.changed':
+          mergeAnnouncement(event.announcementId, { reactions: event.reactions });
+          break;
+      }
+    });
+  }, []);
+
+  const fetchAnnouncements = async (cursor?: string) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
       setError('');
-      const data = await get<Announcement[]>('/announcements');
-      setAnnouncements(data);
+      const { announcements: data, nextCursor } = await getAnnouncements<AnnouncementsResponse>(filtersRef.current, cursor);
+      if (cursor) {
+        // Append the next page, skipping anything a live event already added
+        setAnnouncements(prev => [
+          ...prev,
+          ...data.filter(announcement => !prev.some(existing => existing.id === announcement.id)),
+        ]);
+      } else {
+        setAnnouncements(data);
+      }
+      setNextCursor(nextCursor);
 
-      // Fetch user reactions for all announcements
+      // The page already carries the signed-in user's own reactions
       const reactions: Record<string, ReactionType> = {};
       for (const announcement of data) {
-        try {
-          const userReaction = await getUserReaction<{ reaction?: ReactionType }>(announcement.id);
-          if (userReaction.reaction) {
-            reactions[announcement.id] = userReaction.reaction;
-          }
-        } catch (err) {
-          // Ignore errors for individual reactions
-          console.warn(`Failed to fetch reaction for ${announcement.id}:`, err);
+        if (announcement.myReaction) {
+          reactions[announcement.id] = announcement.myReaction;
         }
       }
-      setUserReactions(reactions);
+      setUserReactions(prev => (cursor ? { ...prev, ...reactions } : reactions));
     } catch (err) {
       if (err instanceof ApiError) {
         setError(`Failed to fetch announcements: ${err.response.message}`);
@@ -50,9 +197,32 @@ export default function App() {
       console.error(err);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const loadMoreAnnouncements = () => {
+    if (nextCursor && !loadingMore) {
+      fetchAnnouncements(nextCursor);
     }
   };
 
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        fetchAnnouncements(nextCursor);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  const handleFiltersChange = useCallback((newFilters: Filters) => setFilters(newFilters), []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -68,6 +238,19 @@ export default function App() {
       errors.push('Description cannot exceed 1000 characters');
     }
 
+    const commentLimit = maxCommentsPerUser ? Number(maxCommentsPerUser) : undefined;
+    if (commentLimit !== undefined && (!Number.isInteger(commentLimit) || commentLimit < 1 || commentLimit > 100)) {
+      errors.push('Comment limit must be a whole number between 1 and 100');
+    }
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      errors.push('Expiry must be in the future');
+    }
+
+    if (publishAt && new Date(publishAt) <= new Date()) {
+      errors.push('Publish time must be in the future');
+    }
+
     if (errors.length > 0) {
       setValidationErrors(errors);
       return;
@@ -81,6 +264,13 @@ export default function App() {
       const newAnnouncement: CreateAnnouncementDto = {
         title: title.trim(),
         description: description.trim() || undefined,
+        maxCommentsPerUser: commentLimit,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+        priority: priority !== 'normal' ? priority : undefined,
+        category: category || undefined,
+        tags: tags.trim() ? parseTags(tags) : undefined,
+        draft: saveAsDraft || undefined,
+        publishAt: saveAsDraft && publishAt ? new Date(publishAt).toISOString() : undefined,
       };
 
       await post<Announcement>('/announcements', newAnnouncement);
@@ -88,6 +278,13 @@ export default function App() {
       // Reset form
       setTitle('');
       setDescription('');
+      setMaxCommentsPerUser('');
+      setExpiresAt('');
+      setPriority('normal');
+      setCategory('');
+      setTags('');
+      setSaveAsDraft(false);
+      setPublishAt('');
 
       // Refresh announcements
       await fetchAnnouncements();
@@ -109,19 +306,14 @@ export default function App() {
     }
   };
 
-  const handleStatusChange = async (id: string, status: 'active' | 'closed') => {
+  const handleStatusChange = async (announcement: Announcement, status: 'active' | 'closed') => {
     try {
       setError('');
-      await patch(`/announcements/${id}`, { status });
-
-      // Update local state
-      setAnnouncements((prev: Announcement[]) =>
-        prev.map((announcement: Announcement) =>
-          announcement.id === id ? { ...announcement, status } : announcement
-        )
-      );
+      applyAnnouncementUpdate(await updateAnnouncement<Announcement>(announcement.id, { status }, announcement.updateCount));
     } catch (err) {
-      if (err instanceof ApiError) {
+      if (err instanceof ApiError && err.response.code === 'PRECONDITION_FAILED') {
+        showLatestVersion(err.response.details.current);
+      } else if (err instanceof ApiError) {
         setError(`Failed to update announcement: ${err.response.message}`);
       } else {
         setError('Failed to update announcement status');
@@ -130,6 +322,87 @@ export default function App() {
     }
   };
 
+  // The PATCH response is the stored announcement, so only copy the fields it can change
+  const applyAnnouncementUpdate = (updated: Announcement) => {
+    setAnnouncements(prev =>
+      prev.map(announcement =>
+        announcement.id === updated.id
+          ? {
+              ...announcement,
+              title: updated.title,
+              description: updated.description,
+              pinned: !!updated.pinned,
+              priority: updated.priority ?? 'normal',
+              category: updated.category,
+              tags: updated.tags ?? [],
+              version: updated.version,
+              updateCount: updated.updateCount ?? 0,
+              status: updated.status,
+              publishAt: updated.publishAt,
+              publishedAt: updated.publishedAt,
+              closedReason: updated.closedReason,
+              editedAt: updated.editedAt,
+            }
+          : announcement
+      )
+    );
+  };
+
+  // A change was refused because someone else got there first; the 412 carries their version
+  const replaceWithLatest = (current: Announcement) => {
+    setAnnouncements(prev =>
+      prev.map(announcement =>
+        announcement.id === current.id ? { ...current, myReaction: announcement.myReaction } : announcement
+      )
+    );
+  };
+
+  const showLatestVersion = (current: Announcement) => {
+    replaceWithLatest(current);
+    setError('Someone else changed this announcement; showing the latest version. Please try again.');
+  };
+
+  const handleAnnouncementEdited = (updated: Announcement) => {
+    applyAnnouncementUpdate(updated);
+    setEditingId(null);
+  };
+
+  const handlePinChange = async (announcement: Announcement, pinned: boolean) => {
+    try {
+      setError('');
+      applyAnnouncementUpdate(await updateAnnouncement<Announcement>(announcement.id, { pinned }, announcement.updateCount));
+    } catch (err) {
+      if (err instanceof ApiError && err.response.code === 'PRECONDITION_FAILED') {
+        showLatestVersion(err.response.details.current);
+      } else if (err instanceof ApiError) {
+        setError(`Failed to ${pinned ? 'pin' : 'unpin'} announcement: ${err.response.message}`);
+      } else {
+        setError(`Failed to ${pinned ? 'pin' : 'unpin'} announcement`);
+      }
+      console.error(err);
+    }
+  };
+
+  const findFollow = (announcementId: string) =>
+    subscriptions.find(subscription => subscription.scope === 'announcement' && subscription.announcementId === announcementId);
+
+  const handleFollowChange = async (announcement: Announcement) => {
+    const follow = findFollow(announcement.id);
+    try {
+      setError('');
+      if (follow) {
+        await unsubscribe(follow.id);
+        setSubscriptions(prev => prev.filter(subscription => subscription.id !== follow.id));
+      } else {
+        const created = await subscribe({ scope: 'announcement', announcementId: announcement.id });
+        setSubscriptions(prev => [...prev, created]);
+      }
+    } catch (err) {
+      setError(err instanceof ApiError ? err.response.message : `Failed to ${follow ? 'unfollow' : 'follow'} announcement`);
+      console.error(err);
+    }
+  };
+
   const handleReactionChange = async (announcementId: string, newUserReaction: ReactionType | undefined, newReactionCounts: Record<string, number>) => {
     // Update local state immediately for instant UI feedback
     setUserReactions(prev => {
@@ -147,11 +420,7 @@ export default function App() {
         announcement.id === announcementId
           ? {
               ...announcement,
-              reactions: {
-                up: newReactionCounts.up || 0,
-                down: newReactionCounts.down || 0,
-                heart: newReactionCounts.heart || 0
-              }
+              reactions: newReactionCounts
             }
           : announcement
       )
@@ -184,6 +453,9 @@ export default function App() {
     <div className="app">
       <div className="container">
         <h1>Residents Noticeboard</h1>
+        <p className="feed-links">
+          Follow in a feed reader: <a href={`${API}/announcements/feed.rss`}>RSS</a> · <a href={`${API}/announcements/feed.atom`}>Atom</a> · <a href={`${API}/announcements/feed.ics`}>Calendar of end dates</a>
+        </p>
         
         {error && <div className="error">{error}</div>}
         {validationErrors.length > 0 && (
@@ -196,122 +468,347 @@ export default function App() {
           </div>
         )}
         
+        <AuthPanel
+          currentUser={currentUser}
+          onAuthenticated={setCurrentUser}
+          onSignOut={() => setCurrentUser(null)}
+        />
+
+        {currentUser && (
+          <NotificationSettings
+            subscriptions={subscriptions}
+            announcements={announcements}
+            onChange={setSubscriptions}
+          />
+        )}
+
+        {isModerator(currentUser) && (
+          <>
+            <BoardSettingsPanel
+              onSaved={settings => {
+                setBoardSettings(settings);
+                setReactionTypes(settings.reactionTypes);
+              }}
+            />
+            <ModerationQueue />
+          </>
+        )}
+
         {/* Add Announcement Form */}
-        <section className="add-announcement">
-          <h2>Add Announcement</h2>
-          <form onSubmit={handleSubmit}>
-            <div className="form-group">
-              <label htmlFor="title">Title</label>
-              <input
-                id="title"
-                type="text"
-                placeholder="Required (max 200 characters)"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                maxLength={200}
-                disabled={submitting}
-                required
-              />
-              <div className="char-count">
-                {title.length}/200
+        {currentUser && (
+          <section className="add-announcement">
+            <h2>Add Announcement</h2>
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label htmlFor="title">Title</label>
+                <input
+                  id="title"
+                  type="text"
+                  placeholder="Required (max 200 characters)"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={200}
+                  disabled={submitting}
+                  required
+                />
+                <div className="char-count">
+                  {title.length}/200
+                </div>
               </div>
-            </div>
 
-            <div className="form-group">
-              <label htmlFor="description">Description</label>
-              <textarea
-                id="description"
-                placeholder="Optional (max 1000 characters)"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                maxLength={1000}
-                disabled={submitting}
-                rows={3}
-              />
-              <div className="char-count">
-                {description.length}/1000
+              <div className="form-group">
+                <label htmlFor="description">Description</label>
+                <textarea
+                  id="description"
+                  placeholder="Optional (max 1000 characters)"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={1000}
+                  disabled={submitting}
+                  rows={3}
+                />
+                <div className="char-count">
+                  {description.length}/1000
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="maxCommentsPerUser">Comments per resident</label>
+                <input
+                  id="maxCommentsPerUser"
+                  type="number"
+                  placeholder="Optional (default 4)"
+                  value={maxCommentsPerUser}
+                  onChange={(e) => setMaxCommentsPerUser(e.target.value)}
+                  min={1}
+                  max={100}
+                  disabled={submitting}
+                />
+              </div>
+
+              <div className="form-group form-row">
+                <label>
+                  Priority
+                  <select
+                    value={priority}
+                    onChange={(e) => setPriority(e.target.value as AnnouncementPriority)}
+                    disabled={submitting}
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="important">Important</option>
+                    <option value="urgent">Urgent</option>
+                  </select>
+                </label>
+                <label>
+                  Category
+                  <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as '' | AnnouncementCategory)}
+                    disabled={submitting}
+                  >
+                    <option value="">None</option>
+                    {ANNOUNCEMENT_CATEGORIES.map(option => (
+                      <option key={option} value={option}>
+                        {formatCategory(option)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="tags">Tags</label>
+                <input
+                  id="tags"
+                  type="text"
+                  placeholder="Optional, comma-separated (max 5)"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  disabled={submitting}
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="expiresAt">Expires</label>
+                <input
+                  id="expiresAt"
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  disabled={submitting}
+                />
+              </div>
+
+              <div className="form-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={saveAsDraft}
+                    onChange={(e) => setSaveAsDraft(e.target.checked)}
+                    disabled={submitting}
+                  />{' '}
+                  Save as draft
+                </label>
               </div>
-            </div>
-            
-            <button
-              type="submit"
-              disabled={!title.trim() || submitting}
-              className="submit-btn"
-            >
-              {submitting ? 'Submitting...' : 'Submit'}
-            </button>
-          </form>
-        </section>
+
+              {saveAsDraft && (
+                <div className="form-group">
+                  <label htmlFor="publishAt">Publish at</label>
+                  <input
+                    id="publishAt"
+                    type="datetime-local"
+                    value={publishAt}
+                    onChange={(e) => setPublishAt(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+              )}
+              
+              <button
+                type="submit"
+                disabled={!title.trim() || submitting}
+                className="submit-btn"
+              >
+                {submitting ? 'Submitting...' : saveAsDraft ? 'Save draft' : 'Submit'}
+              </button>
+            </form>
+          </section>
+        )}
 
         {/* Announcements List */}
         <section className="announcements">
           <h2>Announcements</h2>
+
+          <AnnouncementFilters filters={filters} onChange={handleFiltersChange} showDrafts={!!currentUser} />
           
           {loading ? (
             <div className="loading">Loading announcements...</div>
           ) : announcements.length === 0 ? (
-            <div className="no-announcements">No announcements yet</div>
+            <div className="no-announcements">
+              {showsLatestFirst(filters) ? 'No announcements yet' : 'No announcements match your filters'}
+            </div>
           ) : (
             <div className="announcements-list">
               {announcements.map((announcement) => (
-                <div key={announcement.id} className="announcement-item">
+                <div key={announcement.id} id={`announcement-${announcement.id}`} className="announcement-item">
                   <div className="announcement-content">
                     <div className="announcement-header">
-                      <h3 className="announcement-title">{announcement.title}</h3>
-                      <div className="announcement-actions">
-                        {announcement.status === 'active' ? (
-                          <button
-                            onClick={() => handleStatusChange(announcement.id, 'closed')}
-                            className="close-btn"
-                          >
-                            Close
-                          </button>
-                        ) : (
-                          <button
-                            onClick={() => handleStatusChange(announcement.id, 'active')}
-                            className="reopen-btn"
-                          >
-                            Reopen
-                          </button>
-                        )}
-                      </div>
+                      <h3 className="announcement-title">
+                        {announcement.pinned && <span className="pin-marker" title="Pinned">📌 </span>}
+                        {announcement.title}
+                      </h3>
+                      {currentUser && (
+                        <div className="announcement-actions">
+                          {announcement.status !== 'draft' && (
+                            <button onClick={() => handleFollowChange(announcement)} className="edit-btn">
+                              {findFollow(announcement.id) ? 'Unfollow' : 'Follow'}
+                            </button>
+                          )}
+                          {canChangeStatus(currentUser, announcement) && (
+                            <>
+                              {isModerator(currentUser) && announcement.status !== 'draft' && (
+                                <button
+                                  onClick={() => handlePinChange(announcement, !announcement.pinned)}
+                                  className="edit-btn"
+                                >
+                                  {announcement.pinned ? 'Unpin' : 'Pin'}
+                                </button>
+                              )}
+                              {canEditAnnouncement(currentUser, announcement) && editingId !== announcement.id && (
+                                <button onClick={() => setEditingId(announcement.id)} className="edit-btn">
+                                  Edit
+                                </button>
+                              )}
+                              {announcement.status === 'draft' ? (
+                                <button
+                                  onClick={() => handleStatusChange(announcement, 'active')}
+                                  className="reopen-btn"
+                                >
+                                  Publish now
+                                </button>
+                              ) : announcement.status === 'active' ? (
+                                <button
+                                  onClick={() => handleStatusChange(announcement, 'closed')}
+                                  className="close-btn"
+                                >
+                                  Close
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => handleStatusChange(announcement, 'active')}
+                                  className="reopen-btn"
+                                >
+                                  Reopen
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
 
                     <div className="announcement-meta">
                       <span className={`status ${announcement.status}`}>
                         {announcement.status}
+                        {announcement.closedReason && ` (${announcement.closedReason})`}
                       </span>
+                      {announcement.priority !== 'normal' && (
+                        <span className={`priority ${announcement.priority}`}>
+                          {announcement.priority}
+                        </span>
+                      )}
+                      {announcement.category && (
+                        <span className="category">{formatCategory(announcement.category)}</span>
+                      )}
+                      {announcement.publishAt && announcement.status === 'draft' && (
+                        <span className="date">
+                          Scheduled: {formatDate(announcement.publishAt)}
+                        </span>
+                      )}
+                      {announcement.expiresAt && announcement.status === 'active' && (
+                        <span className="date">
+                          Expires: {formatDate(announcement.expiresAt)}
+                        </span>
+                      )}
                       <span className="date">
                         Created: {formatDate(announcement.createdAt)}
                       </span>
                       <span className="date">
                         Last activity: {formatDate(announcement.lastActivityAt)}
                       </span>
+                      {announcement.editedAt && (
+                        <button
+                          type="button"
+                          className="edited-marker"
+                          title={`Edited ${formatDate(announcement.editedAt)}`}
+                          onClick={() => setHistoryId(historyId === announcement.id ? null : announcement.id)}
+                        >
+                          (edited)
+                        </button>
+                      )}
                     </div>
 
-                    {announcement.description && (
-                      <p className="announcement-description">
-                        {announcement.description}
-                      </p>
+                    {announcement.tags.length > 0 && (
+                      <div className="tags">
+                        {announcement.tags.map(tag => (
+                          <span key={tag} className="tag">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
+
+                    {historyId === announcement.id && (
+                      <RevisionHistory announcementId={announcement.id} version={announcement.version} />
+                    )}
+
+                    {editingId === announcement.id ? (
+                      <EditAnnouncementForm
+                        announcement={announcement}
+                        onSaved={handleAnnouncementEdited}
+                        onConflict={replaceWithLatest}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
+                      announcement.description && (
+                        <p className="announcement-description">
+                          {announcement.description}
+                        </p>
+                      )
                     )}
 
-                    {/* Reactions Component */}
-                    <Reactions
-                      announcementId={announcement.id}
-                      reactions={announcement.reactions}
-                      onReactionChange={handleReactionChange}
-                      userReaction={userReactions[announcement.id]}
-                    />
-
-                    {/* Comments Component */}
-                    <Comments
-                      announcementId={announcement.id}
-                      commentCount={announcement.commentCount}
-                      onCommentCountChange={handleCommentCountChange}
-                    />
+                    {/* Reactions and comments open once a draft is published */}
+                    {announcement.status !== 'draft' && (
+                      <>
+                        <Reactions
+                          announcementId={announcement.id}
+                          reactions={announcement.reactions}
+                          reactionTypes={reactionTypes}
+                          onReactionChange={handleReactionChange}
+                          userReaction={userReactions[announcement.id]}
+                        />
+
+                        <Comments
+                          announcementId={announcement.id}
+                          commentCount={announcement.commentCount}
+                          currentUser={currentUser}
+                          editWindowMinutes={boardSettings?.commentEditWindowMinutes ?? 0}
+                          onCommentCountChange={handleCommentCountChange}
+                        />
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
+              {nextCursor && (
+                <div ref={loadMoreRef}>
+                  <button
+                    className="load-more-btn"
+                    onClick={loadMoreAnnouncements}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </section>
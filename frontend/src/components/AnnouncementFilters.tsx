@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { ANNOUNCEMENT_CATEGORIES } from '../types/announcement';
+import type { AnnouncementCategory, AnnouncementFilters as Filters, AnnouncementSort } from '../types/announcement';
+import { formatCategory } from '../lib/labels';
+import './AnnouncementFilters.css';
+
+interface AnnouncementFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+  showDrafts: boolean; // Only signed-in users can have drafts to see
+}
+
+const SORT_OPTIONS: { value: AnnouncementSort; label: string }[] = [
+  { value: 'activity', label: 'Recent activity' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'most_reactions', label: 'Most reactions' },
+  { value: 'most_comments', label: 'Most comments' },
+];
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AnnouncementFilters({ filters, onChange, showDrafts }: AnnouncementFiltersProps) {
+  const [search, setSearch] = useState(filters.q);
+
+  useEffect(() => {
+    if (search === filters.q) return;
+    const timer = setTimeout(() => onChange({ ...filters, q: search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, filters, onChange]);
+
+  const update = (changes: Partial<Filters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="announcement-filters">
+      <div className="filters-row">
+        <input
+          type="search"
+          placeholder="Search announcements"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          maxLength={200}
+          aria-label="Search announcements"
+        />
+        <label className="filters-checkbox">
+          <input
+            type="checkbox"
+            checked={filters.includeComments}
+            onChange={(e) => update({ includeComments: e.target.checked })}
+          />
+          Include comments
+        </label>
+      </div>
+
+      <div className="filters-row">
+        <select
+          value={filters.status}
+          onChange={(e) => update({ status: e.target.value as Filters['status'] })}
+          aria-label="Status"
+        >
+          <option value="">All statuses</option>
+          {showDrafts && <option value="draft">Drafts</option>}
+          <option value="active">Active</option>
+          <option value="closed">Closed</option>
+        </select>
+
+        <select
+          value={filters.category}
+          onChange={(e) => update({ category: e.target.value as '' | AnnouncementCategory })}
+          aria-label="Category"
+        >
+          <option value="">All categories</option>
+          {ANNOUNCEMENT_CATEGORIES.map(category => (
+            <option key={category} value={category}>
+              {formatCategory(category)}
+            </option>
+          ))}
+        </select>
+
+        <label>
+          From
+          <input
+            type="date"
+            value={filters.createdFrom}
+            max={filters.createdTo || undefined}
+            onChange={(e) => update({ createdFrom: e.target.value })}
+          />
+        </label>
+        <label>
+          To
+          <input
+            type="date"
+            value={filters.createdTo}
+            min={filters.createdFrom || undefined}
+            onChange={(e) => update({ createdTo: e.target.value })}
+          />
+        </label>
+
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as AnnouncementSort })}
+          aria-label="Sort by"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
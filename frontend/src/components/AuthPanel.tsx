@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { login, register, requestMagicLink, verifyMagicLink, setAuthToken, ApiError } from '../lib/api';
+import type { AuthResponse, User } from '../types/auth';
+import './AuthPanel.css';
+
+interface AuthPanelProps {
+  currentUser: User | null;
+  onAuthenticated: (user: User) => void;
+  onSignOut: () => void;
+}
+
+type AuthMode = 'login' | 'register' | 'magic';
+
+export default function AuthPanel({ currentUser, onAuthenticated, onSignOut }: AuthPanelProps) {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const switchMode = (newMode: AuthMode) => {
+    setMode(newMode);
+    setError('');
+    setCodeSent(false);
+    setCode('');
+  };
+
+  const completeSignIn = (response: AuthResponse) => {
+    setAuthToken(response.accessToken);
+    setPassword('');
+    setCode('');
+    setCodeSent(false);
+    onAuthenticated(response.user);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError('');
+
+      if (mode === 'login') {
+        completeSignIn(await login({ email: email.trim(), password }));
+      } else if (mode === 'register') {
+        completeSignIn(await register({ email: email.trim(), password, displayName: displayName.trim() }));
+      } else if (!codeSent) {
+        await requestMagicLink({ email: email.trim(), displayName: displayName.trim() || undefined });
+        setCodeSent(true);
+      } else {
+        completeSignIn(await verifyMagicLink({ email: email.trim(), code: code.trim() }));
+      }
+    } catch (err) {
+      if (err instanceof ApiError) {
+        switch (err.response.code) {
+          case 'VALIDATION_ERROR':
+            setError(err.response.details?.join(', ') || err.response.message);
+            break;
+          case 'TOO_MANY_REQUESTS':
+            setError('Too many attempts. Please wait a minute and try again.');
+            break;
+          default:
+            setError(err.response.message);
+        }
+      } else {
+        setError('Failed to sign in');
+      }
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (currentUser) {
+    return (
+      <div className="auth-panel signed-in">
+        <span>
+          Signed in as <strong>{currentUser.displayName}</strong>
+        </span>
+        <button
+          type="button"
+          className="sign-out-btn"
+          onClick={() => {
+            setAuthToken(null);
+            onSignOut();
+          }}
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <section className="auth-panel">
+      <div className="auth-tabs">
+        <button type="button" className={mode === 'login' ? 'active' : ''} onClick={() => switchMode('login')}>
+          Sign in
+        </button>
+        <button type="button" className={mode === 'register' ? 'active' : ''} onClick={() => switchMode('register')}>
+          Register
+        </button>
+        <button type="button" className={mode === 'magic' ? 'active' : ''} onClick={() => switchMode('magic')}>
+          Email code
+        </button>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={submitting || codeSent}
+            required
+          />
+        </div>
+
+        {(mode === 'register' || (mode === 'magic' && !codeSent)) && (
+          <div className="form-group">
+            <input
+              type="text"
+              placeholder={mode === 'register' ? 'Display name (max 50 characters)' : 'Display name for new accounts (optional)'}
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={50}
+              disabled={submitting}
+              required={mode === 'register'}
+            />
+          </div>
+        )}
+
+        {mode !== 'magic' && (
+          <div className="form-group">
+            <input
+              type="password"
+              placeholder={mode === 'register' ? 'Password (min 8 characters)' : 'Password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={mode === 'register' ? 8 : undefined}
+              disabled={submitting}
+              required
+            />
+          </div>
+        )}
+
+        {mode === 'magic' && codeSent && (
+          <div className="form-group">
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              maxLength={6}
+              disabled={submitting}
+              required
+            />
+            <div className="auth-hint">We sent a sign-in code to {email}.</div>
+          </div>
+        )}
+
+        <button type="submit" className="submit-btn" disabled={submitting}>
+          {submitting
+            ? 'Please wait...'
+            : mode === 'login'
+              ? 'Sign in'
+              : mode === 'register'
+                ? 'Create account'
+                : codeSent
+                  ? 'Verify code'
+                  : 'Send code'}
+        </button>
+      </form>
+    </section>
+  );
+}
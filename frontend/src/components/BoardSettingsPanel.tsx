@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { getBoardSettings, updateBoardSettings, ApiError } from '../lib/api';
+import { parseTags } from '../lib/labels';
+import type { BoardSettings, ReactionTypeDefinition } from '../types/board';
+import './BoardSettingsPanel.css';
+
+interface BoardSettingsPanelProps {
+  onSaved?: (settings: BoardSettings) => void;
+}
+
+export default function BoardSettingsPanel({ onSaved }: BoardSettingsPanelProps) {
+  const [autoCloseDays, setAutoCloseDays] = useState('');
+  const [editWindowMinutes, setEditWindowMinutes] = useState('');
+  const [bannedWords, setBannedWords] = useState('');
+  const [maxLinks, setMaxLinks] = useState('');
+  const [reactionTypes, setReactionTypes] = useState<ReactionTypeDefinition[]>([]);
+  const [newReaction, setNewReaction] = useState({ key: '', emoji: '', label: '' });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getBoardSettings()
+      .then(settings => {
+        setAutoCloseDays(settings.autoCloseInactiveDays?.toString() ?? '');
+        setEditWindowMinutes(settings.commentEditWindowMinutes.toString());
+        setBannedWords(settings.bannedWords.join(', '));
+        setMaxLinks(settings.maxLinksPerComment?.toString() ?? '');
+        setReactionTypes(settings.reactionTypes);
+      })
+      .catch(err => console.error(err));
+  }, []);
+
+  const updateReactionType = (key: string, changes: Partial<ReactionTypeDefinition>) => {
+    setReactionTypes(prev => prev.map(type => (type.key === key ? { ...type, ...changes } : type)));
+  };
+
+  // Types can only be disabled, not removed, so their existing counts stay labelled
+  const addReactionType = () => {
+    const key = newReaction.key.trim().toLowerCase();
+    if (!/^[a-z0-9_-]{1,20}$/.test(key)) {
+      setError('Reaction keys must be 1-20 lowercase letters, digits, dashes or underscores');
+      return;
+    }
+    if (reactionTypes.some(type => type.key === key)) {
+      setError(`There is already a "${key}" reaction`);
+      return;
+    }
+    if (!newReaction.emoji.trim() || !newReaction.label.trim()) {
+      setError('New reactions need an emoji and a label');
+      return;
+    }
+
+    setError('');
+    setReactionTypes(prev => [...prev, { key, emoji: newReaction.emoji.trim(), label: newReaction.label.trim(), enabled: true }]);
+    setNewReaction({ key: '', emoji: '', label: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const days = autoCloseDays ? Number(autoCloseDays) : null;
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > 365)) {
+      setError('Auto-close days must be a whole number between 1 and 365');
+      return;
+    }
+
+    const minutes = Number(editWindowMinutes || 0);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > 1440) {
+      setError('Comment edit window must be a whole number of minutes between 0 and 1440');
+      return;
+    }
+
+    const linkLimit = maxLinks ? Number(maxLinks) : null;
+    if (linkLimit !== null && (!Number.isInteger(linkLimit) || linkLimit < 0 || linkLimit > 20)) {
+      setError('Link limit must be a whole number between 0 and 20');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+      const saved = await updateBoardSettings({
+        autoCloseInactiveDays: days,
+        commentEditWindowMinutes: minutes,
+        bannedWords: parseTags(bannedWords), // Same comma-separated format as tags
+        maxLinksPerComment: linkLimit,
+        reactionTypes,
+      });
+      onSaved?.(saved);
+      setMessage('Settings saved');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.response.message : 'Failed to save settings');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="board-settings">
+      <summary>Board settings</summary>
+      <form onSubmit={handleSubmit}>
+        {error && <div className="error">{error}</div>}
+        <div className="form-group">
+          <label htmlFor="autoCloseDays">Close announcements after this many days without activity</label>
+          <input
+            id="autoCloseDays"
+            type="number"
+            placeholder="Never"
+            value={autoCloseDays}
+            onChange={(e) => setAutoCloseDays(e.target.value)}
+            min={1}
+            max={365}
+            disabled={saving}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="editWindowMinutes">Minutes authors can edit a comment after posting it (0 turns editing off)</label>
+          <input
+            id="editWindowMinutes"
+            type="number"
+            value={editWindowMinutes}
+            onChange={(e) => setEditWindowMinutes(e.target.value)}
+            min={0}
+            max={1440}
+            disabled={saving}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="bannedWords">Banned words, separated by commas (comments using them are rejected)</label>
+          <textarea
+            id="bannedWords"
+            value={bannedWords}
+            onChange={(e) => setBannedWords(e.target.value)}
+            rows={2}
+            disabled={saving}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="maxLinks">Hold comments with more links than this for review</label>
+          <input
+            id="maxLinks"
+            type="number"
+            placeholder="No limit"
+            value={maxLinks}
+            onChange={(e) => setMaxLinks(e.target.value)}
+            min={0}
+            max={20}
+            disabled={saving}
+          />
+        </div>
+        <fieldset className="form-group reaction-types">
+          <legend>Reactions residents can leave</legend>
+          {reactionTypes.map(type => (
+            <div key={type.key} className="reaction-type-row">
+              <code>{type.key}</code>
+              <input
+                aria-label={`${type.key} emoji`}
+                value={type.emoji}
+                onChange={(e) => updateReactionType(type.key, { emoji: e.target.value })}
+                maxLength={16}
+                disabled={saving}
+              />
+              <input
+                aria-label={`${type.key} label`}
+                value={type.label}
+                onChange={(e) => updateReactionType(type.key, { label: e.target.value })}
+                maxLength={30}
+                disabled={saving}
+              />
+              <label>
+                <input
+                  type="checkbox"
+                  checked={type.enabled}
+                  onChange={(e) => updateReactionType(type.key, { enabled: e.target.checked })}
+                  disabled={saving}
+                />
+                Enabled
+              </label>
+            </div>
+          ))}
+          <div className="reaction-type-row">
+            <input
+              placeholder="key"
+              value={newReaction.key}
+              onChange={(e) => setNewReaction({ ...newReaction, key: e.target.value })}
+              maxLength={20}
+              disabled={saving}
+            />
+            <input
+              placeholder="Emoji"
+              value={newReaction.emoji}
+              onChange={(e) => setNewReaction({ ...newReaction, emoji: e.target.value })}
+              maxLength={16}
+              disabled={saving}
+            />
+            <input
+              placeholder="Label"
+              value={newReaction.label}
+              onChange={(e) => setNewReaction({ ...newReaction, label: e.target.value })}
+              maxLength={30}
+              disabled={saving}
+            />
+            <button type="button" className="cancel-btn" onClick={addReactionType} disabled={saving}>
+              Add
+            </button>
+          </div>
+        </fieldset>
+        <button type="submit" className="submit-btn" disabled={saving}>
+          {saving ? 'Saving...' : 'Save settings'}
+        </button>
+        {message && <span className="board-settings-saved">{message}</span>}
+      </form>
+    </details>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { updateComment, getCommentHistory, reportComment, ApiError } from '../lib/api';
+import { canDeleteComment, canEditComment, canReportComment } from '../lib/permissions';
+import { formatCommentDate } from '../lib/labels';
+import type { Comment, CommentHistoryResponse, CommentVersion } from '../types/announcement';
+import type { User } from '../types/auth';
+
+interface CommentItemProps {
+  comment: Comment;
+  currentUser: User | null;
+  editWindowMinutes: number;
+  deleting: boolean;
+  onDelete: () => void;
+  onEdited: (comment: Comment) => void;
+  className?: string;
+  children?: ReactNode; // Rendered below the text, e.g. the reply thread
+}
+
+// One comment or reply, with the author's edit form and the "(edited)" history toggle
+export default function CommentItem({ comment, currentUser, editWindowMinutes, deleting, onDelete, onEdited, className, children }: CommentItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(comment.text);
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<CommentVersion[]>([]);
+  const [reporting, setReporting] = useState(false);
+  const [reportReason, setReportReason] = useState('');
+  const [reported, setReported] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editText.trim()) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      const updated = await updateComment<Comment>(comment.announcementId, comment.id, { text: editText.trim() });
+      onEdited(updated);
+      setEditing(false);
+      setShowHistory(false);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.response.message : 'Failed to save comment'); // Includes a closed edit window
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      await reportComment(comment.announcementId, comment.id, { reason: reportReason.trim() || undefined });
+      setReported(true);
+      setReporting(false);
+      setReportReason('');
+    } catch (err) {
+      if (err instanceof ApiError && err.response.code === 'CONFLICT') {
+        setReported(true); // Already reported earlier
+        setReporting(false);
+      } else {
+        setError(err instanceof ApiError ? `Failed to report comment: ${err.response.message}` : 'Failed to report comment');
+      }
+      console.error(err);
+    }
+  };
+
+  const toggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+
+    try {
+      setError('');
+      const response = await getCommentHistory<CommentHistoryResponse>(comment.announcementId, comment.id);
+      setVersions(response.versions);
+      setShowHistory(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? `Failed to load history: ${err.response.message}` : 'Failed to load history');
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className={`comment-item${comment.deletedAt ? ' deleted' : ''}${className ? ` ${className}` : ''}`}>
+      <div className="comment-header">
+        <div className="comment-header-left">
+          <span className="comment-author">{comment.deletedAt ? '[deleted]' : comment.authorName}</span>
+          <span className="comment-date">{formatCommentDate(comment.createdAt)}</span>
+          {comment.editedAt && (
+            <button
+              className="comment-edited"
+              onClick={toggleHistory}
+              title={`Edited ${formatCommentDate(comment.editedAt)}`}
+            >
+              (edited)
+            </button>
+          )}
+          {comment.status === 'pending' && (
+            <span className="comment-status pending" title={comment.moderationReason}>Awaiting review</span>
+          )}
+          {comment.status === 'hidden' && (
+            <span className="comment-status hidden" title={comment.moderationReason}>Hidden</span>
+          )}
+        </div>
+        <div className="comment-header-actions">
+          {!editing && canEditComment(currentUser, comment, editWindowMinutes) && (
+            <button
+              className="edit-comment-btn"
+              onClick={() => {
+                setEditText(comment.text);
+                setEditing(true);
+              }}
+              title="Edit comment"
+            >
+              ✏️
+            </button>
+          )}
+          {!reporting && canReportComment(currentUser, comment) && (
+            <button
+              className="report-comment-btn"
+              onClick={() => setReporting(true)}
+              disabled={reported}
+              title={reported ? 'Reported' : 'Report comment'}
+            >
+              🚩
+            </button>
+          )}
+          {canDeleteComment(currentUser, comment) && (
+            <button
+              className="delete-comment-btn"
+              onClick={onDelete}
+              disabled={deleting}
+              title="Delete comment"
+            >
+              {deleting ? '⏳' : '🗑️'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {reporting && (
+        <form onSubmit={handleReport} className="report-comment-form">
+          <input
+            type="text"
+            placeholder="Why should a moderator look at this? (optional)"
+            value={reportReason}
+            onChange={(e) => setReportReason(e.target.value)}
+            maxLength={200}
+          />
+          <button type="button" className="cancel-btn" onClick={() => setReporting(false)}>
+            Cancel
+          </button>
+          <button type="submit" className="submit-btn">
+            Report
+          </button>
+        </form>
+      )}
+
+      {editing ? (
+        <form onSubmit={handleSave} className="add-comment-form edit-comment-form">
+          <div className="form-group">
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              maxLength={500}
+              rows={3}
+              disabled={saving}
+              required
+            />
+            <div className="char-count">
+              {editText.length}/500
+            </div>
+          </div>
+          <div className="form-actions">
+            <button
+              type="button"
+              onClick={() => {
+                setEditing(false);
+                setError('');
+              }}
+              disabled={saving}
+              className="cancel-btn"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={!editText.trim() || saving} className="submit-btn">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="comment-text">
+          {comment.deletedAt ? 'This comment was deleted.' : comment.text}
+        </div>
+      )}
+
+      {showHistory && (
+        <ol className="comment-history">
+          {versions.map(version => (
+            <li key={version.id}>
+              <span className="comment-date">{formatCommentDate(version.createdAt)}</span>
+              <div className="comment-text">{version.text}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getReplies, postComment, deleteComment, ApiError } from '../lib/api';
+import { subscribeToBoardEvents } from '../lib/events';
+import type { Comment, CommentThread, CreateCommentDto, RepliesResponse } from '../types/announcement';
+import type { User } from '../types/auth';
+import CommentItem from './CommentItem';
+
+interface CommentRepliesProps {
+  announcementId: string;
+  thread: CommentThread;
+  currentUser: User | null;
+  editWindowMinutes: number;
+  onReplyCountChange: (delta: number) => void; // Keeps the announcement's comment total in step
+  onThreadEmptied: () => void; // The last reply under a deleted comment is gone
+}
+
+export default function CommentReplies({ announcementId, thread, currentUser, editWindowMinutes, onReplyCountChange, onThreadEmptied }: CommentRepliesProps) {
+  const [replies, setReplies] = useState<Comment[]>([]);
+  // Replies added (+1) or removed (-1) since the thread was loaded, keyed by id so a
+  // reply seen both from our own request and from the live event only counts once
+  const [replyChanges, setReplyChanges] = useState<Record<string, 1 | -1>>({});
+  const [showReplies, setShowReplies] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [showReplyForm, setShowReplyForm] = useState(false);
+  const [authorName, setAuthorName] = useState('');
+  const [replyText, setReplyText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [deletingReplyId, setDeletingReplyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // A reloaded thread already includes earlier changes in its count
+  useEffect(() => {
+    setReplyChanges({});
+  }, [thread.replyCount]);
+
+  const replyCount = thread.replyCount + Object.values(replyChanges).reduce<number>((sum, change) => sum + change, 0);
+
+  const recordReply = (replyId: string, change: 1 | -1) => {
+    setReplyChanges(prev => {
+      if (prev[replyId] === change) return prev;
+      const next = { ...prev };
+      if (prev[replyId] === -change) {
+        delete next[replyId];
+      } else {
+        next[replyId] = change;
+      }
+      return next;
+    });
+  };
+
+  const fetchReplies = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await getReplies<RepliesResponse>(announcementId, thread.id, cursor);
+      setReplies(prev => (cursor ? [...prev, ...response.replies] : response.replies));
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(`Failed to load replies: ${err.response.message}`);
+      } else {
+        setError('Failed to load replies');
+      }
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [announcementId, thread.id]);
+
+  useEffect(() => {
+    if (showReplies) {
+      fetchReplies();
+    }
+  }, [showReplies, fetchReplies]);
+
+  // Replies arrive oldest first, so live ones go at the end
+  useEffect(() => {
+    return subscribeToBoardEvents(event => {
+      if (event.type === 'comment.added' && event.announcementId === announcementId && event.comment.parentId === thread.id) {
+        recordReply(event.comment.id, 1);
+        setReplies(prev =>
+          prev.some(reply => reply.id === event.comment.id) ? prev : [...prev, event.comment]
+        );
+      } else if (event.type === 'comment.edited' && event.announcementId === announcementId && event.comment.parentId === thread.id) {
+        setReplies(prev => prev.map(reply => (reply.id === event.comment.id ? event.comment : reply)));
+      } else if (
+        (event.type === 'comment.deleted' || event.type === 'comment.hidden') &&
+        event.announcementId === announcementId &&
+        event.parentId === thread.id
+      ) {
+        recordReply(event.commentId, -1);
+        setReplies(prev => prev.filter(reply => reply.id !== event.commentId));
+      }
+    });
+  }, [announcementId, thread.id]);
+
+  const handleReplyEdited = (edited: Comment) => {
+    setReplies(prev => prev.map(reply => (reply.id === edited.id ? edited : reply)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!authorName.trim() || !replyText.trim()) {
+      setError('Both name and reply are required');
+      return;
+    }
+
+    const newReply: CreateCommentDto = {
+      authorName: authorName.trim(),
+      text: replyText.trim(),
+      parentId: thread.id,
+    };
+
+    try {
+      setSubmitting(true);
+      setError('');
+      setNotice('');
+
+      const serverReply = await postComment<Comment>(announcementId, newReply);
+
+      // Held replies show to their author but don't count until approved
+      if (serverReply.status === 'pending') {
+        setNotice('Your reply is awaiting review by a moderator.');
+      } else {
+        recordReply(serverReply.id, 1);
+        onReplyCountChange(1);
+      }
+      setReplies(prev => (prev.some(reply => reply.id === serverReply.id) ? prev : [...prev, serverReply]));
+      setShowReplies(true);
+      setReplyText('');
+      setShowReplyForm(false);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        switch (err.response.code) {
+          case 'UNAUTHORIZED':
+            setError('Please sign in to reply.');
+            break;
+          case 'TOO_MANY_REQUESTS':
+            setError('Too many requests. Please wait before replying again.');
+            break;
+          default:
+            setError(err.response.message); // Includes the per-user comment limit
+        }
+      } else {
+        setError('Failed to add reply');
+      }
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteReply = async (reply: Comment) => {
+    if (deletingReplyId) return; // Prevent multiple deletes
+
+    try {
+      setDeletingReplyId(reply.id);
+      setError('');
+
+      await deleteComment(announcementId, reply.id);
+
+      recordReply(reply.id, -1);
+      onReplyCountChange(-1);
+      setReplies(prev => prev.filter(r => r.id !== reply.id));
+      if (thread.deletedAt && replyCount <= 1) {
+        onThreadEmptied();
+      }
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(`Failed to delete reply: ${err.response.message}`);
+      } else {
+        setError('Failed to delete reply');
+      }
+      console.error(err);
+    } finally {
+      setDeletingReplyId(null);
+    }
+  };
+
+  return (
+    <div className="comment-replies">
+      <div className="reply-actions">
+        {currentUser && !thread.deletedAt && !showReplyForm && (
+          <button className="reply-btn" onClick={() => setShowReplyForm(true)}>
+            ↩ Reply
+          </button>
+        )}
+        {replyCount > 0 && (
+          <button className="replies-toggle" onClick={() => setShowReplies(!showReplies)}>
+            {showReplies ? 'Hide replies' : `View ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {notice && <div className="notice-message">{notice}</div>}
+
+      {showReplyForm && (
+        <form onSubmit={handleSubmit} className="add-comment-form reply-form">
+          <div className="form-group">
+            <input
+              type="text"
+              placeholder="Your name (max 50 chars)"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+              maxLength={50}
+              disabled={submitting}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <textarea
+              placeholder="Write a reply (max 500 chars)..."
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              maxLength={500}
+              rows={2}
+              disabled={submitting}
+              required
+            />
+          </div>
+          <div className="form-actions">
+            <button
+              type="button"
+              onClick={() => {
+                setShowReplyForm(false);
+                setReplyText('');
+                setError('');
+              }}
+              disabled={submitting}
+              className="cancel-btn"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!authorName.trim() || !replyText.trim() || submitting}
+              className="submit-btn"
+            >
+              {submitting ? 'Replying...' : 'Reply'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {showReplies && (
+        <div className="replies-list">
+          {replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              className="reply-item"
+              comment={reply}
+              currentUser={currentUser}
+              editWindowMinutes={editWindowMinutes}
+              deleting={deletingReplyId === reply.id}
+              onDelete={() => handleDeleteReply(reply)}
+              onEdited={handleReplyEdited}
+            />
+          ))}
+          {loading && <div className="loading">Loading replies...</div>}
+          {nextCursor && !loading && (
+            <button className="load-more-btn" onClick={() => fetchReplies(nextCursor)}>
+              More replies
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
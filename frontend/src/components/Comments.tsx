@@ -1,16 +1,22 @@
 import { useState, useEffect } from 'react';
 import { getComments, postComment, deleteComment, ApiError } from '../lib/api';
-import type { Comment, CommentsResponse, CreateCommentDto } from '../types/announcement';
+import { subscribeToBoardEvents } from '../lib/events';
+import type { Comment, CommentThread, CommentsResponse, CreateCommentDto } from '../types/announcement';
+import type { User } from '../types/auth';
+import CommentItem from './CommentItem';
+import CommentReplies from './CommentReplies';
 import './Comments.css';
 
 interface CommentsProps {
   announcementId: string;
   commentCount: number;
+  currentUser: User | null;
+  editWindowMinutes: number; // From the board settings
   onCommentCountChange?: (announcementId: string, newCount: number) => void;
 }
 
-export default function Comments({ announcementId, commentCount, onCommentCountChange }: CommentsProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
+export default function Comments({ announcementId, commentCount, currentUser, editWindowMinutes, onCommentCountChange }: CommentsProps) {
+  const [comments, setComments] = useState<CommentThread[]>([]);
   const [localCommentCount, setLocalCommentCount] = useState(commentCount);
   const [loading, setLoading] = useState(false);
   const [showComments, setShowComments] = useState(false);
@@ -19,6 +25,7 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
   const [commentText, setCommentText] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [nextCursor, setNextCursor] = useState<string | undefined>();
   const [deletingCommentId, setDeletingCommentId] = useState<string | null>(null);
 
@@ -69,6 +76,27 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
     const commentToDelete = comments.find(c => c.id === commentId);
     if (!commentToDelete) return;
 
+    // With replies the server decides between removing the thread and leaving a
+    // placeholder, so wait for it and reload instead of guessing
+    if (commentToDelete.replyCount > 0) {
+      try {
+        setDeletingCommentId(commentId);
+        setError('');
+        await deleteComment(announcementId, commentId);
+        await fetchComments();
+      } catch (err) {
+        if (err instanceof ApiError) {
+          setError(`Failed to delete comment: ${err.response.message}`);
+        } else {
+          setError('Failed to delete comment');
+        }
+        console.error(err);
+      } finally {
+        setDeletingCommentId(null);
+      }
+      return;
+    }
+
     try {
       setDeletingCommentId(commentId);
       setError('');
@@ -88,7 +116,9 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
       setLocalCommentCount(localCommentCount);
       onCommentCountChange?.(announcementId, localCommentCount);
 
-      if (err instanceof ApiError) {
+      if (err instanceof ApiError && err.response.code === 'UNAUTHORIZED') {
+        setError('Please sign in to delete comments.');
+      } else if (err instanceof ApiError) {
         setError(`Failed to delete comment: ${err.response.message}`);
       } else {
         setError('Failed to delete comment');
@@ -105,6 +135,46 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
     }
   }, [showComments, announcementId]);
 
+  // Keep the open list in sync with comments added or deleted elsewhere; each thread
+  // follows its own replies
+  useEffect(() => {
+    if (!showComments) return;
+
+    return subscribeToBoardEvents(event => {
+      if (event.type === 'comment.added' && event.announcementId === announcementId && !event.comment.parentId) {
+        setComments(prev =>
+          prev.some(comment => comment.id === event.comment.id) ? prev : [{ ...event.comment, replyCount: 0 }, ...prev]
+        );
+      } else if (event.type === 'comment.edited' && event.announcementId === announcementId && !event.comment.parentId) {
+        setComments(prev =>
+          prev.map(comment => (comment.id === event.comment.id ? { ...event.comment, replyCount: comment.replyCount } : comment))
+        );
+      } else if (event.type === 'comment.hidden' && event.announcementId === announcementId && !event.parentId) {
+        setComments(prev => prev.filter(comment => comment.id !== event.commentId));
+      } else if (event.type === 'comment.deleted' && event.announcementId === announcementId && !event.parentId) {
+        setComments(prev =>
+          event.placeholder
+            ? prev.map(comment =>
+                comment.id === event.commentId
+                  ? { ...comment, authorName: '', text: '', deletedAt: new Date().toISOString() }
+                  : comment
+              )
+            : prev.filter(comment => comment.id !== event.commentId)
+        );
+      }
+    });
+  }, [showComments, announcementId]);
+
+  const handleCommentEdited = (edited: Comment) => {
+    setComments(prev => prev.map(comment => (comment.id === edited.id ? { ...edited, replyCount: comment.replyCount } : comment)));
+  };
+
+  const handleReplyCountChange = (delta: number) => {
+    const newCount = localCommentCount + delta;
+    setLocalCommentCount(newCount);
+    onCommentCountChange?.(announcementId, newCount);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -114,17 +184,20 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
     }
 
     // Create optimistic comment for immediate UI feedback
-    const optimisticComment: Comment = {
+    const optimisticComment: CommentThread = {
       id: `temp-${Date.now()}`,
       authorName: authorName.trim(),
       text: commentText.trim(),
       createdAt: new Date().toISOString(),
-      announcementId: announcementId
+      announcementId: announcementId,
+      userId: currentUser?.id,
+      replyCount: 0,
     };
 
     try {
       setSubmitting(true);
       setError('');
+      setNotice('');
 
       // Add optimistic comment immediately
       setComments(prev => [...prev, optimisticComment]);
@@ -148,12 +221,21 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
 
       const serverComment = await postComment<Comment>(announcementId, newComment);
 
-      // Replace optimistic comment with server response
+      // Replace optimistic comment with server response (the live event may have added it already)
       setComments(prev =>
-        prev.map(comment =>
-          comment.id === optimisticComment.id ? serverComment : comment
-        )
+        prev
+          .filter(comment => comment.id !== serverComment.id)
+          .map(comment =>
+            comment.id === optimisticComment.id ? { ...serverComment, replyCount: 0 } : comment
+          )
       );
+
+      // Held comments don't count until a moderator approves them
+      if (serverComment.status === 'pending') {
+        setLocalCommentCount(localCommentCount);
+        onCommentCountChange?.(announcementId, localCommentCount);
+        setNotice('Your comment is awaiting review by a moderator.');
+      }
     } catch (err) {
       // Revert optimistic update on error
       setComments(prev => prev.filter(comment => comment.id !== optimisticComment.id));
@@ -170,8 +252,11 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
           case 'VALIDATION_ERROR':
             setError(`Validation error: ${err.response.details?.join(', ') || err.response.message}`);
             break;
+          case 'UNAUTHORIZED':
+            setError('Please sign in to comment.');
+            break;
           case 'FORBIDDEN':
-            setError(err.response.message); // Max 4 comments limit
+            setError(err.response.message); // Per-user comment limit reached
             break;
           case 'TOO_MANY_REQUESTS':
             setError('Too many requests. Please wait before adding another comment.');
@@ -188,17 +273,6 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
-
   return (
     <div className="comments-section">
       <div className="comments-header">
@@ -214,6 +288,7 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
       {showComments && (
         <div className="comments-content">
           {error && <div className="error-message">{error}</div>}
+          {notice && <div className="notice-message">{notice}</div>}
 
           {/* Add Comment Form */}
           <div className="add-comment-section">
@@ -286,23 +361,26 @@ export default function Comments({ announcementId, commentCount, onCommentCountC
             ) : (
               <>
                 {comments.map((comment) => (
-                  <div key={comment.id} className="comment-item">
-                    <div className="comment-header">
-                      <div className="comment-header-left">
-                        <span className="comment-author">{comment.authorName}</span>
-                        <span className="comment-date">{formatDate(comment.createdAt)}</span>
-                      </div>
-                      <button
-                        className="delete-comment-btn"
-                        onClick={() => handleDeleteComment(comment.id)}
-                        disabled={deletingCommentId === comment.id}
-                        title="Delete comment"
-                      >
-                        {deletingCommentId === comment.id ? '⏳' : '🗑️'}
-                      </button>
-                    </div>
-                    <div className="comment-text">{comment.text}</div>
-                  </div>
+                  <CommentItem
+                    key={comment.id}
+                    comment={comment}
+                    currentUser={currentUser}
+                    editWindowMinutes={editWindowMinutes}
+                    deleting={deletingCommentId === comment.id}
+                    onDelete={() => handleDeleteComment(comment.id)}
+                    onEdited={handleCommentEdited}
+                  >
+                    {!comment.id.startsWith('temp-') && (
+                      <CommentReplies
+                        announcementId={announcementId}
+                        thread={comment}
+                        currentUser={currentUser}
+                        editWindowMinutes={editWindowMinutes}
+                        onReplyCountChange={handleReplyCountChange}
+                        onThreadEmptied={() => setComments(prev => prev.filter(c => c.id !== comment.id))}
+                      />
+                    )}
+                  </CommentItem>
                 ))}
                 {nextCursor && (
                   <button
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { updateAnnouncement, ApiError } from '../lib/api';
+import { ANNOUNCEMENT_CATEGORIES } from '../types/announcement';
+import type { Announcement, AnnouncementCategory, AnnouncementPriority, UpdateAnnouncementDto } from '../types/announcement';
+import { formatCategory, parseTags } from '../lib/labels';
+import './EditAnnouncementForm.css';
+
+interface EditAnnouncementFormProps {
+  announcement: Announcement;
+  onSaved: (announcement: Announcement) => void;
+  onConflict: (current: Announcement) => void; // Someone else saved first
+  onCancel: () => void;
+}
+
+export default function EditAnnouncementForm({ announcement, onSaved, onConflict, onCancel }: EditAnnouncementFormProps) {
+  const [title, setTitle] = useState(announcement.title);
+  const [description, setDescription] = useState(announcement.description ?? '');
+  const [priority, setPriority] = useState<AnnouncementPriority>(announcement.priority);
+  const [category, setCategory] = useState<'' | AnnouncementCategory>(announcement.category ?? '');
+  const [tags, setTags] = useState(announcement.tags.join(', '));
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const changes: UpdateAnnouncementDto = {};
+    if (title.trim() !== announcement.title) changes.title = title.trim();
+    if (description.trim() !== (announcement.description ?? '')) changes.description = description.trim();
+    if (priority !== announcement.priority) changes.priority = priority;
+    if (category !== (announcement.category ?? '')) changes.category = category || null;
+    const newTags = parseTags(tags);
+    if (newTags.join(',') !== announcement.tags.join(',')) changes.tags = newTags;
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      const updated = await updateAnnouncement<Announcement>(announcement.id, changes, announcement.updateCount);
+      onSaved(updated);
+    } catch (err) {
+      if (err instanceof ApiError && err.response.code === 'PRECONDITION_FAILED') {
+        // Keep the form as typed; saving again applies it over the latest version
+        onConflict(err.response.details.current);
+        setError('Someone else changed this announcement while you were editing. Check your changes and save again to apply them.');
+      } else if (err instanceof ApiError) {
+        setError(err.response.details?.join(', ') || err.response.message);
+      } else {
+        setError('Failed to save changes');
+      }
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="edit-announcement-form">
+      {error && <div className="error">{error}</div>}
+      <div className="form-group">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={200}
+          disabled={submitting}
+          aria-label="Title"
+          required
+        />
+      </div>
+      <div className="form-group">
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={1000}
+          rows={3}
+          disabled={submitting}
+          aria-label="Description"
+          placeholder="Optional (max 1000 characters)"
+        />
+      </div>
+      <div className="form-group form-row">
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as AnnouncementPriority)}
+          disabled={submitting}
+          aria-label="Priority"
+        >
+          <option value="normal">Normal</option>
+          <option value="important">Important</option>
+          <option value="urgent">Urgent</option>
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as '' | AnnouncementCategory)}
+          disabled={submitting}
+          aria-label="Category"
+        >
+          <option value="">No category</option>
+          {ANNOUNCEMENT_CATEGORIES.map(option => (
+            <option key={option} value={option}>
+              {formatCategory(option)}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          disabled={submitting}
+          aria-label="Tags"
+          placeholder="Tags, comma-separated"
+        />
+      </div>
+      <div className="edit-announcement-actions">
+        <button type="button" className="cancel-btn" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </button>
+        <button type="submit" className="submit-btn" disabled={!title.trim() || submitting}>
+          {submitting ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getModerationQueue, moderateComment, ApiError } from '../lib/api';
+import { formatCommentDate } from '../lib/labels';
+import type { ModerationDecision, ModerationQueueItem, ModerationQueueResponse } from '../types/announcement';
+import './ModerationQueue.css';
+
+const DECISIONS: { action: ModerationDecision; label: string }[] = [
+  { action: 'approve', label: 'Approve' },
+  { action: 'hide', label: 'Hide' },
+  { action: 'delete', label: 'Delete' },
+];
+
+// Held and reported comments for committee members to approve, hide or delete
+export default function ModerationQueue() {
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchQueue = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await getModerationQueue<ModerationQueueResponse>(cursor);
+      setItems(prev => (cursor ? [...prev, ...response.items] : response.items));
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      setError(err instanceof ApiError ? `Failed to load the queue: ${err.response.message}` : 'Failed to load the queue');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const decide = async (item: ModerationQueueItem, action: ModerationDecision) => {
+    if (decidingId) return;
+
+    try {
+      setDecidingId(item.id);
+      setError('');
+      await moderateComment(item.comment.announcementId, item.id, action);
+      setItems(prev => prev.filter(other => other.id !== item.id));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.response.message : 'Failed to moderate comment');
+      console.error(err);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <details className="moderation-queue">
+      <summary>Moderation queue{items.length > 0 ? ` (${items.length}${nextCursor ? '+' : ''})` : ''}</summary>
+      {error && <div className="error">{error}</div>}
+      {!loading && items.length === 0 && <p className="moderation-empty">Nothing waiting for review</p>}
+
+      <ul>
+        {items.map(item => (
+          <li key={item.id} className="moderation-item">
+            <div className="moderation-meta">
+              <strong>{item.comment.authorName}</strong> on “{item.announcementTitle}” ·{' '}
+              {formatCommentDate(item.comment.createdAt)}
+              {item.comment.status === 'pending' && (
+                <span className="moderation-flag">Held: {item.comment.moderationReason ?? 'awaiting review'}</span>
+              )}
+            </div>
+            <div className="moderation-text">{item.comment.text}</div>
+            {item.reports.length > 0 && (
+              <ul className="moderation-reports">
+                {item.reports.map(report => (
+                  <li key={report.id}>
+                    Reported {formatCommentDate(report.createdAt)}
+                    {report.reason ? `: ${report.reason}` : ''}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="moderation-actions">
+              {DECISIONS.map(({ action, label }) => (
+                <button
+                  key={action}
+                  className={`moderation-btn ${action}`}
+                  onClick={() => decide(item, action)}
+                  disabled={decidingId === item.id}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {nextCursor && (
+        <button className="load-more-btn" onClick={() => fetchQueue(nextCursor)} disabled={loading}>
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </details>
+  );
+}
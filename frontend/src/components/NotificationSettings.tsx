@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { subscribe, unsubscribe, updateSubscription, ApiError } from '../lib/api';
+import { formatCategory } from '../lib/labels';
+import { ANNOUNCEMENT_CATEGORIES } from '../types/announcement';
+import type { Announcement, AnnouncementCategory } from '../types/announcement';
+import type { CreateSubscriptionDto, NotificationFrequency, NotificationSubscription } from '../types/notification';
+import './NotificationSettings.css';
+
+interface NotificationSettingsProps {
+  subscriptions: NotificationSubscription[];
+  announcements: Announcement[]; // To name followed threads that are on screen
+  onChange: (subscriptions: NotificationSubscription[]) => void;
+}
+
+export default function NotificationSettings({ subscriptions, announcements, onChange }: NotificationSettingsProps) {
+  const [category, setCategory] = useState<AnnouncementCategory>('general');
+  const [frequency, setFrequency] = useState<NotificationFrequency>('immediate');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const subscribedToAll = subscriptions.some(subscription => subscription.scope === 'all');
+
+  const run = async (action: () => Promise<NotificationSubscription[]>, failure: string) => {
+    try {
+      setSaving(true);
+      setError('');
+      onChange(await action());
+    } catch (err) {
+      setError(err instanceof ApiError ? err.response.message : failure);
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubscribe = (data: CreateSubscriptionDto) =>
+    run(async () => [...subscriptions, await subscribe({ ...data, frequency })], 'Failed to subscribe');
+
+  const handleFrequencyChange = (subscriptionId: string, next: NotificationFrequency) =>
+    run(async () => {
+      const updated = await updateSubscription(subscriptionId, { frequency: next });
+      return subscriptions.map(subscription => (subscription.id === subscriptionId ? updated : subscription));
+    }, 'Failed to update subscription');
+
+  const handleUnsubscribe = (subscriptionId: string) =>
+    run(async () => {
+      await unsubscribe(subscriptionId);
+      return subscriptions.filter(subscription => subscription.id !== subscriptionId);
+    }, 'Failed to unsubscribe');
+
+  const describe = (subscription: NotificationSubscription): string => {
+    switch (subscription.scope) {
+      case 'all':
+        return 'All new announcements';
+      case 'category':
+        return `New ${formatCategory(subscription.category!).toLowerCase()} announcements`;
+      case 'announcement': {
+        const announcement = announcements.find(item => item.id === subscription.announcementId);
+        return announcement ? `Updates on "${announcement.title}"` : 'Updates on a followed announcement';
+      }
+    }
+  };
+
+  return (
+    <details className="notification-settings">
+      <summary>Email notifications</summary>
+      {error && <div className="error">{error}</div>}
+      {subscriptions.length === 0 ? (
+        <p className="notification-empty">You are not subscribed to anything yet.</p>
+      ) : (
+        <ul className="subscription-list">
+          {subscriptions.map(subscription => (
+            <li key={subscription.id}>
+              <span>{describe(subscription)}</span>
+              <select
+                aria-label="How often"
+                value={subscription.frequency}
+                onChange={(e) => handleFrequencyChange(subscription.id, e.target.value as NotificationFrequency)}
+                disabled={saving}
+              >
+                <option value="immediate">Right away</option>
+                <option value="daily">Daily digest</option>
+              </select>
+              <button type="button" className="cancel-btn" onClick={() => handleUnsubscribe(subscription.id)} disabled={saving}>
+                Unsubscribe
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="subscription-add">
+        <select
+          aria-label="How often for new subscriptions"
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as NotificationFrequency)}
+          disabled={saving}
+        >
+          <option value="immediate">Right away</option>
+          <option value="daily">Daily digest</option>
+        </select>
+        {!subscribedToAll && (
+          <button type="button" className="edit-btn" onClick={() => handleSubscribe({ scope: 'all' })} disabled={saving}>
+            Subscribe to everything
+          </button>
+        )}
+        <select
+          aria-label="Category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value as AnnouncementCategory)}
+          disabled={saving}
+        >
+          {ANNOUNCEMENT_CATEGORIES.map(option => (
+            <option key={option} value={option}>{formatCategory(option)}</option>
+          ))}
+        </select>
+        <button type="button" className="edit-btn" onClick={() => handleSubscribe({ scope: 'category', category })} disabled={saving}>
+          Subscribe to category
+        </button>
+      </div>
+      <p className="notification-hint">Use Follow on an announcement to hear about its comments and changes.</p>
+    </details>
+  );
+}
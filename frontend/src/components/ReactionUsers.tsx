@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getReactions, ApiError } from '../lib/api';
+import type { ReactionWithUser, ReactionsResponse, ReactionType } from '../types/announcement';
+import type { ReactionTypeDefinition } from '../types/board';
+
+interface ReactionUsersProps {
+  announcementId: string;
+  type?: ReactionType; // Everyone when unset
+  reactionTypes: ReactionTypeDefinition[];
+  refreshKey: string; // Changes whenever the counts do, so the list stays current
+}
+
+// Who reacted to an announcement, newest first
+export default function ReactionUsers({ announcementId, type, reactionTypes, refreshKey }: ReactionUsersProps) {
+  const [reactions, setReactions] = useState<ReactionWithUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchReactions = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await getReactions<ReactionsResponse>(announcementId, type, cursor);
+      setReactions(prev => (cursor ? [...prev, ...response.reactions] : response.reactions));
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      setError(err instanceof ApiError ? `Failed to load reactions: ${err.response.message}` : 'Failed to load reactions');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [announcementId, type]);
+
+  useEffect(() => {
+    fetchReactions();
+  }, [fetchReactions, refreshKey]);
+
+  const emojiFor = (key: ReactionType) => reactionTypes.find(reactionType => reactionType.key === key)?.emoji ?? key;
+
+  return (
+    <div className="reaction-users">
+      {error && <div className="reaction-error">{error}</div>}
+      <ul>
+        {reactions.map(reaction => (
+          <li key={reaction.id}>
+            <span className="reaction-emoji">{emojiFor(reaction.type)}</span>
+            {reaction.displayName ?? 'Former resident'}
+          </li>
+        ))}
+      </ul>
+      {loading && <div className="loading">Loading...</div>}
+      {nextCursor && !loading && (
+        <button className="load-more-btn" onClick={() => fetchReactions(nextCursor)}>
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
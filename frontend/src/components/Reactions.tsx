@@ -1,32 +1,25 @@
 import { useState, useEffect } from 'react';
 import { postReaction, deleteReaction, ApiError } from '../lib/api';
 import type { ReactionBreakdown, ReactionType, Reaction, CreateReactionDto } from '../types/announcement';
+import type { ReactionTypeDefinition } from '../types/board';
+import ReactionUsers from './ReactionUsers';
 import './Reactions.css';
 
 interface ReactionsProps {
   announcementId: string;
   reactions: ReactionBreakdown;
+  reactionTypes: ReactionTypeDefinition[]; // The board's registry, in display order
   onReactionChange: (announcementId: string, newUserReaction: ReactionType | undefined, newReactionCounts: Record<string, number>) => void;
   userReaction?: ReactionType; // Optional: the user's current reaction
 }
 
-const REACTION_EMOJIS: Record<ReactionType, string> = {
-  up: '👍',
-  down: '👎',
-  heart: '❤️',
-};
-
-const REACTION_LABELS: Record<ReactionType, string> = {
-  up: 'Like',
-  down: 'Dislike',
-  heart: 'Love',
-};
-
-export default function Reactions({ announcementId, reactions, onReactionChange, userReaction }: ReactionsProps) {
+export default function Reactions({ announcementId, reactions, reactionTypes, onReactionChange, userReaction }: ReactionsProps) {
   const [loading, setLoading] = useState<ReactionType | null>(null);
   const [error, setError] = useState('');
   const [localReactions, setLocalReactions] = useState(reactions);
   const [localUserReaction, setLocalUserReaction] = useState(userReaction);
+  const [showUsers, setShowUsers] = useState(false);
+  const [usersType, setUsersType] = useState<ReactionType | undefined>();
 
   // Update local state when props change (to handle external updates)
   useEffect(() => {
@@ -48,7 +41,7 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
 
       // Remove previous reaction if exists
       if (localUserReaction) {
-        newLocalReactions[localUserReaction] = Math.max(0, newLocalReactions[localUserReaction] - 1);
+        newLocalReactions[localUserReaction] = Math.max(0, (newLocalReactions[localUserReaction] ?? 0) - 1);
       }
 
       // Toggle logic: if already selected, toggle off; otherwise toggle on
@@ -59,7 +52,7 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
       } else {
         // Toggle ON or SWITCH - set new reaction
         newUserReaction = type;
-        newLocalReactions[type] = newLocalReactions[type] + 1;
+        newLocalReactions[type] = (newLocalReactions[type] ?? 0) + 1;
         const reactionData: CreateReactionDto = { type };
         await postReaction<Reaction>(announcementId, reactionData);
       }
@@ -76,6 +69,9 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
           case 'BAD_REQUEST':
             setError(`Error: ${err.response.message}`);
             break;
+          case 'UNAUTHORIZED':
+            setError('Please sign in to react.');
+            break;
           case 'FORBIDDEN':
             setError(err.response.message);
             break;
@@ -105,7 +101,7 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
 
 
   const getTotalReactions = () => {
-    return localReactions.up + localReactions.down + localReactions.heart;
+    return Object.values(localReactions).reduce((total, count) => total + count, 0);
   };
 
   const getReactionCount = (type: ReactionType) => {
@@ -116,21 +112,32 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
     return loading === type;
   };
 
+  // Clicking the open list again closes it; another type switches the list over
+  const toggleUsers = (type?: ReactionType) => {
+    if (showUsers && usersType === type) {
+      setShowUsers(false);
+    } else {
+      setUsersType(type);
+      setShowUsers(true);
+    }
+  };
+
   return (
     <div className="reactions-section">
       {error && <div className="reaction-error">{error}</div>}
 
       <div className="reactions-container">
-        {(Object.keys(REACTION_EMOJIS) as ReactionType[]).map((type) => (
+        {/* Disabled types take no new reactions, but the user can still remove their own */}
+        {reactionTypes.filter(({ key, enabled }) => enabled || localUserReaction === key).map(({ key: type, emoji, label }) => (
           <button
             key={type}
             className={`reaction-btn ${localUserReaction === type ? 'reaction-on' : 'reaction-off'}`}
             onClick={() => handleReaction(type)}
             disabled={isLoading(type)}
-            title={`${localUserReaction === type ? `Remove ${REACTION_LABELS[type]}` : `${REACTION_LABELS[type]} this announcement`}`}
+            title={`${localUserReaction === type ? `Remove ${label}` : `${label} this announcement`}`}
           >
             <span className="reaction-emoji">
-              {REACTION_EMOJIS[type]}
+              {emoji}
             </span>
             {isLoading(type) && <span className="reaction-loading">⏳</span>}
           </button>
@@ -140,25 +147,28 @@ export default function Reactions({ announcementId, reactions, onReactionChange,
       {getTotalReactions() > 0 && (
         <div className="reactions-summary">
           <div className="reaction-totals">
-            {localReactions.up > 0 && (
-              <span className="reaction-total">
-                👍 {localReactions.up} {localReactions.up === 1 ? 'Like' : 'Likes'}
-              </span>
-            )}
-            {localReactions.down > 0 && (
-              <span className="reaction-total">
-                👎 {localReactions.down} {localReactions.down === 1 ? 'Dislike' : 'Dislikes'}
-              </span>
-            )}
-            {localReactions.heart > 0 && (
-              <span className="reaction-total">
-                ❤️ {localReactions.heart} {localReactions.heart === 1 ? 'Love' : 'Loves'}
-              </span>
-            )}
+            {reactionTypes.filter(({ key }) => localReactions[key] > 0).map(({ key, emoji, label }) => (
+              <button
+                key={key}
+                className={`reaction-total${showUsers && usersType === key ? ' active' : ''}`}
+                onClick={() => toggleUsers(key)}
+                title={`See who reacted with ${label}`}
+              >
+                {emoji} {localReactions[key]} {label}
+              </button>
+            ))}
           </div>
-          <span className="total-reactions">
+          <button className="total-reactions" onClick={() => toggleUsers()} title="See who reacted">
             Total: {getTotalReactions()} {getTotalReactions() === 1 ? 'reaction' : 'reactions'}
-          </span>
+          </button>
+          {showUsers && (
+            <ReactionUsers
+              announcementId={announcementId}
+              type={usersType}
+              reactionTypes={reactionTypes}
+              refreshKey={JSON.stringify(localReactions)}
+            />
+          )}
         </div>
       )}
     </div>
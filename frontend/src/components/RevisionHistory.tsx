@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { getRevisions, ApiError } from '../lib/api';
+import type { AnnouncementRevision, RevisionsResponse } from '../types/announcement';
+import './RevisionHistory.css';
+
+interface RevisionHistoryProps {
+  announcementId: string;
+  version: number; // Refetches when the announcement is edited again
+}
+
+export default function RevisionHistory({ announcementId, version }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<AnnouncementRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    setError('');
+    getRevisions<RevisionsResponse>(announcementId)
+      .then(response => setRevisions([...response.revisions].reverse())) // Newest first
+      .catch(err => {
+        setError(err instanceof ApiError ? err.response.message : 'Failed to load edit history');
+        console.error(err);
+      })
+      .finally(() => setLoading(false));
+  }, [announcementId, version]);
+
+  if (loading) return <div className="revision-history loading">Loading edit history...</div>;
+  if (error) return <div className="revision-history error-message">{error}</div>;
+
+  return (
+    <ol className="revision-history">
+      {revisions.map(revision => (
+        <li key={revision.id} className="revision-item">
+          <div className="revision-meta">
+            Version {revision.version} · {revision.editorName ?? (revision.version === 1 ? 'Original' : 'Edited')} ·{' '}
+            {new Date(revision.createdAt).toLocaleString()}
+          </div>
+          {revision.changes.length === 0 ? (
+            <div className="revision-field">{revision.title}</div>
+          ) : (
+            revision.changes.map(change => (
+              <div key={change.field} className="revision-field">
+                <span className="revision-field-name">{change.field}:</span>{' '}
+                {change.diff.map((segment, index) =>
+                  segment.op === 'insert' ? (
+                    <ins key={index}>{segment.text}</ins>
+                  ) : segment.op === 'delete' ? (
+                    <del key={index}>{segment.text}</del>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  )
+                )}
+              </div>
+            ))
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,3 +1,8 @@
+import type { AnnouncementFilters, ModerationDecision, ReportCommentDto, UpdateAnnouncementDto, UpdateCommentDto } from '../types/announcement';
+import type { AuthResponse, LoginDto, RegisterDto, RequestMagicLinkDto, User, VerifyMagicLinkDto } from '../types/auth';
+import type { BoardSettings, PublicBoardSettings, ReactionTypesResponse, UpdateBoardSettingsDto } from '../types/board';
+import type { CreateSubscriptionDto, NotificationSubscription, UpdateSubscriptionDto } from '../types/notification';
+
 export const API = import.meta.env.VITE_API_URL || 'http://localhost:4000';
 
 // Error response structure from backend
@@ -9,14 +14,17 @@ export interface ErrorResponse {
   path?: string;
 }
 
-// Generate a simple user ID for demo purposes
-export const getUserId = (): string => {
-  let userId = localStorage.getItem('userId');
-  if (!userId) {
-    userId = `user_${Math.random().toString(36).substring(2, 15)}`;
-    localStorage.setItem('userId', userId);
+// Signed access token issued by the backend's /auth endpoints
+const TOKEN_STORAGE_KEY = 'authToken';
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
   }
-  return userId;
 };
 
 // API error class
@@ -31,21 +39,44 @@ export class ApiError extends Error {
   }
 }
 
+// Network failures on writes are retried with the same Idempotency-Key,
+// so the server replays the first result instead of applying it twice
+const MAX_NETWORK_RETRIES = 2;
+
+const withIdempotencyKey = (options: RequestInit): RequestInit => ({
+  ...options,
+  headers: {
+    'Idempotency-Key': crypto.randomUUID(),
+    ...options.headers,
+  },
+});
+
 // Generic fetch wrapper with better error handling
 async function fetchWithErrorHandling<T>(
   path: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const res = await fetch(`${API}${path}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'no-cache, no-store, must-revalidate',
-      'Pragma': 'no-cache',
-      'Expires': '0',
-      ...options.headers,
-    },
-  });
+  const token = getAuthToken();
+  const headers: Record<string, string> = {
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-cache, no-store, must-revalidate',
+    'Pragma': 'no-cache',
+    'Expires': '0',
+    ...(options.headers as Record<string, string>),
+  };
+  const canRetry = Boolean(headers['Idempotency-Key']);
+
+  let res: Response;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      res = await fetch(`${API}${path}`, { ...options, headers });
+      break;
+    } catch (err) {
+      if (!canRetry || attempt >= MAX_NETWORK_RETRIES) throw err;
+      await new Promise(resolve => setTimeout(resolve, 500 * 2 ** attempt));
+    }
+  }
 
   if (!res.ok) {
     try {
@@ -70,38 +101,72 @@ async function fetchWithErrorHandling<T>(
 }
 
 export async function get<T>(path: string, options: RequestInit = {}): Promise<T> {
-  // Add timestamp to prevent caching
-  const separator = path.includes('?') ? '&' : '?';
-  const timestampedPath = `${path}${separator}_t=${Date.now()}`;
-  
-  return fetchWithErrorHandling<T>(timestampedPath, {
+  // No cache-busting query parameter: the no-cache request headers already force
+  // revalidation, and list endpoints reject unknown query parameters
+  return fetchWithErrorHandling<T>(path, {
     method: 'GET',
     ...options,
   });
 }
 
 export async function post<T>(path: string, data?: any, options: RequestInit = {}): Promise<T> {
-  return fetchWithErrorHandling<T>(path, {
+  return fetchWithErrorHandling<T>(path, withIdempotencyKey({
     method: 'POST',
     body: data ? JSON.stringify(data) : undefined,
     ...options,
-  });
+  }));
 }
 
 export async function patch<T>(path: string, data: any, options: RequestInit = {}): Promise<T> {
-  return fetchWithErrorHandling<T>(path, {
+  return fetchWithErrorHandling<T>(path, withIdempotencyKey({
     method: 'PATCH',
     body: JSON.stringify(data),
     ...options,
-  });
+  }));
 }
 
 export async function del<T>(path: string, data?: any, options: RequestInit = {}): Promise<T> {
-  return fetchWithErrorHandling<T>(path, {
+  return fetchWithErrorHandling<T>(path, withIdempotencyKey({
     method: 'DELETE',
     body: data ? JSON.stringify(data) : undefined,
     ...options,
-  });
+  }));
+}
+
+// List one page of announcements matching the given search, filters and sort order
+export async function getAnnouncements<T>(filters: AnnouncementFilters, cursor?: string, limit?: number): Promise<T> {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.append('q', filters.q.trim());
+  if (filters.q.trim() && filters.includeComments) params.append('includeComments', 'true');
+  if (filters.status) params.append('status', filters.status);
+  if (filters.category) params.append('category', filters.category);
+  if (filters.createdFrom) params.append('createdFrom', new Date(filters.createdFrom).toISOString());
+  // Inclusive of the whole "to" day
+  if (filters.createdTo) params.append('createdTo', new Date(`${filters.createdTo}T23:59:59.999`).toISOString());
+  params.append('sort', filters.sort);
+  if (cursor) params.append('cursor', cursor);
+  if (limit) params.append('limit', limit.toString());
+
+  return get<T>(`/announcements?${params.toString()}`);
+}
+
+// One announcement with its first comments, e.g. for a deep link
+export async function getAnnouncement<T>(announcementId: string): Promise<T> {
+  return get<T>(`/announcements/${announcementId}`);
+}
+
+// Refused with PRECONDITION_FAILED when someone else changed the announcement since updateCount.
+// The server compares only the updateCount part of its ETag, so this short form matches too
+export async function updateAnnouncement<T>(
+  announcementId: string,
+  data: UpdateAnnouncementDto,
+  updateCount: number
+): Promise<T> {
+  return patch<T>(`/announcements/${announcementId}`, data, { headers: { 'If-Match': `"${updateCount}"` } });
+}
+
+export async function getRevisions<T>(announcementId: string): Promise<T> {
+  return get<T>(`/announcements/${announcementId}/revisions`);
 }
 
 // Specialized API functions for comments and reactions
@@ -110,14 +175,7 @@ export async function postComment<T>(
   data: any,
   options: RequestInit = {}
 ): Promise<T> {
-  const userId = getUserId();
-  return post<T>(`/announcements/${announcementId}/comments`, data, {
-    ...options,
-    headers: {
-      'x-user-id': userId,
-      ...options.headers,
-    },
-  });
+  return post<T>(`/announcements/${announcementId}/comments`, data, options);
 }
 
 export async function getComments<T>(
@@ -135,19 +193,61 @@ export async function getComments<T>(
   return get<T>(path);
 }
 
+export async function updateComment<T>(
+  announcementId: string,
+  commentId: string,
+  data: UpdateCommentDto
+): Promise<T> {
+  return patch<T>(`/announcements/${announcementId}/comments/${commentId}`, data);
+}
+
+export async function getCommentHistory<T>(announcementId: string, commentId: string): Promise<T> {
+  return get<T>(`/announcements/${announcementId}/comments/${commentId}/history`);
+}
+
+export async function reportComment(announcementId: string, commentId: string, data: ReportCommentDto): Promise<void> {
+  return post<void>(`/announcements/${announcementId}/comments/${commentId}/report`, data);
+}
+
+export async function getReplies<T>(
+  announcementId: string,
+  commentId: string,
+  cursor?: string,
+  limit?: number
+): Promise<T> {
+  const params = new URLSearchParams();
+  if (cursor) params.append('cursor', cursor);
+  if (limit) params.append('limit', limit.toString());
+
+  const queryString = params.toString();
+  const path = `/announcements/${announcementId}/comments/${commentId}/replies${queryString ? `?${queryString}` : ''}`;
+
+  return get<T>(path);
+}
+
+export async function getReactions<T>(
+  announcementId: string,
+  type?: string,
+  cursor?: string,
+  limit?: number
+): Promise<T> {
+  const params = new URLSearchParams();
+  if (type) params.append('type', type);
+  if (cursor) params.append('cursor', cursor);
+  if (limit) params.append('limit', limit.toString());
+
+  const queryString = params.toString();
+  const path = `/announcements/${announcementId}/reactions${queryString ? `?${queryString}` : ''}`;
+
+  return get<T>(path);
+}
+
 export async function postReaction<T>(
   announcementId: string,
   data: any,
   options: RequestInit = {}
 ): Promise<T> {
-  const userId = getUserId();
-  return post<T>(`/announcements/${announcementId}/reactions`, data, {
-    ...options,
-    headers: {
-      'x-user-id': userId,
-      ...options.headers,
-    },
-  });
+  return post<T>(`/announcements/${announcementId}/reactions`, data, options);
 }
 
 export async function deleteReaction<T>(
@@ -155,14 +255,7 @@ export async function deleteReaction<T>(
   data?: any,
   options: RequestInit = {}
 ): Promise<T> {
-  const userId = getUserId();
-  return del<T>(`/announcements/${announcementId}/reactions`, data, {
-    ...options,
-    headers: {
-      'x-user-id': userId,
-      ...options.headers,
-    },
-  });
+  return del<T>(`/announcements/${announcementId}/reactions`, data, options);
 }
 
 export async function deleteComment<T>(
@@ -170,31 +263,86 @@ export async function deleteComment<T>(
   commentId: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const userId = getUserId();
-  return del<T>(`/announcements/${announcementId}/comments/${commentId}`, undefined, {
-    ...options,
-    headers: {
-      'x-user-id': userId,
-      ...options.headers,
-    },
-  });
+  return del<T>(`/announcements/${announcementId}/comments/${commentId}`, undefined, options);
 }
 
 export async function getUserReaction<T>(
   announcementId: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const userId = getUserId();
   const timestamp = Date.now();
   return fetchWithErrorHandling<T>(`/announcements/${announcementId}/user-reaction?_t=${timestamp}`, {
     method: 'GET',
     ...options,
     headers: {
-      'x-user-id': userId,
       'Cache-Control': 'no-cache, no-store, must-revalidate',
       'Pragma': 'no-cache',
       'Expires': '0',
       ...options.headers,
     },
   });
-}
\ No newline at end of file
+}
+
+// Authentication
+export async function register(data: RegisterDto): Promise<AuthResponse> {
+  return post<AuthResponse>('/auth/register', data);
+}
+
+export async function login(data: LoginDto): Promise<AuthResponse> {
+  return post<AuthResponse>('/auth/login', data);
+}
+
+export async function requestMagicLink(data: RequestMagicLinkDto): Promise<void> {
+  return post<void>('/auth/magic-link', data);
+}
+
+export async function verifyMagicLink(data: VerifyMagicLinkDto): Promise<AuthResponse> {
+  return post<AuthResponse>('/auth/magic-link/verify', data);
+}
+
+export async function getCurrentUser(): Promise<User> {
+  return get<User>('/auth/me');
+}
+
+// Moderation (committee/admin)
+export async function getModerationQueue<T>(cursor?: string): Promise<T> {
+  return get<T>(`/moderation/comments${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`);
+}
+
+export async function moderateComment<T>(announcementId: string, commentId: string, action: ModerationDecision): Promise<T> {
+  return patch<T>(`/announcements/${announcementId}/comments/${commentId}/moderation`, { action });
+}
+
+// Board settings; the full set is committee/admin only
+export async function getBoardSettings(): Promise<BoardSettings> {
+  return get<BoardSettings>('/board/settings');
+}
+
+export async function getPublicBoardSettings(): Promise<PublicBoardSettings> {
+  return get<PublicBoardSettings>('/board/settings/public');
+}
+
+export async function updateBoardSettings(data: UpdateBoardSettingsDto): Promise<BoardSettings> {
+  return patch<BoardSettings>('/board/settings', data);
+}
+
+export async function getReactionTypes(): Promise<ReactionTypesResponse> {
+  return get<ReactionTypesResponse>('/board/reaction-types');
+}
+
+// Notification subscriptions
+export async function getSubscriptions(): Promise<NotificationSubscription[]> {
+  return get<NotificationSubscription[]>('/notifications/subscriptions');
+}
+
+export async function subscribe(data: CreateSubscriptionDto): Promise<NotificationSubscription> {
+  return post<NotificationSubscription>('/notifications/subscriptions', data);
+}
+
+export async function updateSubscription(subscriptionId: string, data: UpdateSubscriptionDto): Promise<NotificationSubscription> {
+  return patch<NotificationSubscription>(`/notifications/subscriptions/${subscriptionId}`, data);
+}
+
+export async function unsubscribe(subscriptionId: string): Promise<void> {
+  return del<void>(`/notifications/subscriptions/${subscriptionId}`);
+}
@@ -0,0 +1,41 @@
+import { API } from './api';
+import type { BoardEvent, BoardEventType } from '../types/announcement';
+
+type BoardEventListener = (event: BoardEvent) => void;
+
+const EVENT_TYPES: BoardEventType[] = [
+  'announcement.created',
+  'announcement.status_changed',
+  'announcement.edited',
+  'comment.added',
+  'comment.edited',
+  'comment.hidden',
+  'comment.deleted',
+  'reaction.changed',
+];
+
+// One EventSource shared by every subscriber; it reconnects on its own after drops
+let source: EventSource | null = null;
+const listeners = new Set<BoardEventListener>();
+
+const dispatch = (message: MessageEvent<string>) => {
+  const event = JSON.parse(message.data) as BoardEvent;
+  listeners.forEach(listener => listener(event));
+};
+
+export function subscribeToBoardEvents(listener: BoardEventListener): () => void {
+  listeners.add(listener);
+
+  if (!source) {
+    source = new EventSource(`${API}/announcements/events`);
+    EVENT_TYPES.forEach(type => source!.addEventListener(type, dispatch));
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
@@ -0,0 +1,27 @@
+import type { AnnouncementCategory } from '../types/announcement';
+
+// "lost-and-found" -> "Lost and found"
+export const formatCategory = (category: AnnouncementCategory): string => {
+  const words = category.replace(/-and-/g, ' and ').replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// "Mar 4, 3:07 PM"
+export const formatCommentDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+// "agm, Budget ,agm" -> ["agm", "budget"]
+export const parseTags = (input: string): string[] => [
+  ...new Set(
+    input
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
@@ -0,0 +1,26 @@
+import type { Announcement, Comment } from '../types/announcement';
+import type { User } from '../types/auth';
+
+// Mirrors the backend's role checks so the UI only offers allowed actions
+export const isModerator = (user: User | null): boolean =>
+  user?.role === 'committee' || user?.role === 'admin';
+
+export const canChangeStatus = (user: User | null, announcement: Announcement): boolean =>
+  !!user && (announcement.authorId === user.id || isModerator(user));
+
+export const canEditAnnouncement = canChangeStatus;
+
+// Only the author, and only while the board's edit window is open
+export const canEditComment = (user: User | null, comment: Comment, editWindowMinutes: number): boolean =>
+  !!user &&
+  !comment.deletedAt &&
+  comment.userId === user.id &&
+  editWindowMinutes > 0 &&
+  Date.now() <= new Date(comment.createdAt).getTime() + editWindowMinutes * 60 * 1000;
+
+// Anyone signed in can flag someone else's comment
+export const canReportComment = (user: User | null, comment: Comment): boolean =>
+  !!user && !comment.deletedAt && comment.userId !== user.id;
+
+export const canDeleteComment = (user: User | null, comment: Comment): boolean =>
+  !!user && !comment.deletedAt && (comment.userId === user.id || isModerator(user));
@@ -1,35 +1,152 @@
+// Drafts are only visible to their author and committee members
+export type AnnouncementStatus = 'draft' | 'active' | 'closed';
+
+export type AnnouncementPriority = 'normal' | 'important' | 'urgent';
+
+export const ANNOUNCEMENT_CATEGORIES = ['general', 'maintenance', 'security', 'events', 'meetings', 'lost-and-found'] as const;
+export type AnnouncementCategory = (typeof ANNOUNCEMENT_CATEGORIES)[number];
+
 // Enhanced announcement with metadata
 export interface Announcement {
   id: string;
   title: string;
   description?: string;
-  status: 'active' | 'closed';
+  status: AnnouncementStatus;
+  authorId?: string;
+  maxCommentsPerUser: number;
+  pinned: boolean; // Listed above everything else
+  priority: AnnouncementPriority;
+  category?: AnnouncementCategory;
+  tags: string[];
+  version: number;
+  updateCount: number; // Sent back in If-Match so a stale change is refused
+  publishAt?: string; // Drafts with this set publish automatically
+  publishedAt?: string;
+  expiresAt?: string;
+  closedReason?: 'expired' | 'inactive'; // Set when closed automatically
   createdAt: string;
+  editedAt?: string; // Set once the title or description has been edited
   commentCount: number;
   reactions: ReactionBreakdown;
+  myReaction?: ReactionType; // The signed-in user's reaction, included in list responses
   lastActivityAt: string;
 }
 
-// Reaction breakdown
-export interface ReactionBreakdown {
-  up: number;
-  down: number;
-  heart: number;
-}
+// Reaction breakdown: a count for every reaction type the board has configured
+export type ReactionBreakdown = Record<ReactionType, number>;
+
+// pending comments wait for a moderator; hidden ones were taken down by one
+export type CommentStatus = 'published' | 'pending' | 'hidden';
 
 // Individual comment
 export interface Comment {
   id: string;
   announcementId: string;
+  parentId?: string; // Set on replies; replies are one level deep
+  userId?: string;
   authorName: string;
   text: string;
+  status?: CommentStatus; // Missing means published
+  moderationReason?: string; // Why the comment was held or hidden
   createdAt: string;
+  editedAt?: string; // Set once the author has corrected the text
+  deletedAt?: string; // Deleted comment kept as a placeholder above others' replies
+}
+
+// Top-level comment with the size of its reply thread
+export interface CommentThread extends Comment {
+  replyCount: number;
+}
+
+// Announcements list response with pagination
+export interface AnnouncementsResponse {
+  announcements: Announcement[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+// GET /announcements/:id: one announcement with the first page of its comments
+export interface AnnouncementDetail extends Announcement {
+  comments: CommentThread[];
+  nextCommentsCursor?: string; // Continue with getComments
 }
 
 // Comments response with pagination
 export interface CommentsResponse {
-  comments: Comment[];
+  comments: CommentThread[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+// Text a comment had before an edit replaced it
+export interface CommentVersion {
+  id: string;
+  commentId: string;
+  announcementId: string;
+  text: string;
+  createdAt: string;
+  replacedAt: string;
+}
+
+export interface CommentHistoryResponse {
+  versions: CommentVersion[]; // Oldest first
+}
+
+// One resident flagging a comment for the moderators
+export interface CommentReport {
+  id: string;
+  commentId: string;
+  announcementId: string;
+  userId: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// A held or reported comment waiting for a moderator's decision
+export interface ModerationQueueItem {
+  id: string; // The comment's ID
+  comment: Comment;
+  announcementTitle: string;
+  reports: CommentReport[];
+}
+
+export interface ModerationQueueResponse {
+  items: ModerationQueueItem[];
   nextCursor?: string;
+  prevCursor?: string;
+}
+
+export type ModerationDecision = 'approve' | 'hide' | 'delete';
+
+// Replies to one comment, oldest first
+export interface RepliesResponse {
+  replies: Comment[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+// One version of an announcement's content, with changes since the previous version
+export interface AnnouncementRevision {
+  id: string;
+  announcementId: string;
+  version: number;
+  title: string;
+  description?: string;
+  editorId?: string;
+  editorName?: string;
+  createdAt: string;
+  changes: RevisionFieldChange[];
+}
+
+export interface RevisionFieldChange {
+  field: 'title' | 'description';
+  before?: string;
+  after?: string;
+  diff: { op: 'equal' | 'insert' | 'delete'; text: string }[];
+}
+
+export interface RevisionsResponse {
+  revisions: AnnouncementRevision[];
 }
 
 // Individual reaction
@@ -41,24 +158,98 @@ export interface Reaction {
   createdAt: string;
 }
 
-// Available reaction types
-export type ReactionType = 'up' | 'down' | 'heart';
+// A reaction with the reacting resident's name
+export interface ReactionWithUser extends Reaction {
+  displayName?: string; // Unset once the account is gone
+}
+
+export interface ReactionsResponse {
+  reactions: ReactionWithUser[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+// Key of one of the board's reaction types (see GET /board/reaction-types)
+export type ReactionType = string;
+
+// List ordering supported by GET /announcements
+export type AnnouncementSort = 'newest' | 'activity' | 'most_reactions' | 'most_comments';
+
+// Search and filter state for the announcements list
+export interface AnnouncementFilters {
+  q: string;
+  includeComments: boolean;
+  status: '' | AnnouncementStatus;
+  category: '' | AnnouncementCategory;
+  sort: AnnouncementSort;
+  createdFrom: string; // yyyy-mm-dd from a date input
+  createdTo: string;
+}
 
 // DTOs
 export interface CreateAnnouncementDto {
   title: string;
   description?: string;
+  maxCommentsPerUser?: number;
+  priority?: AnnouncementPriority;
+  category?: AnnouncementCategory;
+  tags?: string[];
+  draft?: boolean;
+  publishAt?: string; // Saves a draft that publishes itself at this time
+  expiresAt?: string;
 }
 
 export interface UpdateAnnouncementDto {
-  status: 'active' | 'closed';
+  status?: 'active' | 'closed';
+  title?: string;
+  description?: string; // An empty string removes the description
+  pinned?: boolean; // Committee members only
+  priority?: AnnouncementPriority;
+  category?: AnnouncementCategory | null; // null removes the category
+  tags?: string[];
+  publishAt?: string | null; // Drafts only; null unschedules
+  expiresAt?: string | null; // null removes the expiry date
 }
 
 export interface CreateCommentDto {
   authorName: string;
   text: string;
+  parentId?: string; // Reply to this comment
+}
+
+export interface UpdateCommentDto {
+  text: string;
+}
+
+export interface ReportCommentDto {
+  reason?: string;
 }
 
 export interface CreateReactionDto {
   type: ReactionType;
 }
+
+// Live updates from GET /announcements/events
+export type BoardEvent =
+  | { type: 'announcement.created'; announcement: Announcement }
+  | { type: 'announcement.status_changed'; announcementId: string; status: 'active' | 'closed'; reason?: 'expired' | 'inactive'; updateCount: number }
+  | {
+      type: 'announcement.edited';
+      announcementId: string;
+      title: string;
+      description?: string;
+      pinned: boolean;
+      priority: AnnouncementPriority;
+      category?: AnnouncementCategory;
+      tags: string[];
+      version: number;
+      updateCount: number;
+      editedAt?: string;
+    }
+  | { type: 'comment.added'; announcementId: string; comment: Comment; commentCount: number }
+  | { type: 'comment.edited'; announcementId: string; comment: Comment }
+  | { type: 'comment.hidden'; announcementId: string; commentId: string; parentId?: string; commentCount: number }
+  | { type: 'comment.deleted'; announcementId: string; commentId: string; parentId?: string; placeholder: boolean; commentCount: number }
+  | { type: 'reaction.changed'; announcementId: string; reactions: ReactionBreakdown };
+
+export type BoardEventType = BoardEvent['type'];
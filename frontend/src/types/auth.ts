@@ -0,0 +1,38 @@
+// Roles, from least to most privileged
+export type UserRole = 'resident' | 'committee' | 'admin';
+
+// Signed-in resident
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+}
+
+// Response from the login, register and magic-link endpoints
+export interface AuthResponse {
+  accessToken: string;
+  user: User;
+}
+
+// DTOs
+export interface RegisterDto {
+  email: string;
+  password: string;
+  displayName: string;
+}
+
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+export interface RequestMagicLinkDto {
+  email: string;
+  displayName?: string;
+}
+
+export interface VerifyMagicLinkDto {
+  email: string;
+  code: string;
+}
@@ -0,0 +1,33 @@
+// One reaction residents can leave; disabled types keep their counts but take no new reactions
+export interface ReactionTypeDefinition {
+  key: string;
+  emoji: string;
+  label: string;
+  enabled: boolean;
+}
+
+export interface ReactionTypesResponse {
+  reactionTypes: ReactionTypeDefinition[];
+}
+
+// Board-wide settings managed by committee members
+export interface BoardSettings {
+  autoCloseInactiveDays: number | null;
+  commentEditWindowMinutes: number; // 0 turns comment editing off
+  bannedWords: string[]; // Comments using these are rejected
+  maxLinksPerComment: number | null; // Comments with more links are held for review
+  reactionTypes: ReactionTypeDefinition[]; // In display order
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// The settings any visitor can read
+export type PublicBoardSettings = Pick<BoardSettings, 'commentEditWindowMinutes' | 'reactionTypes'>;
+
+export interface UpdateBoardSettingsDto {
+  autoCloseInactiveDays?: number | null;
+  commentEditWindowMinutes?: number;
+  bannedWords?: string[];
+  maxLinksPerComment?: number | null;
+  reactionTypes?: ReactionTypeDefinition[];
+}
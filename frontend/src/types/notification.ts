@@ -0,0 +1,30 @@
+import type { AnnouncementCategory } from './announcement';
+
+// all: every new announcement; category: new announcements in one category;
+// announcement: comments and changes on one announcement
+export type SubscriptionScope = 'all' | 'category' | 'announcement';
+
+// daily collects notifications into one digest a day
+export type NotificationFrequency = 'immediate' | 'daily';
+
+export interface NotificationSubscription {
+  id: string;
+  userId: string;
+  scope: SubscriptionScope;
+  category?: AnnouncementCategory;
+  announcementId?: string;
+  frequency: NotificationFrequency;
+  createdAt: string;
+}
+
+// DTOs
+export interface CreateSubscriptionDto {
+  scope: SubscriptionScope;
+  category?: AnnouncementCategory;
+  announcementId?: string;
+  frequency?: NotificationFrequency;
+}
+
+export interface UpdateSubscriptionDto {
+  frequency: NotificationFrequency;
+}